@@ -0,0 +1,153 @@
+import { Box, Camera, ImagePlus, Trash2 } from "lucide-react"
+import type { SamplerDeclaration } from "@/lib/glsl/uniforms"
+import type { Asset, TextureSettings } from "@/lib/runtime/protocol"
+
+interface AssetPanelProps {
+  assets: Asset[]
+  /** Sampler uniforms declared in the shaders, offered as binding targets. */
+  samplers: SamplerDeclaration[]
+  onAddFiles: (files: File[]) => void
+  onAddCubemap: (files: File[]) => void
+  onAddWebcam: () => void
+  onChange: (id: string, changes: Partial<Asset>) => void
+  onRemove: (id: string) => void
+}
+
+const kindLabels: Record<Asset["kind"], string> = {
+  image: "Image",
+  video: "Video",
+  webcam: "Webcam",
+  cubemap: "Cubemap",
+}
+
+function pickFiles(accept: string, multiple: boolean, onPick: (files: File[]) => void) {
+  const input = document.createElement("input")
+  input.type = "file"
+  input.accept = accept
+  input.multiple = multiple
+  input.onchange = () => onPick([...(input.files ?? [])])
+  input.click()
+}
+
+function Thumbnail({ asset }: { asset: Asset }) {
+  const className = "w-10 h-10 shrink-0 rounded border object-cover bg-muted"
+  if (asset.kind === "video") return <video src={asset.urls[0]} className={className} muted />
+  if (asset.kind === "webcam") {
+    return <div className={`${className} flex items-center justify-center`}><Camera className="w-4 h-4 text-muted-foreground" /></div>
+  }
+  return <img src={asset.urls[0]} alt="" className={className} />
+}
+
+function SettingsControls({ settings, onChange }: { settings: TextureSettings; onChange: (settings: TextureSettings) => void }) {
+  const update = (changes: Partial<TextureSettings>) => onChange({ ...settings, ...changes })
+  const selectClass = "h-6 rounded border bg-background px-1"
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <label className="flex items-center gap-1">
+        Wrap
+        <select
+          value={settings.wrap}
+          onChange={(e) => update({ wrap: (e.target as HTMLSelectElement).value as TextureSettings["wrap"] })}
+          className={selectClass}
+        >
+          <option value="clamp">Clamp</option>
+          <option value="repeat">Repeat</option>
+          <option value="mirror">Mirror</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        Filter
+        <select
+          value={settings.filter}
+          onChange={(e) => update({ filter: (e.target as HTMLSelectElement).value as TextureSettings["filter"] })}
+          className={selectClass}
+        >
+          <option value="linear">Linear</option>
+          <option value="nearest">Nearest</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={settings.mipmap} onChange={(e) => update({ mipmap: (e.target as HTMLInputElement).checked })} />
+        Mipmaps
+      </label>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={settings.flipY} onChange={(e) => update({ flipY: (e.target as HTMLInputElement).checked })} />
+        Flip Y
+      </label>
+    </div>
+  )
+}
+
+export function AssetPanel({ assets, samplers, onAddFiles, onAddCubemap, onAddWebcam, onChange, onRemove }: AssetPanelProps) {
+  const unbound = samplers.filter((sampler) => !assets.some((asset) => asset.uniform === sampler.name))
+  const buttonClass = "flex items-center gap-1 px-2 py-0.5 rounded hover:bg-accent hover:text-accent-foreground disabled:opacity-50 disabled:pointer-events-none"
+
+  return (
+    <div
+      className="min-h-full text-xs"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault()
+        onAddFiles([...(e.dataTransfer?.files ?? [])])
+      }}
+    >
+      <div className="flex items-center gap-1 px-2 py-1 border-b">
+        <button className={buttonClass} onClick={() => pickFiles("image/*,video/*", true, onAddFiles)}>
+          <ImagePlus className="w-3 h-3" /> Image / video
+        </button>
+        <button className={buttonClass} onClick={() => pickFiles("image/*", true, onAddCubemap)} title="Pick the six face images">
+          <Box className="w-3 h-3" /> Cubemap
+        </button>
+        <button className={buttonClass} onClick={onAddWebcam} disabled={assets.some((asset) => asset.kind === "webcam")}>
+          <Camera className="w-3 h-3" /> Webcam
+        </button>
+      </div>
+
+      <datalist id="sampler-uniforms">
+        {samplers.map((sampler) => <option key={sampler.name} value={sampler.name} />)}
+      </datalist>
+
+      {assets.length === 0 && (
+        <div className="p-3 text-muted-foreground">
+          Drop images or videos here, then bind them to a sampler, e.g. <code>uniform sampler2D uTexture;</code>
+        </div>
+      )}
+
+      <div className="divide-y">
+        {assets.map((asset) => (
+          <div key={asset.id} className="flex gap-2 px-3 py-2">
+            <Thumbnail asset={asset} />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium" title={asset.name}>{asset.name}</span>
+                <span className="text-muted-foreground">{kindLabels[asset.kind]}</span>
+                <input
+                  value={asset.uniform}
+                  list="sampler-uniforms"
+                  title="Sampler uniform this texture is bound to"
+                  onChange={(e) => onChange(asset.id, { uniform: (e.target as HTMLInputElement).value.trim() })}
+                  className="ml-auto w-28 h-6 px-1 rounded border bg-background font-mono"
+                />
+                <button
+                  onClick={() => onRemove(asset.id)}
+                  title="Remove texture"
+                  className="p-0.5 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <SettingsControls settings={asset.settings} onChange={(settings) => onChange(asset.id, { settings })} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {unbound.length > 0 && (
+        <div className="px-3 py-2 border-t text-muted-foreground">
+          Unbound samplers (read as black): <span className="font-mono">{unbound.map((sampler) => sampler.name).join(", ")}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from "preact/hooks"
+import { Camera } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { CaptureOptions } from "@/lib/runtime/protocol"
+
+interface CaptureDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Size of the preview pane in CSS pixels, for the "2× pane" preset. */
+  paneSize: { width: number; height: number }
+  /** Resolves to whether the still was saved; failures are reported by the caller. */
+  onCapture: (options: CaptureOptions) => Promise<boolean>
+}
+
+const presets = [
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "8K", width: 7680, height: 4320 },
+  { label: "A4 at 300 dpi", width: 3508, height: 2480 },
+]
+
+const MAX_SIZE = 16384
+
+export function CaptureDialog({ open, onOpenChange, paneSize, onCapture }: CaptureDialogProps) {
+  const [width, setWidth] = useState(3840)
+  const [height, setHeight] = useState(2160)
+  const [time, setTime] = useState(0)
+  const [busy, setBusy] = useState(false)
+
+  const pane = { label: "2× pane", width: Math.round(paneSize.width * 2), height: Math.round(paneSize.height * 2) }
+  const valid = [width, height].every((size) => Number.isInteger(size) && size >= 1 && size <= MAX_SIZE) && time >= 0
+  const inputClass = "h-8 w-24 rounded-md border bg-background px-2 text-sm"
+
+  const capture = async () => {
+    setBusy(true)
+    const saved = await onCapture({ width, height, time })
+    setBusy(false)
+    if (saved) onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Capture still</DialogTitle>
+          <DialogDescription>
+            Renders one frame as a PNG at any size up to {MAX_SIZE}px, in tiles when it is larger than the GPU draws at once. Time is
+            frozen at the chosen value, so the same settings give the same image.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1">
+          {[...presets, pane].map((preset) => (
+            <Button
+              key={preset.label}
+              variant={preset.width === width && preset.height === height ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => {
+                setWidth(preset.width)
+                setHeight(preset.height)
+              }}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            value={width}
+            onInput={(e) => setWidth(Math.round((e.target as HTMLInputElement).valueAsNumber))}
+            className={inputClass}
+            aria-label="Width"
+          />
+          <span className="text-muted-foreground">×</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            value={height}
+            onInput={(e) => setHeight(Math.round((e.target as HTMLInputElement).valueAsNumber))}
+            className={inputClass}
+            aria-label="Height"
+          />
+          <span className="text-muted-foreground">px at</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={time}
+            onInput={(e) => setTime((e.target as HTMLInputElement).valueAsNumber)}
+            className={inputClass}
+            aria-label="Time in seconds"
+          />
+          <span className="text-muted-foreground">s</span>
+        </div>
+
+        <DialogFooter>
+          <Button size="sm" onClick={capture} disabled={!valid || busy}>
+            <Camera className="w-4 h-4" />
+            {busy ? "Rendering…" : "Capture"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
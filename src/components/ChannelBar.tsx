@@ -0,0 +1,69 @@
+import { Trash2 } from "lucide-react"
+import { describeChannel } from "@/lib/passes"
+import type { Asset, BufferId, ChannelInput } from "@/lib/runtime/protocol"
+
+interface ChannelBarProps {
+  channels: ChannelInput[]
+  /** Buffers that exist and can be picked as an input. */
+  buffers: BufferId[]
+  /** Textures that can be picked as an input. */
+  assets: Asset[]
+  onChange: (index: number, channel: ChannelInput) => void
+  /** Shown as a remove button when the bar belongs to a buffer pass. */
+  onRemove?: () => void
+}
+
+// Select values: "none", "buffer:A", "asset:<id>"
+function channelValue(channel: ChannelInput) {
+  if (channel.type === "buffer") return `buffer:${channel.buffer}`
+  if (channel.type === "asset") return `asset:${channel.asset}`
+  return "none"
+}
+
+function parseChannelValue(value: string): ChannelInput {
+  const [type, id] = value.split(/:(.*)/)
+  if (type === "buffer") return { type: "buffer", buffer: id as BufferId }
+  if (type === "asset") return { type: "asset", asset: id }
+  return { type: "none" }
+}
+
+export function ChannelBar({ channels, buffers, assets, onChange, onRemove }: ChannelBarProps) {
+  // Every input the select offers, plus the current one if it no longer exists
+  const options = (channel: ChannelInput) => {
+    const inputs: ChannelInput[] = [
+      { type: "none" },
+      ...buffers.map((buffer): ChannelInput => ({ type: "buffer", buffer })),
+      ...assets.map((asset): ChannelInput => ({ type: "asset", asset: asset.id })),
+    ]
+    const current = channelValue(channel)
+    return inputs.some((input) => channelValue(input) === current) ? inputs : [...inputs, channel]
+  }
+
+  return (
+    <div className="flex items-center gap-3 px-2 py-1 border-b bg-card text-xs">
+      {channels.map((channel, index) => (
+        <label key={index} className="flex items-center gap-1">
+          <span className="font-mono text-muted-foreground">iChannel{index}</span>
+          <select
+            value={channelValue(channel)}
+            onChange={(e) => onChange(index, parseChannelValue((e.target as HTMLSelectElement).value))}
+            className="h-6 max-w-32 rounded border bg-background px-1"
+          >
+            {options(channel).map((input) => (
+              <option key={channelValue(input)} value={channelValue(input)}>{describeChannel(input, assets)}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          title="Remove this buffer"
+          className="ml-auto p-1 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+}
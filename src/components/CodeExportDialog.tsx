@@ -0,0 +1,83 @@
+import { useMemo, useState } from "preact/hooks"
+import { Copy, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { generateModule, type CodeTarget, type ModuleOptions } from "@/lib/codegen"
+
+interface CodeExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Everything but the target and language, which the dialog picks. */
+  source: Omit<ModuleOptions, "target" | "typescript">
+  onDownload: (blob: Blob, fileName: string) => void
+}
+
+const targetLabels: Record<CodeTarget, string> = {
+  ogl: "OGL Program / Mesh",
+  webgl: "Raw WebGL",
+}
+
+export function CodeExportDialog({ open, onOpenChange, source, onDownload }: CodeExportDialogProps) {
+  const [target, setTarget] = useState<CodeTarget>("ogl")
+  const [typescript, setTypescript] = useState(true)
+  const [copied, setCopied] = useState(false)
+
+  // Only generated while the dialog shows
+  const code = useMemo(
+    () => (open ? generateModule({ ...source, target, typescript }) : ""),
+    [open, source, target, typescript]
+  )
+  const selectClass = "h-8 rounded-md border bg-background px-2 text-sm"
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Export as code</DialogTitle>
+          <DialogDescription>
+            An ES module with the shaders, typed uniform defaults and a factory for your app. Uniforms marked as fed by the preview need
+            updating from your render loop.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <select value={target} onChange={(e) => setTarget((e.target as HTMLSelectElement).value as CodeTarget)} className={selectClass}>
+            {(Object.keys(targetLabels) as CodeTarget[]).map((option) => (
+              <option key={option} value={option}>{targetLabels[option]}</option>
+            ))}
+          </select>
+          <select
+            value={typescript ? "ts" : "js"}
+            onChange={(e) => setTypescript((e.target as HTMLSelectElement).value === "ts")}
+            className={selectClass}
+          >
+            <option value="ts">TypeScript</option>
+            <option value="js">JavaScript</option>
+          </select>
+        </div>
+
+        <pre className="h-96 overflow-auto rounded-md border bg-muted p-3 text-xs font-mono">{code}</pre>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={copy}>
+            <Copy className="w-4 h-4" />
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onDownload(new Blob([code], { type: "text/javascript" }), `shader.${typescript ? "ts" : "js"}`)}
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "preact/hooks"
+import { AlertTriangle, Ban, Info, XCircle } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { ConsoleEntry, SourceLocation } from "@/lib/runtime/console"
+import type { ConsoleLevel } from "@/lib/runtime/protocol"
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[]
+  onClear: () => void
+  onSelect: (location: SourceLocation) => void
+}
+
+const levels: { level: ConsoleLevel; label: string }[] = [
+  { level: "log", label: "Logs" },
+  { level: "warn", label: "Warnings" },
+  { level: "error", label: "Errors" },
+]
+
+function tabLabel(tab: SourceLocation["tab"]) {
+  if (tab === "javascript") return "sketch.js"
+  return tab.startsWith("buffer") ? `buffer ${tab.slice(-1)}` : tab
+}
+
+function formatTime(timestamp: number) {
+  const date = new Date(timestamp)
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
+
+function LevelIcon({ level }: { level: ConsoleLevel }) {
+  if (level === "error") return <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" />
+  if (level === "warn") return <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-yellow-500" />
+  return <Info className="w-3 h-3 mt-0.5 shrink-0 text-muted-foreground" />
+}
+
+export function ConsolePanel({ entries, onClear, onSelect }: ConsolePanelProps) {
+  const [visibleLevels, setVisibleLevels] = useState<Record<ConsoleLevel, boolean>>({ log: true, warn: true, error: true })
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const visible = entries.filter((entry) => visibleLevels[entry.level])
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [visible.length])
+
+  const toggleLevel = (level: ConsoleLevel) => {
+    setVisibleLevels((current) => ({ ...current, [level]: !current[level] }))
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-1 px-2 py-1 border-b">
+        {levels.map(({ level, label }) => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={cn(
+              "px-2 py-0.5 text-xs rounded",
+              visibleLevels[level] ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50"
+            )}
+          >
+            {label} ({entries.filter((entry) => entry.level === level).length})
+          </button>
+        ))}
+        <button
+          onClick={onClear}
+          title="Clear console"
+          className="ml-auto p-1 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+        >
+          <Ban className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-auto font-mono text-xs">
+        {visible.map((entry) => (
+          <div
+            key={entry.id}
+            onClick={entry.location ? () => onSelect(entry.location!) : undefined}
+            className={cn(
+              "flex items-start gap-2 px-2 py-0.5 border-b border-border/50",
+              entry.level === "error" && "bg-destructive/10",
+              entry.level === "warn" && "bg-yellow-500/10",
+              entry.location && "cursor-pointer hover:bg-accent"
+            )}
+          >
+            <span className="shrink-0 text-muted-foreground">{formatTime(entry.timestamp)}</span>
+            <LevelIcon level={entry.level} />
+            <span className="flex-1 whitespace-pre-wrap break-all">{entry.text}</span>
+            {entry.location && (
+              <span className="shrink-0 text-muted-foreground underline">
+                {tabLabel(entry.location.tab)}:{entry.location.line}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
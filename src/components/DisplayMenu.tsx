@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "preact/hooks"
+import { Monitor } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ASPECT_LABELS, RENDER_SCALES, type AspectPreset, type PreviewDisplay } from "@/lib/display"
+
+interface DisplayMenuProps {
+  display: PreviewDisplay
+  onChange: (display: PreviewDisplay) => void
+}
+
+const MAX_SIZE = 8192
+
+export function DisplayMenu({ display, onChange }: DisplayMenuProps) {
+  const [open, setOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false)
+    }
+    document.addEventListener("mousedown", close)
+    return () => document.removeEventListener("mousedown", close)
+  }, [open])
+
+  const custom = display.aspect === "custom"
+  const setSize = (key: "width" | "height", value: number) => {
+    if (Number.isInteger(value) && value >= 1 && value <= MAX_SIZE) onChange({ ...display, size: { ...display.size, [key]: value } })
+  }
+  const selectClass = "h-6 rounded border bg-background px-1 text-xs"
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant={open ? "secondary" : "outline"} size="sm" onClick={() => setOpen(!open)} title="Render scale, pixel ratio and aspect">
+        <Monitor className="w-4 h-4" />
+      </Button>
+      {open && (
+        <div className="absolute top-full right-0 mt-1 w-60 space-y-2 rounded-lg border bg-card p-3 text-xs shadow-lg z-50">
+          <label className="flex items-center justify-between gap-2">
+            <span>Aspect</span>
+            <select
+              value={display.aspect}
+              onChange={(e) => onChange({ ...display, aspect: (e.target as HTMLSelectElement).value as AspectPreset })}
+              className={selectClass}
+            >
+              {(Object.keys(ASPECT_LABELS) as AspectPreset[]).map((aspect) => (
+                <option key={aspect} value={aspect}>{ASPECT_LABELS[aspect]}</option>
+              ))}
+            </select>
+          </label>
+          {custom && (
+            <div className="flex items-center justify-end gap-1">
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIZE}
+                value={display.size.width}
+                onChange={(e) => setSize("width", (e.target as HTMLInputElement).valueAsNumber)}
+                className="h-6 w-16 rounded border bg-background px-1"
+                aria-label="Canvas width in pixels"
+              />
+              <span className="text-muted-foreground">×</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIZE}
+                value={display.size.height}
+                onChange={(e) => setSize("height", (e.target as HTMLInputElement).valueAsNumber)}
+                className="h-6 w-16 rounded border bg-background px-1"
+                aria-label="Canvas height in pixels"
+              />
+              <span className="text-muted-foreground">px</span>
+            </div>
+          )}
+          <label className="flex items-center justify-between gap-2">
+            <span className={custom ? "text-muted-foreground" : ""}>Render scale</span>
+            <select
+              value={display.scale}
+              disabled={custom}
+              onChange={(e) => onChange({ ...display, scale: Number((e.target as HTMLSelectElement).value) })}
+              className={selectClass}
+            >
+              {RENDER_SCALES.map((scale) => (
+                <option key={scale} value={scale}>{scale}×</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className={custom ? "text-muted-foreground" : ""}>Device pixel ratio ({window.devicePixelRatio}×)</span>
+            <input
+              type="checkbox"
+              checked={display.devicePixelRatio}
+              disabled={custom}
+              onChange={(e) => onChange({ ...display, devicePixelRatio: (e.target as HTMLInputElement).checked })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { MODEL_FILE_TYPES, PRIMITIVES } from "@/lib/geometry"
+import type { GeometrySource, PrimitiveType } from "@/lib/runtime/protocol"
+
+interface GeometrySelectProps {
+  geometry: GeometrySource
+  onChange: (geometry: GeometrySource) => void
+  onImport: (file: File) => void
+  /** Set while the raw WebGL template is loaded, which always draws a full-screen quad. */
+  disabled?: boolean
+}
+
+// Select values: a primitive type, "model" (the imported one) or "import"
+export function GeometrySelect({ geometry, onChange, onImport, disabled }: GeometrySelectProps) {
+  const pickModel = () => {
+    const input = document.createElement("input")
+    input.type = "file"
+    input.accept = MODEL_FILE_TYPES
+    input.onchange = () => {
+      const file = input.files?.[0]
+      if (file) onImport(file)
+    }
+    input.click()
+  }
+
+  return (
+    <select
+      value={geometry.type}
+      onChange={(e) => {
+        const select = e.target as HTMLSelectElement
+        if (select.value === "import") {
+          // Keep showing the current geometry until a model has loaded
+          select.value = geometry.type
+          pickModel()
+        } else if (select.value !== "model") {
+          onChange({ type: select.value as PrimitiveType })
+        }
+      }}
+      disabled={disabled}
+      title={disabled ? "The raw WebGL template draws a full-screen quad; load the OGL template to pick geometry" : "Geometry the OGL template draws the shaders on"}
+      className="h-6 max-w-40 rounded border bg-background px-1 text-xs disabled:opacity-50"
+    >
+      {PRIMITIVES.map((primitive) => (
+        <option key={primitive.type} value={primitive.type}>{primitive.label}</option>
+      ))}
+      {geometry.type === "model" && <option value="model">{geometry.name}</option>}
+      <option value="import">Import model…</option>
+    </select>
+  )
+}
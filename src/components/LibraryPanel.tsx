@@ -0,0 +1,106 @@
+import { useState } from "preact/hooks"
+import { Copy, FilePlus, Image, Pencil, Search, Trash2 } from "lucide-react"
+import type { LibraryEntry } from "@/lib/library"
+
+interface LibraryPanelProps {
+  entries: LibraryEntry[]
+  /** Id of the project open in the editor. */
+  currentId: string | null
+  onOpen: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" })
+}
+
+export function LibraryPanel({ entries, currentId, onOpen, onCreate, onRename, onDuplicate, onDelete }: LibraryPanelProps) {
+  const [query, setQuery] = useState("")
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const iconButtonClass = "p-0.5 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+
+  const needle = query.trim().toLowerCase()
+  const visible = needle ? entries.filter((entry) => entry.name.toLowerCase().includes(needle)) : entries
+
+  const finishRename = (id: string, name: string) => {
+    setRenaming(null)
+    if (name.trim()) onRename(id, name.trim())
+  }
+
+  return (
+    <div className="w-60 flex flex-col border-r bg-card text-xs">
+      <div className="flex items-center justify-between p-2 border-b">
+        <h3 className="text-sm font-medium">Library</h3>
+        <button onClick={onCreate} title="New project" className={iconButtonClass}>
+          <FilePlus className="w-4 h-4" />
+        </button>
+      </div>
+      <label className="flex items-center gap-1 m-2 px-2 h-7 rounded border bg-background">
+        <Search className="w-3 h-3 text-muted-foreground" />
+        <input
+          value={query}
+          onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
+          placeholder="Search projects"
+          className="flex-1 min-w-0 bg-transparent outline-none"
+        />
+      </label>
+
+      <div className="flex-1 overflow-auto">
+        {visible.length === 0 && (
+          <div className="p-3 text-muted-foreground">{entries.length ? "No matching projects" : "Projects are saved here as you edit"}</div>
+        )}
+        {visible.map((entry) => (
+          <div
+            key={entry.id}
+            className={`group flex gap-2 px-2 py-1.5 cursor-pointer hover:bg-accent/50 ${entry.id === currentId ? "bg-accent" : ""}`}
+            onClick={() => entry.id !== currentId && onOpen(entry.id)}
+          >
+            {entry.thumbnail ? (
+              <img src={entry.thumbnail} alt="" className="w-16 h-9 shrink-0 rounded border object-cover bg-black" />
+            ) : (
+              <div className="w-16 h-9 shrink-0 rounded border bg-muted flex items-center justify-center">
+                <Image className="w-3 h-3 text-muted-foreground" />
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              {renaming === entry.id ? (
+                <input
+                  autoFocus
+                  defaultValue={entry.name}
+                  onClick={(e) => e.stopPropagation()}
+                  onBlur={(e) => finishRename(entry.id, (e.target as HTMLInputElement).value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename(entry.id, (e.target as HTMLInputElement).value)
+                    if (e.key === "Escape") setRenaming(null)
+                  }}
+                  className="w-full h-5 px-1 rounded border bg-background"
+                />
+              ) : (
+                <div className="truncate font-medium" title={entry.name}>{entry.name}</div>
+              )}
+              <div className="text-muted-foreground">{formatDate(entry.updatedAt)}</div>
+            </div>
+            <div className="hidden group-hover:flex items-start gap-0.5" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => setRenaming(entry.id)} title="Rename" className={iconButtonClass}>
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button onClick={() => onDuplicate(entry.id)} title="Duplicate" className={iconButtonClass}>
+                <Copy className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => confirm(`Delete "${entry.name}"? This can't be undone.`) && onDelete(entry.id)}
+                title="Delete"
+                className={iconButtonClass}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,66 @@
-import { useEffect, useRef, useState } from "preact/hooks"
-import { Editor } from "@monaco-editor/react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "preact/hooks"
+import { Editor, type Monaco } from "@monaco-editor/react"
+import type { editor } from "monaco-editor"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
-import { Play, Square, RefreshCw, Download, Upload, BookOpen } from "lucide-react"
+import { Play, Square, RefreshCw, RotateCcw, Download, Upload, BookOpen, Zap, Plus, Library, Link, FileCode, Braces, Camera, Video, Gauge, Maximize, ExternalLink } from "lucide-react"
 import { shaderExamples } from "@/shaders/examples"
-import { defaultFragmentShader, defaultJavaScript, defaultVertexShader } from "@/lib/examples"
+import { defaultFragmentShader, defaultJavaScript, defaultShadertoyShader, defaultVertexShader, sketchTemplates, type SketchTemplate } from "@/lib/examples"
+import { registerGLSLLanguage } from "@/lib/glsl/language"
+import { compileShaders, offsetDiagnostics, toMarkers, type ShaderDiagnostic } from "@/lib/glsl/diagnostics"
+import { SHADERTOY_HEADER, isShadertoyExport, parseShadertoyExport, wrapShadertoy } from "@/lib/glsl/shadertoy"
+import { setGLSLDocument } from "@/lib/glsl/documents"
+import { analyzeShaders, setAnalysisMarkers } from "@/lib/glsl/analysis"
+import type { ShaderInput } from "@/lib/glsl/checker"
+import { ProblemsPanel } from "@/components/ProblemsPanel"
+import { ConsolePanel } from "@/components/ConsolePanel"
+import { UniformPanel } from "@/components/UniformPanel"
+import { ChannelBar } from "@/components/ChannelBar"
+import { AssetPanel } from "@/components/AssetPanel"
+import { GeometrySelect } from "@/components/GeometrySelect"
+import { LibraryPanel } from "@/components/LibraryPanel"
+import { CodeExportDialog } from "@/components/CodeExportDialog"
+import { CaptureDialog } from "@/components/CaptureDialog"
+import { RecordDialog } from "@/components/RecordDialog"
+import { TransportBar } from "@/components/TransportBar"
+import { PerformanceHud } from "@/components/PerformanceHud"
+import { DisplayMenu } from "@/components/DisplayMenu"
+import { createPreviewRuntime, type PreviewRuntime } from "@/lib/runtime/host"
+import { standaloneDocument } from "@/lib/runtime/standalone"
+import { loadOGLSources, usesOGL } from "@/lib/runtime/ogl"
+import { CONSOLE_LIMIT, consoleEntryFromMessage, createConsoleEntry, type ConsoleEntry, type ShaderTab } from "@/lib/runtime/console"
+import type { Asset, BufferId, CaptureOptions, ChannelInput, FrameMessage, FrameStats, GeometrySource, ModuleSources, ShaderSources, Sketch, TransportState, UniformValues } from "@/lib/runtime/protocol"
+import { parseSamplers, parseUniforms, resolveUniformValues } from "@/lib/glsl/uniforms"
+import { appendAssets, assetFromFile, cubemapFromFiles, streamWebcam, webcamAsset } from "@/lib/assets"
+import { DEFAULT_GEOMETRY, loadModel } from "@/lib/geometry"
+import { createProject, projectStateOf, readProject, ProjectError, type FragmentMode, type Project, type ProjectState } from "@/lib/project"
+import { LINK_MAX_LENGTH, LINK_WARNING_LENGTH, createPermalink, hasPermalink, readPermalink } from "@/lib/permalink"
+import { DEFAULT_DISPLAY, frameDisplay, previewBoxStyle, type PreviewDisplay } from "@/lib/display"
+import { RECORDING_EXTENSIONS, recordSketch, type RecordingSettings } from "@/lib/recording/recorder"
+import {
+  createEntry,
+  deleteEntry,
+  duplicateEntry,
+  lastProjectId,
+  listEntries,
+  loadProject,
+  rememberLastProject,
+  renameEntry,
+  saveProject,
+  type LibraryEntry,
+} from "@/lib/library"
+import {
+  BUFFER_IDS,
+  PASS_VERTEX_SHADER,
+  bufferTab,
+  createBufferPass,
+  emptyChannels,
+  nextBufferId,
+  withoutAsset,
+  withoutBuffer,
+  type BufferPass,
+  type BufferTab,
+} from "@/lib/passes"
 
 interface OGLEditorProps {
   initialVertexShader?: string
@@ -12,7 +68,70 @@ interface OGLEditorProps {
   initialJavaScript?: string
 }
 
+type EditorTab = "vertex" | "fragment" | BufferTab | "javascript"
 
+// Model paths let markers and cursor jumps find a tab's model even while
+// its editor is unmounted by the inactive tab.
+const modelPaths: Record<EditorTab, string> = {
+  vertex: "vertex.glsl",
+  fragment: "fragment.glsl",
+  bufferA: "buffer-a.glsl",
+  bufferB: "buffer-b.glsl",
+  bufferC: "buffer-c.glsl",
+  bufferD: "buffer-d.glsl",
+  javascript: "sketch.js",
+}
+
+// Shared by the vertex, fragment and buffer editors
+const glslEditorOptions: editor.IStandaloneEditorConstructionOptions = {
+  fontSize: 14,
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  automaticLayout: true,
+  tabSize: 2,
+  insertSpaces: true,
+  wordWrap: "on",
+  // IntelliSense enhancements
+  suggestOnTriggerCharacters: true,
+  quickSuggestions: {
+    other: true,
+    comments: false,
+    strings: false
+  },
+  parameterHints: {
+    enabled: true,
+    cycle: true
+  },
+  hover: {
+    enabled: true,
+    delay: 300
+  },
+  acceptSuggestionOnCommitCharacter: true,
+  acceptSuggestionOnEnter: "on",
+  snippetSuggestions: "top",
+  wordBasedSuggestions: "off",
+  // Enhanced editing features
+  bracketPairColorization: {
+    enabled: true
+  },
+  guides: {
+    bracketPairs: true,
+    indentation: true
+  },
+  matchBrackets: "always",
+  autoIndent: "full",
+  formatOnPaste: true,
+  formatOnType: true
+}
+
+// Delay between the last keystroke and recompiling the shaders
+const DIAGNOSTICS_DEBOUNCE_MS = 300
+
+// Delay between the last edit and saving the project to the library
+const AUTOSAVE_DELAY_MS = 1000
+
+const THUMBNAIL_WIDTH = 160
+const THUMBNAIL_HEIGHT = 90
 
 export function OGLEditor({ 
   initialVertexShader = defaultVertexShader,
@@ -25,256 +144,407 @@ export function OGLEditor({
   const [isRunning, setIsRunning] = useState(false)
   const [activeTab, setActiveTab] = useState("vertex")
   const [showExamples, setShowExamples] = useState(false)
+  const [liveReload, setLiveReload] = useState(true)
+  const [fragmentMode, setFragmentMode] = useState<FragmentMode>("glsl")
+  const [buffers, setBuffers] = useState<BufferPass[]>([])
+  const [imageChannels, setImageChannels] = useState<ChannelInput[]>(emptyChannels)
+  const [assets, setAssets] = useState<Asset[]>([])
+  const [sketchTemplate, setSketchTemplate] = useState<SketchTemplate>("ogl")
+  const [geometry, setGeometry] = useState<GeometrySource>(DEFAULT_GEOMETRY)
   
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const animationFrameRef = useRef<number>()
+  const previewRef = useRef<HTMLDivElement>(null)
+  const previewPaneRef = useRef<HTMLDivElement>(null)
+  // Where the frame lives: the pane's box, or the pop-out window's
+  const previewContainerRef = useRef<HTMLElement>()
+  const runtimeRef = useRef<PreviewRuntime>()
+  // Bumped by every run and stop, so a run still loading OGL can tell it was superseded
+  const runIdRef = useRef(0)
   const examplesRef = useRef<HTMLDivElement>(null)
+  const monacoRef = useRef<Monaco>()
+  const editorsRef = useRef<Partial<Record<EditorTab, editor.IStandaloneCodeEditor>>>({})
+  const pendingRevealRef = useRef<{ tab: EditorTab; line: number; column: number }>()
+
+  const [diagnostics, setDiagnostics] = useState<ShaderDiagnostic[]>([])
+  const [mountedEditors, setMountedEditors] = useState(0)
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([])
+  const [dockTab, setDockTab] = useState("console")
+  const [uniformEdits, setUniformEdits] = useState<UniformValues>({})
 
-  // Monaco Editor configuration for GLSL
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showCodeExport, setShowCodeExport] = useState(false)
+  const [showCapture, setShowCapture] = useState(false)
+  const [showRecord, setShowRecord] = useState(false)
+  const [transport, setTransport] = useState<TransportState>({ playing: true, speed: 1, loop: null })
+  const [showStats, setShowStats] = useState(false)
+  const [display, setDisplay] = useState<PreviewDisplay>(DEFAULT_DISPLAY)
+  const [popout, setPopout] = useState<Window | null>(null)
+  // The clock's time (every frame) and stats reports go straight to the
+  // components showing them instead of through the editor's state
+  const liveListenersRef = useRef(new Set<(message: FrameMessage) => void>())
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([])
+  const [libraryReady, setLibraryReady] = useState(false)
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null)
+  // Library entry being edited; null until the first save of a new project
+  const currentEntryRef = useRef<LibraryEntry | null>(null)
+  // Serialized state last written to the library, to skip saving unchanged projects
+  const savedStateRef = useRef<string | null>(null)
+  // Bumped when another project is opened, so an in-flight save can tell
+  const libraryGenerationRef = useRef(0)
+  const flushAutosaveRef = useRef<() => Promise<void>>()
+  const openPermalinkRef = useRef<() => Promise<void>>()
+
+  // The fragment source as compiled and run, which differs from the editor
+  // text in Shadertoy mode
+  const compiledFragment = useMemo(
+    () => fragmentMode === 'shadertoy' ? wrapShadertoy(fragmentShader) : { source: fragmentShader, lineOffset: 0 },
+    [fragmentShader, fragmentMode]
+  );
+  const compiledBuffers = useMemo(
+    () => buffers.map((buffer) => ({
+      ...buffer,
+      ...(fragmentMode === 'shadertoy' ? wrapShadertoy(buffer.source, 'buffer') : { source: buffer.source, lineOffset: 0 }),
+    })),
+    [buffers, fragmentMode]
+  );
+  const lineOffsetsRef = useRef<Partial<Record<ShaderTab, number>>>({});
+  lineOffsetsRef.current = Object.fromEntries([
+    ['fragment', compiledFragment.lineOffset],
+    ...compiledBuffers.map((buffer) => [bufferTab(buffer.id), buffer.lineOffset]),
+  ]);
+
+  // Everything the runtime needs to draw the passes
+  const shaderSources = useMemo<ShaderSources>(() => ({
+    vertex: vertexShader,
+    fragment: compiledFragment.source,
+    channels: imageChannels,
+    buffers: compiledBuffers.map(({ id, source, channels }) => ({ id, fragment: source, channels })),
+  }), [vertexShader, compiledFragment, imageChannels, compiledBuffers]);
+
+  const uniformDeclarations = useMemo(
+    () => parseUniforms(vertexShader, fragmentShader, buffers.map((buffer) => buffer.source)),
+    [vertexShader, fragmentShader, buffers]
+  );
+  const uniformValues = useMemo(
+    () => resolveUniformValues(uniformDeclarations, uniformEdits),
+    [uniformDeclarations, uniformEdits]
+  );
+  const samplers = useMemo(
+    () => parseSamplers([vertexShader, fragmentShader, ...buffers.map((buffer) => buffer.source)]),
+    [vertexShader, fragmentShader, buffers]
+  );
+  const webcam = assets.find((asset) => asset.kind === 'webcam');
+
+  // Compile every pass as you type and collect the driver's diagnostics.
+  // In live mode, shaders that compile are also swapped into the running
+  // sketch; broken ones are only reported, so the last good programs stay up.
   useEffect(() => {
-    import('monaco-editor').then((monaco) => {
-      // Register GLSL language
-      monaco.languages.register({ id: 'glsl' });
-      
-      // Define GLSL syntax highlighting
-      monaco.languages.setMonarchTokensProvider('glsl', {
-        tokenizer: {
-          root: [
-            [/\b(attribute|uniform|varying|precision|in|out|inout)\b/, 'keyword.declaration'],
-            [/\b(void|float|int|bool|vec2|vec3|vec4|mat2|mat3|mat4|sampler2D|samplerCube)\b/, 'keyword.type'],
-            [/\b(if|else|for|while|do|break|continue|return|discard)\b/, 'keyword.control'],
-            [/\b(gl_Position|gl_FragColor|gl_FragCoord|gl_PointSize)\b/, 'keyword.builtin'],
-            [/\b(sin|cos|tan|asin|acos|atan|pow|exp|log|exp2|log2|sqrt|inversesqrt|abs|sign|floor|ceil|fract|mod|min|max|clamp|mix|step|smoothstep|length|distance|dot|cross|normalize|reflect|refract)\b/, 'support.function'],
-            [/\/\*/, 'comment', '@comment'],
-            [/\/\/.*$/, 'comment'],
-            [/"[^"]*"/, 'string'],
-            [/\d*\.\d+([eE][\-+]?\d+)?[fFdD]?/, 'number.float'],
-            [/\d+[eE][\-+]?\d+[fFdD]?/, 'number.float'],
-            [/\d+[fFdD]/, 'number.float'],
-            [/\d+/, 'number'],
-            [/[;,.]/, 'delimiter'],
-            [/[{}()\[\]]/, '@brackets'],
-            [/[<>](?!@symbols)/, '@brackets'],
-            [/[+\-*\/&|^~<>!?:=]/, 'operator'],
-            [/@symbols/, 'operator'],
-            [/[a-zA-Z_]\w*/, 'identifier'],
-          ],
-          comment: [
-            [/[^\/*]+/, 'comment'],
-            [/\*\//, 'comment', '@pop'],
-            [/[\/*]/, 'comment']
-          ]
-        },
-        symbols: /[=><!~?:&|+\-*\/\^%]+/
-      });
-       
-      // Add hover information for GLSL
-      monaco.languages.registerHoverProvider('glsl', {
-        provideHover: (model, position) => {
-          const word = model.getWordAtPosition(position);
-          if (!word) return;
-          
-          const hoverInfo: { [key: string]: { value: string; isTrusted?: boolean } } = {
-            'gl_Position': {
-              value: '**gl_Position** (vec4)\n\nBuilt-in vertex shader output variable. Contains the transformed vertex position in clip coordinates.',
-              isTrusted: true
-            },
-            'gl_FragColor': {
-              value: '**gl_FragColor** (vec4)\n\nBuilt-in fragment shader output variable. Contains the final color of the fragment.',
-              isTrusted: true
-            },
-            'gl_FragCoord': {
-              value: '**gl_FragCoord** (vec4)\n\nBuilt-in fragment shader input variable. Contains the window-relative coordinates of the current fragment.',
-              isTrusted: true
-            },
-            'sin': {
-              value: '**sin**(x: float) -> float\n\nReturns the sine of x in radians.\n\n```glsl\nfloat result = sin(3.14159 / 2.0); // returns 1.0\n```',
-              isTrusted: true
-            },
-            'cos': {
-              value: '**cos**(x: float) -> float\n\nReturns the cosine of x in radians.\n\n```glsl\nfloat result = cos(0.0); // returns 1.0\n```',
-              isTrusted: true
-            },
-            'normalize': {
-              value: '**normalize**(v: vec) -> vec\n\nReturns a vector with the same direction as v but with length 1.0.\n\n```glsl\nvec3 normal = normalize(vec3(1.0, 2.0, 3.0));\n```',
-              isTrusted: true
-            },
-            'mix': {
-              value: '**mix**(x: T, y: T, a: float) -> T\n\nLinear interpolation: x * (1 - a) + y * a\n\n```glsl\nvec3 color = mix(red, blue, 0.5); // 50% red, 50% blue\n```',
-              isTrusted: true
-            }
-          };
-          
-          const info = hoverInfo[word.word];
-          if (info) {
-            return {
-              range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
-              contents: [{ value: info.value, isTrusted: info.isTrusted }]
-            };
-          }
-        }
-      });
-      
-      // Add signature help for GLSL functions
-      monaco.languages.registerSignatureHelpProvider('glsl', {
-        signatureHelpTriggerCharacters: ['(', ','],
-        provideSignatureHelp: (model, position) => {
-          const line = model.getLineContent(position.lineNumber);
-          const beforeCursor = line.substring(0, position.column - 1);
-          
-          // Simple function detection
-          const functionMatch = beforeCursor.match(/(\w+)\s*\(\s*([^)]*)?$/);
-          if (functionMatch) {
-            const functionName = functionMatch[1];
-            
-            const signatures: { [key: string]: any } = {
-              'mix': {
-                label: 'mix(x: T, y: T, a: float) -> T',
-                documentation: 'Linear interpolation between x and y based on a',
-                parameters: [
-                  { label: 'x', documentation: 'First value' },
-                  { label: 'y', documentation: 'Second value' },
-                  { label: 'a', documentation: 'Interpolation factor (0.0 to 1.0)' }
-                ]
-              },
-              'smoothstep': {
-                label: 'smoothstep(edge0: float, edge1: float, x: float) -> float',
-                documentation: 'Smooth Hermite interpolation',
-                parameters: [
-                  { label: 'edge0', documentation: 'Lower edge' },
-                  { label: 'edge1', documentation: 'Upper edge' },
-                  { label: 'x', documentation: 'Value to interpolate' }
-                ]
-              },
-              'vec3': {
-                label: 'vec3(x: float, y: float, z: float) -> vec3',
-                documentation: 'Create a 3-component vector',
-                parameters: [
-                  { label: 'x', documentation: 'X component' },
-                  { label: 'y', documentation: 'Y component' },
-                  { label: 'z', documentation: 'Z component' }
-                ]
-              },
-              'vec4': {
-                label: 'vec4(x: float, y: float, z: float, w: float) -> vec4',
-                documentation: 'Create a 4-component vector',
-                parameters: [
-                  { label: 'x', documentation: 'X component' },
-                  { label: 'y', documentation: 'Y component' },
-                  { label: 'z', documentation: 'Z component' },
-                  { label: 'w', documentation: 'W component' }
-                ]
-              }
-            };
-            
-            const sig = signatures[functionName];
-            if (sig) {
-              return {
-                value: {
-                  signatures: [sig],
-                  activeSignature: 0,
-                  activeParameter: 0
-                },
-                dispose: () => {}
-              };
-            }
-          }
-        }
-      });
-      
-      // Add basic GLSL validation
-      monaco.languages.registerCodeActionProvider('glsl', {
-        provideCodeActions: (model, _range, context) => {
-          const actions: any[] = [];
-          
-          // Add quick fixes for common GLSL issues
-          context.markers.forEach(marker => {
-            if (marker.message.includes('undefined')) {
-              actions.push({
-                title: 'Add variable declaration',
-                kind: 'quickfix',
-                edit: {
-                  edits: [{
-                    resource: model.uri,
-                    edit: {
-                      range: new monaco.Range(marker.startLineNumber, 1, marker.startLineNumber, 1),
-                      text: 'float variable_name;\n'
-                    }
-                  }]
-                }
-              });
-            }
-          });
-          
-          return {
-            actions,
-            dispose: () => {}
-          };
-        }
+    const timeout = setTimeout(() => {
+      const result = compileShaders(vertexShader, compiledFragment.source);
+      // Buffers are drawn with the runtime's quad shader; only their fragment stage is the user's
+      const bufferResults = compiledBuffers.map((buffer) =>
+        offsetDiagnostics(compileShaders(PASS_VERTEX_SHADER, buffer.source) ?? [], 'fragment', buffer.lineOffset)
+          .filter((d) => d.stage === 'fragment')
+          .map((d) => ({ ...d, buffer: buffer.id }))
+      );
+      const allDiagnostics = [
+        ...offsetDiagnostics(result ?? [], 'fragment', compiledFragment.lineOffset),
+        ...bufferResults.flat(),
+      ];
+      setDiagnostics(allDiagnostics);
+
+      const compiled = !allDiagnostics.some((d) => d.severity === 'error');
+      if (liveReload && compiled) {
+        runtimeRef.current?.updateShaders(shaderSources);
+      }
+    }, DIAGNOSTICS_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [shaderSources, liveReload]);
+
+  // Completions need each model's stage, and what Shadertoy mode declares above the code;
+  // navigation needs which models are linked together
+  const bufferIds = buffers.map((buffer) => buffer.id).join();
+  useEffect(() => {
+    const prelude = fragmentMode === 'shadertoy' ? SHADERTOY_HEADER : '';
+    setGLSLDocument(modelPaths.vertex, { stage: 'vertex', prelude: '', program: 'image' });
+    setGLSLDocument(modelPaths.fragment, { stage: 'fragment', prelude, program: 'image' });
+    BUFFER_IDS.forEach((id) =>
+      setGLSLDocument(modelPaths[bufferTab(id)], { stage: 'fragment', prelude, program: bufferIds.split(',').includes(id) ? bufferTab(id) : null })
+    );
+  }, [fragmentMode, bufferIds]);
+
+  // Every shader tab has its model from the start, not only once its
+  // editor first mounts, so cross-tab navigation and rename see all the
+  // shaders. Edits made to an unmounted tab's model (a rename from
+  // another tab) go back into the sketch.
+  const syncedModelsRef = useRef(new WeakSet<editor.ITextModel>());
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+
+    const shaders: [EditorTab, string, (source: string) => void][] = [
+      ['vertex', vertexShader, setVertexShader],
+      ['fragment', fragmentShader, setFragmentShader],
+      ...buffers.map((buffer): [EditorTab, string, (source: string) => void] => [
+        bufferTab(buffer.id),
+        buffer.source,
+        (source) => updateBuffer(buffer.id, { source }),
+      ]),
+    ];
+    for (const [tab, source, setSource] of shaders) {
+      const uri = monaco.Uri.parse(modelPaths[tab]);
+      const model = monaco.editor.getModel(uri) ?? monaco.editor.createModel(source, 'glsl', uri);
+      // A mounted editor has already been given the new text; this catches up the rest
+      if (model.getValue() !== source) model.setValue(source);
+      if (!syncedModelsRef.current.has(model)) {
+        syncedModelsRef.current.add(model);
+        model.onDidChangeContent(() => setSource(model.getValue()));
+      }
+    }
+  }, [vertexShader, fragmentShader, buffers, mountedEditors]);
+
+  // Push diagnostics into the shader models as markers
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+
+    const setMarkers = (tab: EditorTab, tabDiagnostics: ShaderDiagnostic[]) => {
+      const model = monaco.editor.getModel(monaco.Uri.parse(modelPaths[tab]));
+      if (!model) return;
+      monaco.editor.setModelMarkers(model, 'glsl-compiler', toMarkers(monaco, model, tabDiagnostics));
+    };
+
+    setMarkers('vertex', diagnostics.filter((d) => !d.buffer && d.stage === 'vertex'));
+    setMarkers('fragment', diagnostics.filter((d) => !d.buffer && d.stage === 'fragment'));
+    // Removed buffers keep their models; this clears their markers
+    BUFFER_IDS.forEach((id) => setMarkers(bufferTab(id), diagnostics.filter((d) => d.buffer === id)));
+  }, [diagnostics, mountedEditors]);
+
+  // Type-check every shader tab in the analysis worker; its findings show
+  // as warnings next to the driver's, with quick fixes
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+
+    const prelude = fragmentMode === 'shadertoy' ? SHADERTOY_HEADER : '';
+    const shaders: [EditorTab, ShaderInput][] = [
+      ['vertex', { source: vertexShader, stage: 'vertex', prelude: '' }],
+      ['fragment', { source: fragmentShader, stage: 'fragment', prelude, vertexSource: vertexShader }],
+      ...buffers.map((buffer): [EditorTab, ShaderInput] => [
+        bufferTab(buffer.id),
+        { source: buffer.source, stage: 'fragment', prelude, vertexSource: PASS_VERTEX_SHADER },
+      ]),
+    ];
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const results = await analyzeShaders(shaders.map(([, shader]) => shader));
+      if (!results || cancelled) return;
+      const modelOf = (tab: EditorTab) => monaco.editor.getModel(monaco.Uri.parse(modelPaths[tab]));
+      shaders.forEach(([tab, shader], index) => {
+        const model = modelOf(tab);
+        // A model edited since is checked again by the next run
+        if (model && model.getValue() === shader.source) setAnalysisMarkers(monaco, model, results[index]);
       });
-      
-      // Add hover information for GLSL
-      monaco.languages.registerHoverProvider('glsl', {
-        provideHover: (model, position) => {
-          const word = model.getWordAtPosition(position);
-          if (!word) return;
-          
-          const hoverInfo: { [key: string]: { value: string; isTrusted?: boolean } } = {
-            'gl_Position': {
-              value: '**gl_Position** (vec4)\n\nBuilt-in vertex shader output variable. Contains the transformed vertex position in clip coordinates.',
-              isTrusted: true
-            },
-            'gl_FragColor': {
-              value: '**gl_FragColor** (vec4)\n\nBuilt-in fragment shader output variable. Contains the final color of the fragment.',
-              isTrusted: true
-            },
-            'gl_FragCoord': {
-              value: '**gl_FragCoord** (vec4)\n\nBuilt-in fragment shader input variable. Contains the window-relative coordinates of the current fragment.',
-              isTrusted: true
-            },
-            'sin': {
-              value: '**sin**(x: float) -> float\n\nReturns the sine of x in radians.\n\n```glsl\nfloat result = sin(3.14159 / 2.0); // returns 1.0\n```',
-              isTrusted: true
-            },
-            'cos': {
-              value: '**cos**(x: float) -> float\n\nReturns the cosine of x in radians.\n\n```glsl\nfloat result = cos(0.0); // returns 1.0\n```',
-              isTrusted: true
-            },
-            'normalize': {
-              value: '**normalize**(v: vec) -> vec\n\nReturns a vector with the same direction as v but with length 1.0.\n\n```glsl\nvec3 normal = normalize(vec3(1.0, 2.0, 3.0));\n```',
-              isTrusted: true
-            },
-            'mix': {
-              value: '**mix**(x: T, y: T, a: float) -> T\n\nLinear interpolation: x * (1 - a) + y * a\n\n```glsl\nvec3 color = mix(red, blue, 0.5); // 50% red, 50% blue\n```',
-              isTrusted: true
-            }
-          };
-          
-          const info = hoverInfo[word.word];
-          if (info) {
-            return {
-              range: new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn),
-              contents: [{ value: info.value, isTrusted: info.isTrusted }]
-            };
-          }
-        }
+      BUFFER_IDS.filter((id) => !buffers.some((buffer) => buffer.id === id)).forEach((id) => {
+        const model = modelOf(bufferTab(id));
+        if (model) setAnalysisMarkers(monaco, model, []);
       });
-    });
-  }, []);
+    }, DIAGNOSTICS_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [vertexShader, fragmentShader, buffers, fragmentMode, mountedEditors]);
 
-  // Cleanup effect
+  // Feed panel values into the running sketch
   useEffect(() => {
+    runtimeRef.current?.setUniforms(uniformValues);
+  }, [uniformValues]);
+
+  useEffect(() => {
+    runtimeRef.current?.setAssets(assets);
+  }, [assets]);
+
+  useEffect(() => {
+    runtimeRef.current?.setGeometry(geometry);
+  }, [geometry]);
+
+  useEffect(() => {
+    runtimeRef.current?.setTransport(transport);
+  }, [transport]);
+
+  useEffect(() => {
+    runtimeRef.current?.setStatsEnabled(showStats);
+  }, [showStats]);
+
+  useEffect(() => {
+    runtimeRef.current?.setDisplay(frameDisplay(display));
+  }, [display]);
+
+  const subscribeLive = (listener: (message: FrameMessage) => void) => {
+    liveListenersRef.current.add(listener);
     return () => {
-      // Cleanup when component unmounts
-      if (typeof window !== 'undefined' && (window as any).cleanupShader) {
-        try {
-          (window as any).cleanupShader();
-        } catch (e) {
-          console.warn('Error during component unmount cleanup:', e);
-        }
+      liveListenersRef.current.delete(listener);
+    };
+  };
+
+  const subscribeClock = useCallback(
+    (listener: (time: number, frame: number) => void) =>
+      subscribeLive((message) => {
+        if (message.type === 'time') listener(message.time, message.frame);
+      }),
+    []
+  );
+
+  const subscribeStats = useCallback(
+    (listener: (stats: FrameStats) => void) =>
+      subscribeLive((message) => {
+        if (message.type === 'stats') listener(message.stats);
+      }),
+    []
+  );
+
+  // Stepping pauses first, in the same batch of messages, so no step is lost to playback
+  const stepFrames = (frames: number) => {
+    const paused = { ...transport, playing: false };
+    setTransport(paused);
+    runtimeRef.current?.setTransport(paused);
+    runtimeRef.current?.step(frames);
+  };
+
+  // The frame's sandbox has no camera access, so webcam frames are captured
+  // here and streamed in while the sketch runs
+  useEffect(() => {
+    if (!isRunning || !webcam) return;
+    return streamWebcam(
+      webcam.settings.flipY,
+      (frame) => runtimeRef.current ? runtimeRef.current.sendAssetFrame(webcam.id, frame) : frame.close(),
+      (error) => logWarning(`Webcam unavailable: ${error.message}`)
+    );
+  }, [isRunning, webcam?.id, webcam?.settings.flipY]);
+
+  const applyReveal = (target: editor.IStandaloneCodeEditor, line: number, column: number) => {
+    target.revealLineInCenter(line);
+    target.setPosition({ lineNumber: line, column });
+    target.focus();
+  };
+
+  const handleEditorMount = (tab: EditorTab) => (mounted: editor.IStandaloneCodeEditor, monaco: Monaco) => {
+    monacoRef.current = monaco;
+    editorsRef.current[tab] = mounted;
+    setMountedEditors((count) => count + 1);
+
+    const pending = pendingRevealRef.current;
+    if (pending && pending.tab === tab) {
+      pendingRevealRef.current = undefined;
+      applyReveal(mounted, pending.line, pending.column);
+    }
+  };
+
+  // Jump to a line in one of the code tabs, switching tabs if needed
+  const revealLine = (tab: EditorTab, line: number, column = 1) => {
+    const target = editorsRef.current[tab];
+    if (tab === activeTab && target && target.getModel()) {
+      applyReveal(target, line, column);
+      return;
+    }
+    pendingRevealRef.current = { tab, line, column };
+    setActiveTab(tab);
+  };
+
+  // Definitions and references in another shader tab open that tab. The
+  // opener is registered once, so it calls the latest revealLine.
+  const revealLineRef = useRef(revealLine);
+  revealLineRef.current = revealLine;
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!monaco) return;
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        const tab = (Object.keys(modelPaths) as EditorTab[]).find((key) => monaco.Uri.parse(modelPaths[key]).toString() === resource.toString());
+        if (!tab) return false;
+        const position =
+          selectionOrPosition && 'startLineNumber' in selectionOrPosition
+            ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+            : selectionOrPosition ?? { lineNumber: 1, column: 1 };
+        revealLineRef.current(tab, position.lineNumber, position.column);
+        return true;
+      },
+    });
+    return () => opener.dispose();
+  }, [mountedEditors]);
+
+  // Preview runtime: sketches run in a sandboxed iframe inside the preview
+  // pane, or inside the pop-out window while one is open
+  useEffect(() => {
+    const container = popout ? popout.document.getElementById('preview') : previewRef.current;
+    if (!container) return;
+
+    const runtime = createPreviewRuntime(container, (message) => {
+      if (message.type === 'time' || message.type === 'stats') {
+        liveListenersRef.current.forEach((listener) => listener(message));
+        return;
       }
+      const entry = consoleEntryFromMessage(message, lineOffsetsRef.current);
+      if (entry) {
+        setConsoleEntries((entries) => [...entries, entry].slice(-CONSOLE_LIMIT));
+      }
+    });
+    runtime.setDisplay(frameDisplay(display));
+    runtime.setTransport(transport);
+    runtime.setStatsEnabled(showStats);
+    runtimeRef.current = runtime;
+    previewContainerRef.current = container;
+    // Moving the preview starts the running sketch afresh in its new place
+    if (isRunning) runShader();
+
+    return () => {
+      runtime.dispose();
+      runtimeRef.current = undefined;
+      previewContainerRef.current = undefined;
     };
-  }, []);
+  }, [popout]);
+
+  useEffect(() => {
+    const box = popout?.document.getElementById('preview');
+    if (!box) return;
+    box.style.cssText = '';
+    Object.assign(box.style, previewBoxStyle(display));
+  }, [popout, display]);
+
+  // Closing the editor (or bringing the preview back) closes the pop-out
+  useEffect(() => () => popout?.close(), [popout]);
+
+  // A bare window holding only the preview, letterboxed like the pane
+  const openPopout = () => {
+    if (popout) {
+      popout.focus();
+      return;
+    }
+    const popup = window.open('', 'ogl-editor-preview', 'popup,width=960,height=600');
+    if (!popup) {
+      logWarning('The browser blocked the preview window; allow pop-ups for this page to open it.');
+      setDockTab('console');
+      return;
+    }
+    popup.document.title = 'Preview';
+    popup.document.body.replaceChildren();
+    popup.document.body.style.cssText =
+      'margin: 0; height: 100vh; overflow: hidden; background: #000; position: relative; display: flex; align-items: center; justify-content: center; container-type: size;';
+    const box = popup.document.createElement('div');
+    box.id = 'preview';
+    popup.document.body.appendChild(box);
+    // Fires when the window closes or reloads; either way the preview comes back
+    popup.addEventListener('pagehide', () => setPopout(null));
+    setPopout(popup);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+      return;
+    }
+    previewPaneRef.current?.requestFullscreen().catch((error: Error) => logWarning(`Could not go fullscreen: ${error.message}`));
+  };
 
   // Click outside to close examples dropdown
   useEffect(() => {
@@ -292,131 +562,424 @@ export function OGLEditor({
     }
   }, [showExamples]);
 
-  const runShader = () => {
-    if (!canvasRef.current) return;
-    
-    // First stop any existing shader
-    if (isRunning) {
-      stopShader();
-    }
-    
+  const runShader = async () => {
+    if (!runtimeRef.current) return;
+    const runId = ++runIdRef.current;
+
+    // Starting tears down any previous frame, so this also restarts a running sketch
     setIsRunning(true);
-    
+    setConsoleEntries([]);
+
+    let sketch: Sketch;
     try {
-      // Remove any existing shader script first
-      const existingScript = document.getElementById('shader-script');
-      if (existingScript && existingScript.parentNode) {
-        try {
-          existingScript.parentNode.removeChild(existingScript);
-        } catch (e) {
-          console.warn('Could not remove existing script:', e);
-        }
-      }
-      
-      // Clear any existing WebGL context
-      const canvas = canvasRef.current;
-      const gl = canvas.getContext('webgl') as WebGLRenderingContext || 
-                canvas.getContext('experimental-webgl') as WebGLRenderingContext;
-      if (gl) {
-        gl.clearColor(0, 0, 0, 1);
-        gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
-      }
-      
-      // Create a new script element and execute the JavaScript code
-      const script = document.createElement('script');
-      script.type = 'text/javascript';
-      script.id = 'shader-script';
-      
-      // Inject shaders into the JavaScript code
-      const escapedVertexShader = vertexShader
-        .replace(/\\/g, '\\\\')
-        .replace(/`/g, '\\`')
-        .replace(/\$/g, '\\$');
-        
-      const escapedFragmentShader = fragmentShader
-        .replace(/\\/g, '\\\\')
-        .replace(/`/g, '\\`')
-        .replace(/\$/g, '\\$');
-      
-      const codeWithShaders = jsCode
-        .replace(/\$\{vertexShader\}/g, escapedVertexShader)
-        .replace(/\$\{fragmentShader\}/g, escapedFragmentShader);
-      
-      script.textContent = codeWithShaders;
-      document.head.appendChild(script);
-      
+      sketch = await createSketch();
     } catch (error) {
-      console.error('Error running shader:', error);
+      setConsoleEntries([createConsoleEntry('error', (error as Error).message)]);
       setIsRunning(false);
+      return;
     }
+    if (runId !== runIdRef.current) return;
+
+    runtimeRef.current?.start(sketch);
   };
 
-  const stopShader = () => {
-    setIsRunning(false);
-    
-    // Call cleanup function if it exists
-    if (typeof window !== 'undefined' && (window as any).cleanupShader) {
+  // The sketch as the preview runs it, with OGL's sources when the code uses it
+  const createSketch = async (): Promise<Sketch> => {
+    let ogl: ModuleSources | undefined;
+    if (usesOGL(jsCode)) {
       try {
-        (window as any).cleanupShader();
-      } catch (e) {
-        console.warn('Error during shader cleanup:', e);
+        ogl = await loadOGLSources();
+      } catch (error) {
+        throw new Error(`Could not load OGL: ${(error as Error).message}`);
       }
     }
-    
-    // Cancel any animation frames
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = undefined;
-    }
-    
-    // Remove shader script
-    const existingScript = document.getElementById('shader-script');
-    if (existingScript && existingScript.parentNode) {
+    return { code: jsCode, shaders: shaderSources, uniforms: uniformValues, assets, geometry, ogl };
+  };
+
+  const logWarning = (text: string) => {
+    setConsoleEntries((entries) => [...entries, createConsoleEntry('warn', text)].slice(-CONSOLE_LIMIT));
+  };
+
+  // Loads can finish together (a multi-file drop), so each appends to the assets as they are by then
+  const addAssets = async (files: File[]) => {
+    let added: Asset[] = [];
+    for (const file of files) {
       try {
-        existingScript.parentNode.removeChild(existingScript);
-      } catch (e) {
-        console.warn('Could not remove shader script:', e);
+        added = [...added, await assetFromFile(file, added)];
+      } catch (error) {
+        logWarning((error as Error).message);
       }
     }
-    
-    // Clear canvas
-    if (canvasRef.current) {
-      try {
-        const gl = canvasRef.current.getContext('webgl') as WebGLRenderingContext ||
-                  canvasRef.current.getContext('experimental-webgl') as WebGLRenderingContext;
-        if (gl) {
-          gl.clearColor(0, 0, 0, 1);
-          gl.clear(gl.COLOR_BUFFER_BIT);
-        }
-      } catch (e) {
-        console.warn('Could not clear WebGL context:', e);
-      }
+    setAssets((current) => appendAssets(current, added));
+  };
+
+  const addCubemap = async (files: File[]) => {
+    try {
+      const cubemap = await cubemapFromFiles(files, []);
+      setAssets((current) => appendAssets(current, [cubemap]));
+    } catch (error) {
+      logWarning((error as Error).message);
     }
   };
 
+  const importModel = async (file: File) => {
+    try {
+      setGeometry(await loadModel(file));
+    } catch (error) {
+      logWarning(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const updateAsset = (id: string, changes: Partial<Asset>) => {
+    setAssets((current) => current.map((asset) => (asset.id === id ? { ...asset, ...changes } : asset)));
+  };
+
+  const removeAsset = (id: string) => {
+    setAssets((current) => current.filter((asset) => asset.id !== id));
+    setImageChannels((current) => withoutAsset(current, id));
+    setBuffers((current) => current.map((buffer) => ({ ...buffer, channels: withoutAsset(buffer.channels, id) })));
+  };
+
+  const addBuffer = () => {
+    const id = nextBufferId(buffers);
+    if (!id) return;
+    setBuffers([...buffers, createBufferPass(id, fragmentMode === 'shadertoy')]);
+    setActiveTab(bufferTab(id));
+  };
+
+  const removeBuffer = (id: BufferId) => {
+    setBuffers(buffers
+      .filter((buffer) => buffer.id !== id)
+      .map((buffer) => ({ ...buffer, channels: withoutBuffer(buffer.channels, id) })));
+    setImageChannels(withoutBuffer(imageChannels, id));
+    setActiveTab('fragment');
+  };
+
+  const updateBuffer = (id: BufferId, changes: Partial<BufferPass>) => {
+    setBuffers((current) => current.map((buffer) => (buffer.id === id ? { ...buffer, ...changes } : buffer)));
+  };
+
+  const setChannel = (channels: ChannelInput[], index: number, channel: ChannelInput) =>
+    channels.map((current, i) => (i === index ? channel : current));
+
+  // Single-pass content replaces any buffers along with the shaders
+  const clearPasses = () => {
+    setBuffers([]);
+    setImageChannels(emptyChannels());
+  };
+
+  const stopShader = () => {
+    runIdRef.current++;
+    setIsRunning(false);
+    runtimeRef.current?.stop();
+  };
+
   const resetCode = () => {
     setVertexShader(defaultVertexShader);
     setFragmentShader(defaultFragmentShader);
     setJsCode(defaultJavaScript);
+    setSketchTemplate('ogl');
+    setFragmentMode('glsl');
+    clearPasses();
+    setAssets([]);
+    setGeometry(DEFAULT_GEOMETRY);
+    setUniformEdits({});
   };
 
-  const exportCode = () => {
-    const exportData = {
-      vertexShader,
-      fragmentShader,
-      jsCode,
-      timestamp: new Date().toISOString()
+  // Replaces the JavaScript tab with the chosen template
+  const loadTemplate = (template: SketchTemplate) => {
+    setSketchTemplate(template);
+    setJsCode(sketchTemplates[template].code);
+  };
+
+  const projectState = (): ProjectState => ({
+    shaders: { vertex: vertexShader, fragment: fragmentShader, fragmentMode, imageChannels, buffers },
+    script: { template: sketchTemplate, code: jsCode },
+    uniforms: uniformEdits,
+    assets,
+    geometry,
+    settings: { liveReload },
+  });
+
+  const applyProject = (project: Project) => {
+    setVertexShader(project.shaders.vertex);
+    setFragmentShader(project.shaders.fragment);
+    setFragmentMode(project.shaders.fragmentMode);
+    setImageChannels(project.shaders.imageChannels);
+    setBuffers(project.shaders.buffers);
+    setSketchTemplate(project.script.template);
+    setJsCode(project.script.code);
+    setUniformEdits(project.uniforms);
+    setAssets(project.assets);
+    setGeometry(project.geometry);
+    setLiveReload(project.settings.liveReload);
+    setActiveTab('fragment');
+  };
+
+  // Problems reading a project go to the console, where they stay readable
+  const reportProjectError = (action: string, error: unknown) => {
+    const message = error instanceof SyntaxError
+      ? `The file is not valid JSON: ${error.message}`
+      : (error as Error).message;
+    setConsoleEntries([
+      createConsoleEntry('error', `${action}: ${message}`),
+      ...(error instanceof ProjectError ? error.issues.map((issue) => createConsoleEntry('error', issue)) : []),
+    ]);
+    setDockTab('console');
+  };
+
+  const setCurrentEntry = (entry: LibraryEntry | null) => {
+    currentEntryRef.current = entry;
+    setCurrentProjectId(entry?.id ?? null);
+    if (entry) rememberLastProject(entry.id);
+  };
+
+  const saveToLibrary = async (state: ProjectState, serialized: string) => {
+    const generation = libraryGenerationRef.current;
+    const thumbnail = await runtimeRef.current?.captureThumbnail(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    if (generation !== libraryGenerationRef.current) return;
+
+    // Read after the capture, so a rename made meanwhile is kept
+    const current = currentEntryRef.current ?? createEntry('Untitled');
+    const entry = { ...current, updatedAt: new Date().toISOString(), thumbnail: thumbnail ?? current.thumbnail };
+    try {
+      await saveProject(entry, createProject(state));
+    } catch (error) {
+      logWarning(`Could not save the project: ${(error as Error).message}`);
+      return;
+    }
+    if (generation !== libraryGenerationRef.current) return;
+
+    savedStateRef.current = serialized;
+    setCurrentEntry(entry);
+    setLibraryEntries((entries) => [entry, ...entries.filter((other) => other.id !== entry.id)]);
+  };
+
+  // Saves pending edits right away instead of waiting for the autosave delay
+  const flushAutosave = async () => {
+    if (!libraryReady) return;
+    const state = projectState();
+    const serialized = JSON.stringify(state);
+    if (serialized !== savedStateRef.current) await saveToLibrary(state, serialized);
+  };
+  flushAutosaveRef.current = flushAutosave;
+
+  // Opens the project shared in the URL hash as a new library entry
+  const openPermalink = async () => {
+    try {
+      applyProject(await readPermalink(location.hash));
+      startLibraryProject('Shared sketch');
+      setConsoleEntries([createConsoleEntry('log', 'Opened the shared sketch')]);
+    } catch (error) {
+      reportProjectError('Could not open the shared link', error);
+    }
+    // Reloading the page shouldn't import it again
+    history.replaceState(null, '', location.pathname + location.search);
+  };
+  openPermalinkRef.current = openPermalink;
+
+  // Open a shared link, or reopen the last project, on load
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const shared = hasPermalink(location.hash);
+      if (shared) await openPermalink();
+      try {
+        const entries = await listEntries();
+        const last = entries.find((entry) => entry.id === lastProjectId());
+        if (!shared && last && !cancelled) {
+          const project = await loadProject(last.id);
+          if (cancelled) return;
+          applyProject(project);
+          setCurrentEntry(last);
+          savedStateRef.current = JSON.stringify(projectStateOf(project));
+        }
+        if (!cancelled) setLibraryEntries(entries);
+      } catch (error) {
+        logWarning(`Could not open the project library: ${(error as Error).message}`);
+      } finally {
+        if (!cancelled) setLibraryReady(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
     };
-    
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  }, []);
+
+  useEffect(() => {
+    if (!libraryReady) return;
+    const state = projectState();
+    const serialized = JSON.stringify(state);
+    if (serialized === savedStateRef.current) return;
+
+    const timeout = setTimeout(() => saveToLibrary(state, serialized), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [libraryReady, vertexShader, fragmentShader, fragmentMode, imageChannels, buffers, sketchTemplate, jsCode, uniformEdits, assets, geometry, liveReload]);
+
+  // Links pasted into this tab only change the hash
+  useEffect(() => {
+    const handleHashChange = async () => {
+      if (!hasPermalink(location.hash)) return;
+      await flushAutosaveRef.current?.();
+      openPermalinkRef.current?.();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Leaving or hiding the page saves edits still waiting for the autosave delay
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAutosaveRef.current?.();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const openLibraryProject = async (id: string) => {
+    await flushAutosave();
+    try {
+      const project = await loadProject(id);
+      libraryGenerationRef.current++;
+      applyProject(project);
+      setCurrentEntry(libraryEntries.find((entry) => entry.id === id) ?? null);
+      savedStateRef.current = JSON.stringify(projectStateOf(project));
+    } catch (error) {
+      reportProjectError('Could not open the project', error);
+    }
+  };
+
+  // Whatever the editor holds next is saved as a new library entry, by the
+  // autosave once it renders
+  const startLibraryProject = (name: string) => {
+    libraryGenerationRef.current++;
+    setCurrentEntry(createEntry(name));
+    savedStateRef.current = null;
+  };
+
+  const createLibraryProject = async () => {
+    await flushAutosave();
+    resetCode();
+    startLibraryProject('Untitled');
+  };
+
+  const renameLibraryProject = async (id: string, name: string) => {
+    if (currentEntryRef.current?.id === id) currentEntryRef.current = { ...currentEntryRef.current, name };
+    setLibraryEntries((entries) => entries.map((entry) => (entry.id === id ? { ...entry, name } : entry)));
+    try {
+      await renameEntry(id, name);
+    } catch (error) {
+      logWarning(`Could not rename the project: ${(error as Error).message}`);
+    }
+  };
+
+  const duplicateLibraryProject = async (id: string) => {
+    try {
+      await flushAutosave();
+      const copy = await duplicateEntry(id);
+      setLibraryEntries((entries) => [copy, ...entries]);
+    } catch (error) {
+      logWarning(`Could not duplicate the project: ${(error as Error).message}`);
+    }
+  };
+
+  const deleteLibraryProject = async (id: string) => {
+    try {
+      await deleteEntry(id);
+    } catch (error) {
+      logWarning(`Could not delete the project: ${(error as Error).message}`);
+      return;
+    }
+    setLibraryEntries((entries) => entries.filter((entry) => entry.id !== id));
+    if (currentEntryRef.current?.id === id) {
+      // The editor keeps the content; the next edit saves it as a new project
+      libraryGenerationRef.current++;
+      setCurrentEntry(null);
+      savedStateRef.current = JSON.stringify(projectState());
+    }
+  };
+
+  // Copies a link carrying the whole project; too large ones are exported as a file
+  const copyLink = async () => {
+    const link = await createPermalink(createProject(projectState()));
+    const size = `${Math.round(link.length / 1024)} KB`;
+    if (link.length > LINK_MAX_LENGTH) {
+      logWarning(`The project is too large for a link (${size}), so it was exported as a file instead. Textures and models take the most space.`);
+      setDockTab('console');
+      exportCode();
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch (error) {
+      logWarning(`Could not copy the link: ${(error as Error).message}`);
+      return;
+    }
+    setConsoleEntries((entries) => [...entries, createConsoleEntry('log', `Link copied (${size})`)].slice(-CONSOLE_LIMIT));
+    if (link.length > LINK_WARNING_LENGTH) {
+      logWarning(`The link is ${size} long; some chat apps and mail clients cut links this long. Export a file if it doesn't open.`);
+    }
+  };
+
+  const download = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `ogl-shader-${Date.now()}.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const exportCode = () => {
+    const blob = new Blob([JSON.stringify(createProject(projectState()), null, 2)], { type: 'application/json' });
+    download(blob, `ogl-shader-${Date.now()}.json`);
+  };
+
+  // A single HTML page running the sketch with everything inlined
+  const exportStandalone = async () => {
+    const title = currentEntryRef.current?.name ?? 'OGL sketch';
+    try {
+      const page = standaloneDocument(await createSketch(), title);
+      download(new Blob([page], { type: 'text/html' }), `${title.replace(/[^\w-]+/g, '-') || 'sketch'}.html`);
+    } catch (error) {
+      logWarning(`Could not export the sketch: ${(error as Error).message}`);
+      setDockTab('console');
+    }
+  };
+
+  // A PNG still rendered by the preview at any size, in tiles if need be
+  const captureStill = async (options: CaptureOptions) => {
+    const runtime = runtimeRef.current;
+    if (!runtime) return false;
+    const name = (currentEntryRef.current?.name ?? 'capture').replace(/[^\w-]+/g, '-') || 'capture';
+    try {
+      download(await runtime.captureStill(options), `${name}-${options.width}x${options.height}.png`);
+      return true;
+    } catch (error) {
+      logWarning(`Could not capture the preview: ${(error as Error).message}`);
+      setDockTab('console');
+      return false;
+    }
+  };
+
+  // Offline recording with a fixed timestep; cancelling isn't an error
+  const recordVideo = async (settings: RecordingSettings, onProgress: (done: number, total: number) => void, signal: AbortSignal) => {
+    const runtime = runtimeRef.current;
+    if (!runtime) return false;
+    const name = (currentEntryRef.current?.name ?? 'recording').replace(/[^\w-]+/g, '-') || 'recording';
+    try {
+      const file = await recordSketch(runtime, settings, onProgress, signal);
+      download(file, `${name}.${RECORDING_EXTENSIONS[settings.format]}`);
+      return true;
+    } catch (error) {
+      if (!signal.aborted) {
+        logWarning(`Could not record the preview: ${(error as Error).message}`);
+        setDockTab('console');
+      }
+      return false;
+    }
+  };
+
   const importCode = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -425,14 +988,20 @@ export function OGLEditor({
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
         const reader = new FileReader();
-        reader.onload = (e) => {
+        reader.onload = async (e) => {
+          // Imports become new library projects; keep the current one's last edits
+          await flushAutosave();
           try {
             const data = JSON.parse(e.target?.result as string);
-            setVertexShader(data.vertexShader || defaultVertexShader);
-            setFragmentShader(data.fragmentShader || defaultFragmentShader);
-            setJsCode(data.jsCode || defaultJavaScript);
+            if (isShadertoyExport(data)) {
+              importShadertoy(data);
+              return;
+            }
+            applyProject(readProject(data));
+            startLibraryProject(file.name.replace(/\.json$/i, ''));
+            setConsoleEntries([createConsoleEntry('log', `Imported ${file.name}`)]);
           } catch (error) {
-            console.error('Error importing file:', error);
+            reportProjectError(`Could not import ${file.name}`, error);
           }
         };
         reader.readAsText(file);
@@ -441,11 +1010,40 @@ export function OGLEditor({
     input.click();
   };
 
+  // Shadertoy shaders fill the canvas: the raw template's full-screen quad,
+  // not the OGL template's camera and orbit controls
+  const importShadertoy = (data: unknown) => {
+    const imported = parseShadertoyExport(data);
+    loadTemplate('raw');
+    setVertexShader(defaultVertexShader);
+    setFragmentShader(imported.fragment);
+    setFragmentMode('shadertoy');
+    setBuffers(imported.buffers);
+    setImageChannels(imported.channels);
+    setActiveTab('fragment');
+    startLibraryProject(imported.name);
+    setConsoleEntries([
+      createConsoleEntry('log', `Imported "${imported.name}" from Shadertoy`),
+      ...imported.warnings.map((warning) => createConsoleEntry('warn', warning)),
+    ]);
+  };
+
+  const loadShadertoyStarter = () => {
+    loadTemplate('raw');
+    setVertexShader(defaultVertexShader);
+    setFragmentShader(defaultShadertoyShader);
+    setFragmentMode('shadertoy');
+    clearPasses();
+    setShowExamples(false);
+  };
+
   const loadExample = (exampleName: keyof typeof shaderExamples) => {
     try {
       const example = shaderExamples[exampleName];
       setVertexShader(example.vertex);
       setFragmentShader(example.fragment);
+      setFragmentMode('glsl');
+      clearPasses();
       setShowExamples(false); // Close dropdown after loading
     } catch (error) {
       console.error('Error loading example:', error);
@@ -454,11 +1052,31 @@ export function OGLEditor({
 
   return (
     <div className="flex h-screen bg-background">
+      {showLibrary && (
+        <LibraryPanel
+          entries={libraryEntries}
+          currentId={currentProjectId}
+          onOpen={openLibraryProject}
+          onCreate={createLibraryProject}
+          onRename={renameLibraryProject}
+          onDuplicate={duplicateLibraryProject}
+          onDelete={deleteLibraryProject}
+        />
+      )}
+
       {/* Editor Panel */}
       <div className="flex-1 flex flex-col border-r">
         {/* Toolbar */}
         <div className="flex items-center justify-between p-2 border-b bg-card">
           <div className="flex items-center gap-2">
+            <Button
+              onClick={() => setShowLibrary(!showLibrary)}
+              variant={showLibrary ? "secondary" : "outline"}
+              size="sm"
+              title="Saved projects"
+            >
+              <Library className="w-4 h-4" />
+            </Button>
             <Button
               onClick={isRunning ? stopShader : runShader}
               variant={isRunning ? "destructive" : "default"}
@@ -467,6 +1085,21 @@ export function OGLEditor({
               {isRunning ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
               {isRunning ? "Stop" : "Run"}
             </Button>
+            {isRunning && (
+              <Button onClick={runShader} variant="outline" size="sm">
+                <RotateCcw className="w-4 h-4" />
+                Restart
+              </Button>
+            )}
+            <Button
+              onClick={() => setLiveReload(!liveReload)}
+              variant={liveReload ? "secondary" : "outline"}
+              size="sm"
+              title="Apply shader edits to the running preview as you type"
+            >
+              <Zap className="w-4 h-4" />
+              Live
+            </Button>
             <Button onClick={resetCode} variant="outline" size="sm">
               <RefreshCw className="w-4 h-4" />
               Reset
@@ -512,6 +1145,12 @@ export function OGLEditor({
                     >
                       Fractal Noise Clouds
                     </button>
+                    <button 
+                      onClick={loadShadertoyStarter} 
+                      className="w-full text-left px-2 py-1.5 text-sm rounded hover:bg-accent hover:text-accent-foreground"
+                    >
+                      Shadertoy Starter
+                    </button>
                   </div>
                 </div>
               )}
@@ -519,14 +1158,45 @@ export function OGLEditor({
           </div>
           
           <div className="flex items-center gap-2">
+            <select
+              value={sketchTemplate}
+              onChange={(e) => loadTemplate((e.target as HTMLSelectElement).value as SketchTemplate)}
+              title="Replace the JavaScript tab with a runtime template"
+              className="h-8 rounded-md border bg-background px-2 text-sm"
+            >
+              {(Object.keys(sketchTemplates) as SketchTemplate[]).map((template) => (
+                <option key={template} value={template}>{sketchTemplates[template].label} template</option>
+              ))}
+            </select>
+            <select
+              value={fragmentMode}
+              onChange={(e) => setFragmentMode((e.target as HTMLSelectElement).value as FragmentMode)}
+              title="How the fragment tab is compiled"
+              className="h-8 rounded-md border bg-background px-2 text-sm"
+            >
+              <option value="glsl">GLSL fragment</option>
+              <option value="shadertoy">Shadertoy mainImage</option>
+            </select>
             <Button onClick={importCode} variant="outline" size="sm">
               <Upload className="w-4 h-4" />
               Import
             </Button>
+            <Button onClick={copyLink} variant="outline" size="sm" title="Copy a link that opens this project">
+              <Link className="w-4 h-4" />
+              Copy link
+            </Button>
             <Button onClick={exportCode} variant="outline" size="sm">
               <Download className="w-4 h-4" />
               Export
             </Button>
+            <Button onClick={exportStandalone} variant="outline" size="sm" title="Export a standalone HTML page that runs offline">
+              <FileCode className="w-4 h-4" />
+              HTML
+            </Button>
+            <Button onClick={() => setShowCodeExport(true)} variant="outline" size="sm" title="Export the shaders as a module for app code">
+              <Braces className="w-4 h-4" />
+              Code
+            </Button>
           </div>
         </div>
 
@@ -535,7 +1205,19 @@ export function OGLEditor({
           <TabsList className="m-2">
             <TabsTrigger value="vertex">Vertex Shader</TabsTrigger>
             <TabsTrigger value="fragment">Fragment Shader</TabsTrigger>
+            {buffers.map((buffer) => (
+              <TabsTrigger key={buffer.id} value={bufferTab(buffer.id)}>Buffer {buffer.id}</TabsTrigger>
+            ))}
             <TabsTrigger value="javascript">JavaScript</TabsTrigger>
+            {nextBufferId(buffers) && (
+              <button
+                onClick={addBuffer}
+                title="Add a buffer pass"
+                className="ml-1 p-1 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            )}
           </TabsList>
           
           <TabsContent value="vertex" className="flex-1 m-0">
@@ -543,106 +1225,73 @@ export function OGLEditor({
               height="100%"
               defaultLanguage="glsl"
               value={vertexShader}
+              path={modelPaths.vertex}
+              keepCurrentModel
+              beforeMount={registerGLSLLanguage}
+              onMount={handleEditorMount("vertex")}
               onChange={(value) => setVertexShader(value || "")}
               theme="vs-dark"
-              options={{
-                fontSize: 14,
-                minimap: { enabled: false },
-                scrollBeyondLastLine: false,
-                automaticLayout: true,
-                tabSize: 2,
-                insertSpaces: true,
-                wordWrap: "on",
-                // IntelliSense enhancements
-                suggestOnTriggerCharacters: true,
-                quickSuggestions: {
-                  other: true,
-                  comments: false,
-                  strings: false
-                },
-                parameterHints: {
-                  enabled: true,
-                  cycle: true
-                },
-                hover: {
-                  enabled: true,
-                  delay: 300
-                },
-                acceptSuggestionOnCommitCharacter: true,
-                acceptSuggestionOnEnter: "on",
-                snippetSuggestions: "top",
-                wordBasedSuggestions: "off",
-                // Enhanced editing features
-                bracketPairColorization: {
-                  enabled: true
-                },
-                guides: {
-                  bracketPairs: true,
-                  indentation: true
-                },
-                matchBrackets: "always",
-                autoIndent: "full",
-                formatOnPaste: true,
-                formatOnType: true
-              }}
+              options={glslEditorOptions}
             />
           </TabsContent>
           
-          <TabsContent value="fragment" className="flex-1 m-0">
-            <Editor
-              height="100%"
-              defaultLanguage="glsl"
-              value={fragmentShader}
-              onChange={(value) => setFragmentShader(value || "")}
-              theme="vs-dark"
-              options={{
-                fontSize: 14,
-                minimap: { enabled: false },
-                scrollBeyondLastLine: false,
-                automaticLayout: true,
-                tabSize: 2,
-                insertSpaces: true,
-                wordWrap: "on",
-                // IntelliSense enhancements
-                suggestOnTriggerCharacters: true,
-                quickSuggestions: {
-                  other: true,
-                  comments: false,
-                  strings: false
-                },
-                parameterHints: {
-                  enabled: true,
-                  cycle: true
-                },
-                hover: {
-                  enabled: true,
-                  delay: 300
-                },
-                acceptSuggestionOnCommitCharacter: true,
-                acceptSuggestionOnEnter: "on",
-                snippetSuggestions: "top",
-                wordBasedSuggestions: "off",
-                // Enhanced editing features
-                bracketPairColorization: {
-                  enabled: true
-                },
-                guides: {
-                  bracketPairs: true,
-                  indentation: true
-                },
-                matchBrackets: "always",
-                autoIndent: "full",
-                formatOnPaste: true,
-                formatOnType: true
-              }}
+          <TabsContent value="fragment" className="flex-1 m-0 flex flex-col">
+            <ChannelBar
+              channels={imageChannels}
+              buffers={buffers.map((buffer) => buffer.id)}
+              assets={assets}
+              onChange={(index, channel) => setImageChannels(setChannel(imageChannels, index, channel))}
             />
+            <div className="flex-1 min-h-0">
+              <Editor
+                height="100%"
+                defaultLanguage="glsl"
+                value={fragmentShader}
+                path={modelPaths.fragment}
+                keepCurrentModel
+                beforeMount={registerGLSLLanguage}
+                onMount={handleEditorMount("fragment")}
+                onChange={(value) => setFragmentShader(value || "")}
+                theme="vs-dark"
+                options={glslEditorOptions}
+              />
+            </div>
           </TabsContent>
+
+          {buffers.map((buffer) => (
+            <TabsContent key={buffer.id} value={bufferTab(buffer.id)} className="flex-1 m-0 flex flex-col">
+              <ChannelBar
+                channels={buffer.channels}
+                buffers={buffers.map((other) => other.id)}
+                assets={assets}
+                onChange={(index, channel) => updateBuffer(buffer.id, { channels: setChannel(buffer.channels, index, channel) })}
+                onRemove={() => removeBuffer(buffer.id)}
+              />
+              <div className="flex-1 min-h-0">
+                <Editor
+                  height="100%"
+                  defaultLanguage="glsl"
+                  value={buffer.source}
+                  path={modelPaths[bufferTab(buffer.id)]}
+                  keepCurrentModel
+                  beforeMount={registerGLSLLanguage}
+                  onMount={handleEditorMount(bufferTab(buffer.id))}
+                  onChange={(value) => updateBuffer(buffer.id, { source: value || "" })}
+                  theme="vs-dark"
+                  options={glslEditorOptions}
+                />
+              </div>
+            </TabsContent>
+          ))}
           
           <TabsContent value="javascript" className="flex-1 m-0">
             <Editor
               height="100%"
               defaultLanguage="javascript"
               value={jsCode}
+              path={modelPaths.javascript}
+              keepCurrentModel
+              onMount={handleEditorMount("javascript")}
               onChange={(value) => setJsCode(value || "")}
               theme="vs-dark"
               options={{
@@ -692,21 +1341,71 @@ export function OGLEditor({
             />
           </TabsContent>
         </Tabs>
+
+        <ProblemsPanel
+          diagnostics={diagnostics}
+          onSelect={(diagnostic) => revealLine(diagnostic.buffer ? bufferTab(diagnostic.buffer) : diagnostic.stage, diagnostic.line)}
+        />
       </div>
 
       {/* Preview Panel */}
       <div className="w-1/2 flex flex-col bg-black">
-        <div className="p-2 border-b bg-card">
+        <div className="flex items-center justify-between p-2 border-b bg-card">
           <h3 className="text-sm font-medium">Preview</h3>
+          <div className="flex items-center gap-2">
+            <GeometrySelect geometry={geometry} onChange={setGeometry} onImport={importModel} disabled={sketchTemplate === 'raw'} />
+            <DisplayMenu display={display} onChange={setDisplay} />
+            <Button onClick={toggleFullscreen} disabled={!!popout} variant="outline" size="sm" title="Fullscreen preview">
+              <Maximize className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => (popout ? popout.close() : openPopout())}
+              variant={popout ? "secondary" : "outline"}
+              size="sm"
+              title={popout ? "Bring the preview back into the pane" : "Open the preview in its own window"}
+            >
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => setShowStats(!showStats)}
+              variant={showStats ? "secondary" : "outline"}
+              size="sm"
+              title="Show FPS, frame times, GPU time and draw calls"
+            >
+              <Gauge className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => setShowCapture(true)}
+              disabled={!isRunning}
+              variant="outline"
+              size="sm"
+              title="Save a PNG still at any resolution"
+            >
+              <Camera className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={() => setShowRecord(true)}
+              disabled={!isRunning}
+              variant="outline"
+              size="sm"
+              title="Record a video, GIF or PNG frames offline"
+            >
+              <Video className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
-        <div className="flex-1 relative">
-          <canvas
-            ref={canvasRef}
-            id="glCanvas"
-            className="w-full h-full"
-            style={{ display: 'block' }}
-          />
-          {!isRunning && (
+        <div ref={previewPaneRef} className="flex-1 relative flex items-center justify-center bg-black" style={{ containerType: 'size' }}>
+          <div ref={previewRef} style={previewBoxStyle(display)} />
+          {isRunning && showStats && <PerformanceHud subscribe={subscribeStats} />}
+          {popout && (
+            <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+              <div className="text-center">
+                <ExternalLink className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                <p>The preview is open in its own window</p>
+              </div>
+            </div>
+          )}
+          {!isRunning && !popout && (
             <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
               <div className="text-center">
                 <Play className="w-12 h-12 mx-auto mb-2 opacity-50" />
@@ -715,7 +1414,79 @@ export function OGLEditor({
             </div>
           )}
         </div>
+        <TransportBar
+          transport={transport}
+          onChange={setTransport}
+          onSeek={(time) => runtimeRef.current?.seek(time)}
+          onStep={stepFrames}
+          subscribe={subscribeClock}
+          disabled={!isRunning}
+        />
+
+        <Tabs value={dockTab} onValueChange={setDockTab} className="h-56 gap-0 border-t bg-card text-card-foreground">
+          <TabsList className="m-1 h-7">
+            <TabsTrigger value="console" className="text-xs">Console</TabsTrigger>
+            <TabsTrigger value="uniforms" className="text-xs">Uniforms ({uniformDeclarations.length})</TabsTrigger>
+            <TabsTrigger value="assets" className="text-xs">Textures ({assets.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="console" className="min-h-0">
+            <ConsolePanel
+              entries={consoleEntries}
+              onClear={() => setConsoleEntries([])}
+              onSelect={(location) => revealLine(location.tab, location.line, location.column)}
+            />
+          </TabsContent>
+
+          <TabsContent value="uniforms" className="min-h-0 overflow-auto">
+            <UniformPanel
+              declarations={uniformDeclarations}
+              values={uniformValues}
+              onChange={(name, value) => setUniformEdits((edits) => ({ ...edits, [name]: value }))}
+              onReset={(name) => setUniformEdits(({ [name]: _removed, ...edits }) => edits)}
+            />
+          </TabsContent>
+
+          <TabsContent value="assets" className="min-h-0 overflow-auto">
+            <AssetPanel
+              assets={assets}
+              samplers={samplers}
+              onAddFiles={addAssets}
+              onAddCubemap={addCubemap}
+              onAddWebcam={() => setAssets((current) => [...current, webcamAsset(current)])}
+              onChange={updateAsset}
+              onRemove={removeAsset}
+            />
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <CodeExportDialog
+        open={showCodeExport}
+        onOpenChange={setShowCodeExport}
+        source={{
+          name: libraryEntries.find((entry) => entry.id === currentProjectId)?.name ?? 'Untitled',
+          vertex: vertexShader,
+          fragment: compiledFragment.source,
+          uniforms: uniformDeclarations,
+          values: uniformValues,
+        }}
+        onDownload={download}
+      />
+
+      <CaptureDialog
+        open={showCapture}
+        onOpenChange={setShowCapture}
+        paneSize={{ width: previewContainerRef.current?.clientWidth ?? 0, height: previewContainerRef.current?.clientHeight ?? 0 }}
+        onCapture={captureStill}
+      />
+
+      <RecordDialog
+        open={showRecord}
+        onOpenChange={setShowRecord}
+        paneSize={{ width: previewContainerRef.current?.clientWidth ?? 0, height: previewContainerRef.current?.clientHeight ?? 0 }}
+        onRecord={recordVideo}
+      />
     </div>
   );
 }
\ No newline at end of file
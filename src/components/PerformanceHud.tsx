@@ -0,0 +1,75 @@
+import { useEffect, useState } from "preact/hooks"
+import type { FrameStats } from "@/lib/runtime/protocol"
+
+interface PerformanceHudProps {
+  /** Registers a listener for the frame's stats reports; returns the unsubscribe function. */
+  subscribe: (listener: (stats: FrameStats) => void) => () => void
+}
+
+// Frames the CPU graph spans
+const HISTORY_LENGTH = 120
+const GRAPH_WIDTH = 160
+const GRAPH_HEIGHT = 36
+// The graph's scale starts at two 60 Hz frames and grows with spikes
+const GRAPH_MIN_MS = 1000 / 30
+
+function formatMs(ms: number | null) {
+  return ms === null ? "–" : `${ms.toFixed(ms < 10 ? 2 : 1)} ms`
+}
+
+export function PerformanceHud({ subscribe }: PerformanceHudProps) {
+  const [stats, setStats] = useState<FrameStats | null>(null)
+  const [history, setHistory] = useState<number[]>([])
+
+  useEffect(
+    () =>
+      subscribe((next) => {
+        setStats(next)
+        setHistory((times) => [...times, ...next.frameTimes].slice(-HISTORY_LENGTH))
+      }),
+    [subscribe]
+  )
+
+  const cpuTime = stats && stats.frameTimes.length ? stats.frameTimes.reduce((sum, time) => sum + time, 0) / stats.frameTimes.length : null
+  const scale = Math.max(GRAPH_MIN_MS, ...history)
+  const step = GRAPH_WIDTH / (HISTORY_LENGTH - 1)
+  const offset = HISTORY_LENGTH - history.length
+  const points = history.map((time, index) => `${((offset + index) * step).toFixed(1)},${(GRAPH_HEIGHT - (time / scale) * GRAPH_HEIGHT).toFixed(1)}`)
+  const budgetY = GRAPH_HEIGHT - ((1000 / 60) / scale) * GRAPH_HEIGHT
+
+  return (
+    <div className="absolute top-2 left-2 rounded-md bg-black/70 px-2 py-1.5 font-mono text-[11px] leading-4 text-white pointer-events-none select-none">
+      {stats ? (
+        <>
+          <div>
+            <span className="font-semibold">{stats.fps.toFixed(0)} fps</span> · CPU {formatMs(cpuTime)} · GPU{" "}
+            {stats.gpuTimer ? formatMs(stats.gpuTime) : "n/a"}
+          </div>
+          <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="my-1 block">
+            <line x1={0} x2={GRAPH_WIDTH} y1={budgetY} y2={budgetY} stroke="currentColor" strokeOpacity={0.3} strokeDasharray="2 2" />
+            <polyline points={points.join(" ")} fill="none" stroke="#4ade80" strokeWidth={1} />
+          </svg>
+          <div className="text-white/70">
+            {stats.width}×{stats.height} · {stats.pixelRatio.toFixed(2)}× (DPR {stats.devicePixelRatio})
+          </div>
+          <div className="text-white/70">{stats.drawCalls.toFixed(0)} draw calls</div>
+          {stats.passes.length > 1 && (
+            <table className="mt-1 text-white/70">
+              <tbody>
+                {stats.passes.map((pass) => (
+                  <tr key={pass.label}>
+                    <td className="pr-2">{pass.label}</td>
+                    <td className="pr-2 text-right">{pass.drawCalls.toFixed(0)}</td>
+                    <td className="text-right">{stats.gpuTimer ? formatMs(pass.gpuTime) : ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      ) : (
+        <div className="text-white/70">Waiting for frames from runtime.loop…</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { useState } from "preact/hooks"
+import { AlertTriangle, ChevronDown, ChevronRight, XCircle } from "lucide-react"
+import type { ShaderDiagnostic } from "@/lib/glsl/diagnostics"
+
+interface ProblemsPanelProps {
+  diagnostics: ShaderDiagnostic[]
+  onSelect: (diagnostic: ShaderDiagnostic) => void
+}
+
+export function ProblemsPanel({ diagnostics, onSelect }: ProblemsPanelProps) {
+  const [open, setOpen] = useState(true)
+
+  const errors = diagnostics.filter((d) => d.severity === "error").length
+  const warnings = diagnostics.length - errors
+
+  return (
+    <div className="border-t bg-card">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-2 py-1 text-xs font-medium hover:bg-accent"
+      >
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        Problems
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <XCircle className="w-3 h-3 text-destructive" /> {errors}
+          <AlertTriangle className="w-3 h-3 text-yellow-500 ml-1" /> {warnings}
+        </span>
+      </button>
+
+      {open && diagnostics.length > 0 && (
+        <ul className="max-h-40 overflow-auto pb-1 font-mono text-xs">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                onClick={() => onSelect(diagnostic)}
+                className="w-full flex items-start gap-2 px-2 py-0.5 text-left hover:bg-accent"
+              >
+                {diagnostic.severity === "error"
+                  ? <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" />
+                  : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-yellow-500" />}
+                <span className="flex-1">{diagnostic.message}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {diagnostic.buffer ? `buffer ${diagnostic.buffer}` : diagnostic.stage}:{diagnostic.line}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
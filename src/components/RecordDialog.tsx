@@ -0,0 +1,166 @@
+import { useRef, useState } from "preact/hooks"
+import { Video, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { frameCount, type RecordingFormat, type RecordingSettings } from "@/lib/recording/recorder"
+
+interface RecordDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Size of the preview pane in CSS pixels, for the "Pane" preset. */
+  paneSize: { width: number; height: number }
+  /**
+   * Records and saves the file. Resolves to whether it was saved; failures
+   * are reported by the caller, and an aborted `signal` means cancelled.
+   */
+  onRecord: (settings: RecordingSettings, onProgress: (done: number, total: number) => void, signal: AbortSignal) => Promise<boolean>
+}
+
+const formatLabels: Record<RecordingFormat, string> = {
+  webm: "WebM video",
+  gif: "Animated GIF",
+  png: "PNG frames (.zip)",
+}
+
+const presets = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "Square", width: 512, height: 512 },
+]
+
+const MAX_SIZE = 8192
+// ZIP entries without the 64-bit extensions top out at 65535
+const MAX_FRAMES = 65535
+// Browsers play GIF delays under 2/100 s slowly, so GIFs top out at 50 fps
+const MAX_GIF_FPS = 50
+const MAX_FPS = 120
+
+export function RecordDialog({ open, onOpenChange, paneSize, onRecord }: RecordDialogProps) {
+  const [format, setFormat] = useState<RecordingFormat>("webm")
+  const [width, setWidth] = useState(1280)
+  const [height, setHeight] = useState(720)
+  const [fps, setFps] = useState(30)
+  const [duration, setDuration] = useState(5)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const pane = { label: "Pane", width: Math.round(paneSize.width), height: Math.round(paneSize.height) }
+  const total = frameCount({ fps, duration })
+  const maxFps = format === "gif" ? MAX_GIF_FPS : MAX_FPS
+  const valid =
+    [width, height].every((size) => Number.isInteger(size) && size >= 1 && size <= MAX_SIZE) &&
+    fps >= 1 &&
+    fps <= maxFps &&
+    duration > 0 &&
+    total <= MAX_FRAMES
+  const inputClass = "h-8 w-20 rounded-md border bg-background px-2 text-sm"
+  const numberInput = (value: number, onChange: (value: number) => void, label: string, props: Record<string, number> = {}) => (
+    <input
+      type="number"
+      value={value}
+      onInput={(e) => onChange((e.target as HTMLInputElement).valueAsNumber)}
+      className={inputClass}
+      aria-label={label}
+      disabled={!!progress}
+      {...props}
+    />
+  )
+
+  const record = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setProgress({ done: 0, total })
+    const saved = await onRecord({ format, width, height, fps, duration }, (done, total) => setProgress({ done, total }), controller.signal)
+    abortRef.current = null
+    setProgress(null)
+    if (saved) onOpenChange(false)
+  }
+
+  // Closing the dialog cancels a recording in progress
+  const changeOpen = (next: boolean) => {
+    if (!next) abortRef.current?.abort()
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={changeOpen}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record</DialogTitle>
+          <DialogDescription>
+            Renders every frame offline with time stepped at a fixed rate, so nothing is dropped and the same settings give the same
+            result. The preview pauses while it records.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <select
+            value={format}
+            onChange={(e) => setFormat((e.target as HTMLSelectElement).value as RecordingFormat)}
+            className="h-8 rounded-md border bg-background px-2 text-sm mr-2"
+            disabled={!!progress}
+          >
+            {(Object.keys(formatLabels) as RecordingFormat[]).map((option) => (
+              <option key={option} value={option}>{formatLabels[option]}</option>
+            ))}
+          </select>
+          {[...presets, pane].map((preset) => (
+            <Button
+              key={preset.label}
+              variant={preset.width === width && preset.height === height ? "secondary" : "outline"}
+              size="sm"
+              disabled={!!progress}
+              onClick={() => {
+                setWidth(preset.width)
+                setHeight(preset.height)
+              }}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {numberInput(width, (value) => setWidth(Math.round(value)), "Width", { min: 1, max: MAX_SIZE })}
+          <span className="text-muted-foreground">×</span>
+          {numberInput(height, (value) => setHeight(Math.round(value)), "Height", { min: 1, max: MAX_SIZE })}
+          <span className="text-muted-foreground">px,</span>
+          {numberInput(duration, setDuration, "Duration in seconds", { min: 0.1, step: 0.5 })}
+          <span className="text-muted-foreground">s at</span>
+          {numberInput(fps, (value) => setFps(Math.round(value)), "Frames per second", { min: 1, max: maxFps })}
+          <span className="text-muted-foreground">fps</span>
+        </div>
+
+        {progress ? (
+          <div className="space-y-1">
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+              <div className="h-full bg-primary transition-[width]" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {progress.done < progress.total ? `Frame ${progress.done + 1} of ${progress.total}` : "Finishing the file…"}
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {total} frames{fps > maxFps ? `; at most ${maxFps} fps${format === "gif" ? " for GIFs" : ""}` : ""}
+            {total > MAX_FRAMES ? `; at most ${MAX_FRAMES} frames` : ""}
+          </p>
+        )}
+
+        <DialogFooter>
+          {progress ? (
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button size="sm" onClick={record} disabled={!valid}>
+              <Video className="w-4 h-4" />
+              Record
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "preact/hooks"
+import { Pause, Play, Repeat, SkipBack, StepBack, StepForward } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { TransportState } from "@/lib/runtime/protocol"
+
+interface TransportBarProps {
+  transport: TransportState
+  onChange: (transport: TransportState) => void
+  onSeek: (time: number) => void
+  /** Steps whole frames (negative goes back), pausing playback first. */
+  onStep: (frames: number) => void
+  /** Registers a listener for the sketch's clock; returns the unsubscribe function. */
+  subscribe: (listener: (time: number, frame: number) => void) => () => void
+  disabled: boolean
+}
+
+const speeds = [0.25, 0.5, 1, 2, 4]
+
+// Without a loop range, the scrubber spans the next multiple of this
+const TIMELINE_SECONDS = 10
+
+export function TransportBar({ transport, onChange, onSeek, onStep, subscribe, disabled }: TransportBarProps) {
+  const [clock, setClock] = useState({ time: 0, frame: 0 })
+  // Dragging the scrubber wins over the times the sketch reports meanwhile
+  const scrubbingRef = useRef(false)
+
+  useEffect(
+    () =>
+      subscribe((time, frame) => {
+        if (!scrubbingRef.current) setClock({ time, frame })
+      }),
+    [subscribe]
+  )
+
+  const { loop } = transport
+  const length = loop ? Math.max(loop.end, 1) : (Math.floor(clock.time / TIMELINE_SECONDS) + 1) * TIMELINE_SECONDS
+  const seek = (time: number) => {
+    setClock((current) => ({ ...current, time }))
+    onSeek(time)
+  }
+  const setLoop = (start: number, end: number) => {
+    if (Number.isFinite(start) && Number.isFinite(end)) onChange({ ...transport, loop: { start: Math.max(0, start), end } })
+  }
+  const inputClass = "h-6 w-14 rounded border bg-background px-1 text-xs"
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 border-t bg-card text-card-foreground">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        disabled={disabled}
+        onClick={() => onChange({ ...transport, playing: !transport.playing })}
+        title={transport.playing ? "Pause" : "Play"}
+      >
+        {transport.playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        disabled={disabled}
+        onClick={() => seek(loop?.start ?? 0)}
+        title="Back to the start"
+      >
+        <SkipBack className="w-3.5 h-3.5" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={disabled} onClick={() => onStep(-1)} title="Previous frame">
+        <StepBack className="w-3.5 h-3.5" />
+      </Button>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={disabled} onClick={() => onStep(1)} title="Next frame">
+        <StepForward className="w-3.5 h-3.5" />
+      </Button>
+
+      <span className="w-24 text-right font-mono text-xs tabular-nums text-muted-foreground" title={`Frame ${clock.frame}`}>
+        {clock.time.toFixed(2)}s · {clock.frame}
+      </span>
+
+      <div className="relative flex-1 mx-2 flex items-center">
+        {loop && loop.end > loop.start && (
+          <div
+            className="absolute h-1.5 rounded bg-primary/30 pointer-events-none"
+            style={{ left: `${(loop.start / length) * 100}%`, width: `${((loop.end - loop.start) / length) * 100}%` }}
+          />
+        )}
+        <input
+          type="range"
+          min={0}
+          max={length}
+          step={0.01}
+          value={Math.min(clock.time, length)}
+          disabled={disabled}
+          onPointerDown={() => (scrubbingRef.current = true)}
+          onPointerUp={() => (scrubbingRef.current = false)}
+          onInput={(e) => seek((e.target as HTMLInputElement).valueAsNumber)}
+          className="relative w-full accent-primary"
+          aria-label="Time"
+        />
+      </div>
+
+      <select
+        value={transport.speed}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...transport, speed: Number((e.target as HTMLSelectElement).value) })}
+        className="h-6 rounded border bg-background px-1 text-xs"
+        title="Playback speed"
+      >
+        {speeds.map((speed) => (
+          <option key={speed} value={speed}>{speed}×</option>
+        ))}
+      </select>
+
+      <Button
+        variant={loop ? "secondary" : "ghost"}
+        size="sm"
+        className="h-6 w-6 p-0"
+        disabled={disabled}
+        onClick={() => onChange({ ...transport, loop: loop ? null : { start: 0, end: Math.ceil(clock.time) || 5 } })}
+        title="Loop a range"
+      >
+        <Repeat className="w-3.5 h-3.5" />
+      </Button>
+      {loop && (
+        <>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={loop.start}
+            onChange={(e) => setLoop((e.target as HTMLInputElement).valueAsNumber, loop.end)}
+            className={inputClass}
+            aria-label="Loop start in seconds"
+          />
+          <span className="text-xs text-muted-foreground">–</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={loop.end}
+            onChange={(e) => setLoop(loop.start, (e.target as HTMLInputElement).valueAsNumber)}
+            className={inputClass}
+            aria-label="Loop end in seconds"
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { RotateCcw } from "lucide-react"
+import { isMatrix, type UniformDeclaration } from "@/lib/glsl/uniforms"
+import type { UniformValue, UniformValues } from "@/lib/runtime/protocol"
+
+interface UniformPanelProps {
+  declarations: UniformDeclaration[]
+  values: UniformValues
+  onChange: (name: string, value: UniformValue) => void
+  onReset: (name: string) => void
+}
+
+interface ControlProps<T extends UniformValue> {
+  declaration: UniformDeclaration
+  value: T
+  onChange: (value: T) => void
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3)
+}
+
+function toHex(color: number[]) {
+  return "#" + color.slice(0, 3).map((channel) => {
+    const byte = Math.round(Math.min(1, Math.max(0, channel)) * 255)
+    return byte.toString(16).padStart(2, "0")
+  }).join("")
+}
+
+function fromHex(hex: string) {
+  return [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16) / 255)
+}
+
+function SliderControl({ declaration, value, onChange }: ControlProps<number>) {
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="range"
+        className="flex-1"
+        min={declaration.min}
+        max={declaration.max}
+        step={declaration.step}
+        value={value}
+        onInput={(e) => onChange(Number((e.target as HTMLInputElement).value))}
+      />
+      <span className="w-14 text-right tabular-nums">{formatNumber(value)}</span>
+    </div>
+  )
+}
+
+function ToggleControl({ value, onChange }: ControlProps<boolean>) {
+  return (
+    <input
+      type="checkbox"
+      checked={value}
+      onChange={(e) => onChange((e.target as HTMLInputElement).checked)}
+    />
+  )
+}
+
+function ColorControl({ declaration, value, onChange }: ControlProps<number[]>) {
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        className="w-10 h-6 bg-transparent"
+        value={toHex(value)}
+        onInput={(e) => onChange([...fromHex((e.target as HTMLInputElement).value), ...value.slice(3)])}
+      />
+      <span className="tabular-nums text-muted-foreground">{value.slice(0, 3).map(formatNumber).join(", ")}</span>
+      {declaration.type === "vec4" && (
+        <input
+          type="range"
+          className="flex-1"
+          title="Alpha"
+          min={0}
+          max={1}
+          step={0.01}
+          value={value[3]}
+          onInput={(e) => onChange([...value.slice(0, 3), Number((e.target as HTMLInputElement).value)])}
+        />
+      )}
+    </div>
+  )
+}
+
+function PadControl({ declaration, value, onChange }: ControlProps<number[]>) {
+  const { min, max } = declaration
+  const span = max - min || 1
+
+  const update = (e: PointerEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
+    const y = Math.min(1, Math.max(0, 1 - (e.clientY - rect.top) / rect.height))
+    onChange([min + x * span, min + y * span])
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        className="relative w-24 h-24 rounded border bg-muted cursor-crosshair touch-none"
+        onPointerDown={(e) => {
+          (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId)
+          update(e)
+        }}
+        onPointerMove={(e) => {
+          if ((e.currentTarget as HTMLElement).hasPointerCapture(e.pointerId)) update(e)
+        }}
+      >
+        <div
+          className="absolute w-2 h-2 -ml-1 -mb-1 rounded-full bg-primary"
+          style={{ left: `${((value[0] - min) / span) * 100}%`, bottom: `${((value[1] - min) / span) * 100}%` }}
+        />
+      </div>
+      <span className="tabular-nums text-muted-foreground">{value.map(formatNumber).join(", ")}</span>
+    </div>
+  )
+}
+
+function MatrixControl({ declaration, value, onChange }: ControlProps<number[]>) {
+  const size = Math.sqrt(value.length)
+  const rows = Array.from({ length: size }, (_, row) => row)
+
+  // Matrices are column-major, as WebGL expects them; show them row by row
+  return (
+    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }}>
+      {rows.flatMap((row) => rows.map((column) => {
+        const index = column * size + row
+        return (
+          <input
+            key={index}
+            type="number"
+            step={declaration.step}
+            className="w-full px-1 py-0.5 rounded border bg-background tabular-nums"
+            value={value[index]}
+            onInput={(e) => {
+              const next = [...value]
+              next[index] = Number((e.target as HTMLInputElement).value) || 0
+              onChange(next)
+            }}
+          />
+        )
+      }))}
+    </div>
+  )
+}
+
+function UniformControl({ declaration, value, onChange }: ControlProps<UniformValue>) {
+  if (declaration.type === "bool") {
+    return <ToggleControl declaration={declaration} value={value as boolean} onChange={onChange} />
+  }
+  if (declaration.type === "float" || declaration.type === "int") {
+    return <SliderControl declaration={declaration} value={value as number} onChange={onChange} />
+  }
+  if (declaration.type === "vec2") {
+    return <PadControl declaration={declaration} value={value as number[]} onChange={onChange} />
+  }
+  if (isMatrix(declaration.type)) {
+    return <MatrixControl declaration={declaration} value={value as number[]} onChange={onChange} />
+  }
+  return <ColorControl declaration={declaration} value={value as number[]} onChange={onChange} />
+}
+
+export function UniformPanel({ declarations, values, onChange, onReset }: UniformPanelProps) {
+  if (declarations.length === 0) {
+    return (
+      <div className="p-3 text-xs text-muted-foreground">
+        No custom uniforms. Declare one in a shader tab, e.g. <code>uniform float speed; // @range 0 10</code>
+      </div>
+    )
+  }
+
+  return (
+    <div className="divide-y text-xs">
+      {declarations.map((declaration) => (
+        <div key={declaration.name} className="px-3 py-2">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-mono font-medium">{declaration.name}</span>
+            <span className="text-muted-foreground">{declaration.type}</span>
+            <button
+              onClick={() => onReset(declaration.name)}
+              title="Reset to default"
+              className="ml-auto p-0.5 rounded text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          </div>
+          <UniformControl
+            declaration={declaration}
+            value={values[declaration.name]}
+            onChange={(value) => onChange(declaration.name, value)}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import type { Asset, AssetKind, TextureSettings } from "@/lib/runtime/protocol"
+
+export const DEFAULT_TEXTURE_SETTINGS: TextureSettings = {
+  wrap: "clamp",
+  filter: "linear",
+  mipmap: false,
+  flipY: true,
+}
+
+// Cube face order the runtime expects, and the file-name hints for each face
+const cubeFaceNames = [
+  ["px", "posx", "right"],
+  ["nx", "negx", "left"],
+  ["py", "posy", "top", "up"],
+  ["ny", "negy", "bottom", "down"],
+  ["pz", "posz", "front"],
+  ["nz", "negz", "back"],
+]
+
+function readAsDataURL(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+function baseName(fileName: string) {
+  return fileName.replace(/\.[^.]*$/, "")
+}
+
+/** A sampler name derived from `name` ("my photo.png" -> "uMyPhoto") that no other asset uses. */
+export function uniqueUniformName(name: string, assets: Asset[]) {
+  const words = baseName(name).split(/[^A-Za-z0-9]+/).filter(Boolean)
+  const stem = "u" + (words.map((word) => word[0].toUpperCase() + word.slice(1)).join("") || "Texture")
+  let candidate = stem
+  for (let index = 2; assets.some((asset) => asset.uniform === candidate); index++) {
+    candidate = `${stem}${index}`
+  }
+  return candidate
+}
+
+/** `assets` with `added` on the end, renaming the samplers of added ones that are taken by then. */
+export function appendAssets(assets: Asset[], added: Asset[]) {
+  return added.reduce(
+    (all, asset) => [...all, all.some((other) => other.uniform === asset.uniform) ? { ...asset, uniform: uniqueUniformName(asset.name, all) } : asset],
+    assets
+  )
+}
+
+function createAsset(kind: AssetKind, name: string, urls: string[], assets: Asset[]): Asset {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    kind,
+    uniform: uniqueUniformName(name, assets),
+    // Cubemaps are sampled by direction, not in screen space, so they are not flipped
+    settings: { ...DEFAULT_TEXTURE_SETTINGS, flipY: kind !== "cubemap" },
+    urls,
+  }
+}
+
+/** Reads an image or video file into an asset. */
+export async function assetFromFile(file: File, assets: Asset[]): Promise<Asset> {
+  const kind = file.type.startsWith("video/") ? "video" : file.type.startsWith("image/") ? "image" : null
+  if (!kind) throw new Error(`${file.name} is not an image or video`)
+  return createAsset(kind, file.name, [await readAsDataURL(file)], assets)
+}
+
+/**
+ * Builds a cubemap from six face images. Faces are matched by name (px/nx,
+ * posx/negx or right/left/top/bottom/front/back); unmatched files fill the
+ * remaining faces in selection order.
+ */
+export async function cubemapFromFiles(files: File[], assets: Asset[]): Promise<Asset> {
+  if (files.length !== 6) throw new Error(`A cubemap needs 6 face images, got ${files.length}`)
+
+  const faces: (File | undefined)[] = cubeFaceNames.map((names) =>
+    files.find((file) => names.some((name) => new RegExp(`(^|[^a-z])${name}([^a-z]|$)`, "i").test(baseName(file.name))))
+  )
+  const unmatched = files.filter((file) => !faces.includes(file))
+  const ordered = faces.map((face) => face ?? unmatched.shift()!)
+
+  const urls = await Promise.all(ordered.map(readAsDataURL))
+  return createAsset("cubemap", "Cubemap", urls, assets)
+}
+
+export function webcamAsset(assets: Asset[]): Asset {
+  return createAsset("webcam", "Webcam", [], assets)
+}
+
+/**
+ * Streams the webcam into `onFrame` until the returned function is called.
+ * Frames are grabbed as bitmaps (flipped here, since WebGL ignores
+ * UNPACK_FLIP_Y for bitmaps) and handed off one at a time.
+ */
+export function streamWebcam(
+  flipY: boolean,
+  onFrame: (frame: ImageBitmap) => void,
+  onError: (error: Error) => void,
+): () => void {
+  let stream: MediaStream | null = null
+  let handle: number | null = null
+  let stopped = false
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+
+  const grab = async () => {
+    if (stopped) return
+    if (video.readyState >= 2) {
+      try {
+        onFrame(await createImageBitmap(video, { imageOrientation: flipY ? "flipY" : "from-image" }))
+      } catch {
+        // A frame can fail while the stream is being torn down
+      }
+    }
+    if (!stopped) handle = requestAnimationFrame(grab)
+  }
+
+  if (!navigator.mediaDevices?.getUserMedia) {
+    onError(new Error("This browser does not provide camera access"))
+  } else {
+    navigator.mediaDevices.getUserMedia({ video: true }).then((media) => {
+      stream = media
+      if (stopped) {
+        media.getTracks().forEach((track) => track.stop())
+        return
+      }
+      video.srcObject = media
+      video.play().catch(() => {})
+      grab()
+    }, onError)
+  }
+
+  return () => {
+    stopped = true
+    if (handle !== null) cancelAnimationFrame(handle)
+    stream?.getTracks().forEach((track) => track.stop())
+    video.srcObject = null
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Code export: turns the current shaders into an ES module for app code,
+ * either building an OGL `Program`/`Mesh` or using raw WebGL. Buffer passes
+ * stay in the editor; the module covers the Image pass.
+ */
+import { isMatrix, type UniformDeclaration, type UniformType } from "@/lib/glsl/uniforms"
+import type { UniformValue, UniformValues } from "@/lib/runtime/protocol"
+
+export type CodeTarget = "ogl" | "webgl"
+
+export interface ModuleOptions {
+  /** Project name, mentioned in the header comment. */
+  name: string
+  vertex: string
+  /** Fragment shader as compiled (Shadertoy code already wrapped). */
+  fragment: string
+  /** Panel uniforms, with `values` holding their current settings. */
+  uniforms: UniformDeclaration[]
+  values: UniformValues
+  target: CodeTarget
+  typescript: boolean
+}
+
+// Matrices OGL's Mesh sets from the camera; raw WebGL leaves them to the caller
+const OGL_MATRICES = new Set(["modelMatrix", "viewMatrix", "modelViewMatrix", "projectionMatrix", "normalMatrix", "cameraPosition"])
+
+const uniformPattern = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+([^;]+);/
+
+interface Declared {
+  name: string
+  type: string
+  /** Array length, 1 for plain uniforms. */
+  length: number
+}
+
+function declaredUniforms(sources: string[]) {
+  const byName = new Map<string, Declared>()
+  for (const line of sources.flatMap((source) => source.split("\n"))) {
+    const match = line.match(uniformPattern)
+    if (!match) continue
+    for (const part of match[2].split(",")) {
+      const declarator = part.trim().match(/^([A-Za-z_]\w*)(?:\s*\[\s*(\d+)\s*\])?$/)
+      if (declarator && !byName.has(declarator[1])) {
+        byName.set(declarator[1], { name: declarator[1], type: match[1], length: Number(declarator[2] ?? 1) })
+      }
+    }
+  }
+  return [...byName.values()]
+}
+
+const componentCounts: Record<string, number> = {
+  float: 1, int: 1, bool: 1, vec2: 2, vec3: 3, vec4: 4, ivec2: 2, ivec3: 3, ivec4: 4, mat2: 4, mat3: 9, mat4: 16,
+}
+
+function isSampler(type: string) {
+  return type === "sampler2D" || type === "samplerCube"
+}
+
+// Starting value of an input the editor's runtime feeds (time, resolution, ...)
+function zeroValue({ type, length }: Declared): UniformValue {
+  const count = componentCounts[type] ?? 1
+  if (length > 1) return new Array<number>(count * length).fill(0)
+  if (type === "bool") return false
+  if (count === 1) return 0
+  if (isMatrix(type as UniformType)) {
+    const size = Math.sqrt(count)
+    return Array.from({ length: count }, (_, index) => (index % (size + 1) === 0 ? 1 : 0))
+  }
+  return new Array<number>(count).fill(0)
+}
+
+function tsType(value: UniformValue, type: string) {
+  if (typeof value === "boolean") return "boolean"
+  if (typeof value === "number") return "number"
+  const count = componentCounts[type] ?? 0
+  // Vectors as tuples, so a vec3 can't be given two components
+  return count > 1 && count <= 4 && value.length === count ? `[${new Array(count).fill("number").join(", ")}]` : "number[]"
+}
+
+function formatNumber(value: number) {
+  return String(Number(value.toFixed(6)))
+}
+
+function literal(value: UniformValue) {
+  if (typeof value === "boolean") return String(value)
+  return Array.isArray(value) ? `[${value.map(formatNumber).join(", ")}]` : formatNumber(value)
+}
+
+function templateLiteral(source: string) {
+  return "`" + source.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${") + "`"
+}
+
+interface ModuleUniform {
+  name: string
+  type: string
+  value: UniformValue
+  /** Fed by the editor's runtime rather than set from the panel. */
+  runtime: boolean
+}
+
+function moduleUniforms({ vertex, fragment, uniforms, values, target }: ModuleOptions) {
+  const panel = new Map(uniforms.map((declaration) => [declaration.name, declaration]))
+  const declared = declaredUniforms([vertex, fragment])
+
+  const settable: ModuleUniform[] = declared
+    .filter((uniform) => !isSampler(uniform.type) && !(target === "ogl" && OGL_MATRICES.has(uniform.name)))
+    .map((uniform) => {
+      const declaration = panel.get(uniform.name)
+      return declaration
+        ? { name: uniform.name, type: uniform.type, value: values[uniform.name] ?? declaration.defaultValue, runtime: false }
+        : { name: uniform.name, type: uniform.type, value: zeroValue(uniform), runtime: true }
+    })
+  const samplers = declared.filter((uniform) => isSampler(uniform.type))
+  return { settable, samplers }
+}
+
+const RUNTIME_NOTE = "Fed by the editor's preview; update it every frame."
+
+/** Generates the module's source. */
+export function generateModule(options: ModuleOptions) {
+  const { target, typescript: ts } = options
+  const { settable, samplers } = moduleUniforms(options)
+  const lines: string[] = []
+  const push = (...text: string[]) => lines.push(...text)
+
+  push(`// Generated by ogl-editor from "${options.name}"`)
+  if (target === "ogl") {
+    push(`import { Mesh, Program } from "ogl"`)
+    if (ts) push(`import type { Geometry, OGLRenderingContext${samplers.length ? ", Texture" : ""} } from "ogl"`)
+  }
+  push("", `export const vertex = /* glsl */ ${templateLiteral(options.vertex)}`, "")
+  push(`export const fragment = /* glsl */ ${templateLiteral(options.fragment)}`, "")
+
+  if (ts) {
+    push("export interface ShaderUniforms {")
+    for (const uniform of settable) {
+      if (uniform.runtime) push(`  /** ${RUNTIME_NOTE} */`)
+      push(`  ${uniform.name}: ${tsType(uniform.value, uniform.type)}`)
+    }
+    push("}", "")
+  }
+  push(`export const uniformDefaults${ts ? ": ShaderUniforms" : ""} = {`)
+  for (const uniform of settable) {
+    push(`  ${uniform.name}: ${literal(uniform.value)},${!ts && uniform.runtime ? ` // ${RUNTIME_NOTE}` : ""}`)
+  }
+  push("}", "")
+
+  const textureType = target === "ogl" ? "Texture" : "WebGLTexture"
+  if (ts && samplers.length) {
+    push("export interface ShaderTextures {")
+    for (const sampler of samplers) push(`  ${sampler.name}: ${textureType}`)
+    push("}", "")
+  }
+  // The textures parameter only exists when the shaders sample something
+  const texturesParam = samplers.length ? `textures${ts ? ": ShaderTextures" : ""}, ` : ""
+  const texturesArg = samplers.length ? "textures, " : ""
+  const valuesParam = `values${ts ? ": Partial<ShaderUniforms>" : ""} = {}`
+
+  if (target === "ogl") {
+    push(
+      "/** A Program with the shaders; `values` override the uniform defaults. */",
+      `export function createProgram(gl${ts ? ": OGLRenderingContext" : ""}, ${texturesParam}${valuesParam}) {`,
+      `  const uniforms${ts ? ": Record<string, { value: unknown }>" : ""} = {}`,
+      "  for (const [name, value] of Object.entries({ ...uniformDefaults, ...values })) {",
+      "    uniforms[name] = { value: Array.isArray(value) ? [...value] : value }",
+      "  }",
+    )
+    if (samplers.length) push("  for (const [name, texture] of Object.entries(textures)) uniforms[name] = { value: texture }")
+    push(
+      "  return new Program(gl, { vertex, fragment, uniforms })",
+      "}",
+      "",
+      "/** A Mesh drawing `geometry` (position, normal and uv attributes) with the shaders. */",
+      `export function createMesh(gl${ts ? ": OGLRenderingContext" : ""}, geometry${ts ? ": Geometry" : ""}, ${texturesParam}${valuesParam}) {`,
+      `  return new Mesh(gl, { geometry, program: createProgram(gl, ${texturesArg}values) })`,
+      "}",
+    )
+    return lines.join("\n") + "\n"
+  }
+
+  const gl = `gl${ts ? ": WebGLRenderingContext | WebGL2RenderingContext" : ""}`
+  push(`const uniformTypes${ts ? ": Record<string, string>" : ""} = {`)
+  for (const uniform of settable) push(`  ${uniform.name}: "${uniform.type}",`)
+  push("}", "")
+  if (samplers.length) {
+    push(`const samplerTypes${ts ? ": Record<string, string>" : ""} = {`)
+    for (const sampler of samplers) push(`  ${sampler.name}: "${sampler.type}",`)
+    push("}", "")
+  }
+  push(
+    `function compile(${gl}, type${ts ? ": number" : ""}, source${ts ? ": string" : ""}) {`,
+    "  const shader = gl.createShader(type)",
+    '  if (!shader) throw new Error("Could not create a shader")',
+    "  gl.shaderSource(shader, source)",
+    "  gl.compileShader(shader)",
+    "  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) ?? \"Shader compilation failed\")",
+    "  return shader",
+    "}",
+    "",
+    "/** Compiles and links the shaders; throws with the driver's log if that fails. */",
+    `export function createProgram(${gl}) {`,
+    "  const program = gl.createProgram()",
+    '  if (!program) throw new Error("Could not create a program")',
+    "  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, vertex))",
+    "  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, fragment))",
+    "  gl.linkProgram(program)",
+    "  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(gl.getProgramInfoLog(program) ?? \"Program linking failed\")",
+    "  return program",
+    "}",
+    "",
+    "/**",
+    " * Sets the uniforms on `program`, which must be in use: the defaults with",
+    ` * \`values\` applied${samplers.length ? ", and `textures` bound to texture units in declaration order" : ""}.`,
+    " */",
+    `export function setUniforms(${gl}, program${ts ? ": WebGLProgram" : ""}, ${texturesParam}${valuesParam}) {`,
+    "  for (const [name, value] of Object.entries({ ...uniformDefaults, ...values })) {",
+    "    const location = gl.getUniformLocation(program, name)",
+    "    if (!location) continue",
+    `    const data = (Array.isArray(value) ? value : [Number(value)])${ts ? " as number[]" : ""}`,
+    "    switch (uniformTypes[name]) {",
+    "      case \"int\": case \"bool\": gl.uniform1iv(location, data); break",
+    "      case \"ivec2\": gl.uniform2iv(location, data); break",
+    "      case \"ivec3\": gl.uniform3iv(location, data); break",
+    "      case \"ivec4\": gl.uniform4iv(location, data); break",
+    "      case \"vec2\": gl.uniform2fv(location, data); break",
+    "      case \"vec3\": gl.uniform3fv(location, data); break",
+    "      case \"vec4\": gl.uniform4fv(location, data); break",
+    "      case \"mat2\": gl.uniformMatrix2fv(location, false, data); break",
+    "      case \"mat3\": gl.uniformMatrix3fv(location, false, data); break",
+    "      case \"mat4\": gl.uniformMatrix4fv(location, false, data); break",
+    "      default: gl.uniform1fv(location, data)",
+    "    }",
+    "  }",
+  )
+  if (samplers.length) {
+    push(
+      "  Object.entries(textures).forEach(([name, texture], unit) => {",
+      "    gl.activeTexture(gl.TEXTURE0 + unit)",
+      "    gl.bindTexture(samplerTypes[name] === \"samplerCube\" ? gl.TEXTURE_CUBE_MAP : gl.TEXTURE_2D, texture)",
+      "    gl.uniform1i(gl.getUniformLocation(program, name), unit)",
+      "  })",
+    )
+  }
+  push("}")
+  return lines.join("\n") + "\n"
+}
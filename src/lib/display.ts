@@ -0,0 +1,63 @@
+/**
+ * Preview display settings: the canvas's render scale and pixel ratio, and
+ * the shape of the preview (filling the pane, an aspect ratio, or a fixed
+ * pixel size letterboxed into it).
+ */
+import type { DisplaySettings } from "@/lib/runtime/protocol"
+
+export type AspectPreset = "fill" | "16:9" | "1:1" | "9:16" | "custom"
+
+export interface PreviewDisplay {
+  /** Canvas pixels per CSS pixel, before the device pixel ratio. */
+  scale: number
+  devicePixelRatio: boolean
+  aspect: AspectPreset
+  /** Canvas size in pixels for the "custom" aspect. */
+  size: { width: number; height: number }
+}
+
+export const DEFAULT_DISPLAY: PreviewDisplay = { scale: 1, devicePixelRatio: true, aspect: "fill", size: { width: 1280, height: 720 } }
+
+export const RENDER_SCALES = [0.25, 0.5, 0.75, 1, 1.5, 2]
+
+export const ASPECT_LABELS: Record<AspectPreset, string> = {
+  fill: "Fill pane",
+  "16:9": "16:9",
+  "1:1": "1:1",
+  "9:16": "9:16",
+  custom: "Custom pixels",
+}
+
+/** Width over height of the preview, or null when it fills the pane. */
+export function aspectRatio({ aspect, size }: PreviewDisplay) {
+  switch (aspect) {
+    case "fill":
+      return null
+    case "custom":
+      return size.width / size.height
+    default: {
+      const [width, height] = aspect.split(":").map(Number)
+      return width / height
+    }
+  }
+}
+
+/** What the frame needs to size its canvas. A custom size ignores scale and pixel ratio. */
+export function frameDisplay(display: PreviewDisplay): DisplaySettings {
+  return {
+    scale: display.scale,
+    devicePixelRatio: display.devicePixelRatio,
+    size: display.aspect === "custom" ? display.size : null,
+  }
+}
+
+/**
+ * Inline style for the box holding the preview frame: the largest box of
+ * the preview's aspect that fits its parent, which must be a size
+ * container (`container-type: size`) centring it.
+ */
+export function previewBoxStyle(display: PreviewDisplay): Record<string, string> {
+  const ratio = aspectRatio(display)
+  if (ratio === null) return { position: "absolute", inset: "0" }
+  return { position: "relative", width: `min(100cqw, 100cqh * ${ratio})`, aspectRatio: String(ratio) }
+}
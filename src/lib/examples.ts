@@ -1,13 +1,17 @@
 export const defaultVertexShader = `attribute vec3 position;
+attribute vec3 normal;
 attribute vec2 uv;
 
 uniform mat4 modelViewMatrix;
 uniform mat4 projectionMatrix;
+uniform mat3 normalMatrix;
 
 varying vec2 vUv;
+varying vec3 vNormal;
 
 void main() {
   vUv = uv;
+  vNormal = normalize(normalMatrix * normal);
   gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
 }`
 
@@ -36,15 +40,10 @@ void main() {
   gl_FragColor = vec4(color, 1.0);
 }`
 
-export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implementation
+export const rawJavaScript = `// WebGL setup without OGL - Pure WebGL implementation
 (function() {
   'use strict';
   
-  // Stop any existing animation
-  if (window.currentAnimationFrame) {
-    cancelAnimationFrame(window.currentAnimationFrame);
-  }
-  
   const canvas = document.getElementById('glCanvas');
   if (!canvas) {
     console.error('Canvas element not found');
@@ -58,9 +57,13 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     return;
   }
 
-  // Set canvas size
-  canvas.width = canvas.clientWidth;
-  canvas.height = canvas.clientHeight;
+  // Lets shaders (e.g. Shadertoy ones) use dFdx/dFdy/fwidth
+  gl.getExtension('OES_standard_derivatives');
+
+  // Set canvas size, following the preview's render scale and pixel ratio
+  const size = runtime.resolution();
+  canvas.width = size.width;
+  canvas.height = size.height;
   gl.viewport(0, 0, canvas.width, canvas.height);
 
   // Vertex data for a full-screen quad
@@ -83,7 +86,8 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     gl.compileShader(shader);
     
     if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      console.error('Shader compilation error:', gl.getShaderInfoLog(shader));
+      const stage = type === gl.VERTEX_SHADER ? 'Vertex' : 'Fragment';
+      console.error(stage + ' shader compilation error:', gl.getShaderInfoLog(shader));
       gl.deleteShader(shader);
       return null;
     }
@@ -97,6 +101,8 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
     
     if (!vertexShader || !fragmentShader) {
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
       return null;
     }
     
@@ -104,6 +110,10 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     gl.attachShader(program, vertexShader);
     gl.attachShader(program, fragmentShader);
     gl.linkProgram(program);
+
+    // The program keeps what it needs; free the shaders along with it
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
     
     if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
       console.error('Program linking error:', gl.getProgramInfoLog(program));
@@ -114,30 +124,54 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     return program;
   }
 
-  // Create the shader program
-  const program = createProgram(gl, \`\${vertexShader}\`, \`\${fragmentShader}\`);
+  // Current program and its locations; replaced when the shaders are edited live
+  let program = null;
+  let locations = null;
 
-  if (!program) {
+  function useProgram(vertexSource, fragmentSource) {
+    const nextProgram = createProgram(gl, vertexSource, fragmentSource);
+    if (!nextProgram) {
+      return false;
+    }
+
+    if (program) {
+      gl.deleteProgram(program);
+    }
+    program = nextProgram;
+
+    // Get attribute and uniform locations
+    locations = {
+      position: gl.getAttribLocation(program, 'position'),
+      uv: gl.getAttribLocation(program, 'uv'),
+      time: gl.getUniformLocation(program, 'time'),
+      resolution: gl.getUniformLocation(program, 'resolution'),
+      mouse: gl.getUniformLocation(program, 'mouse'),
+      modelViewMatrix: gl.getUniformLocation(program, 'modelViewMatrix'),
+      projectionMatrix: gl.getUniformLocation(program, 'projectionMatrix')
+    };
+    return true;
+  }
+
+  // Create the shader program
+  if (!useProgram(\`\${vertexShader}\`, \`\${fragmentShader}\`)) {
     console.error('Failed to create shader program');
     return;
   }
 
-  // Get attribute and uniform locations
-  const positionLocation = gl.getAttribLocation(program, 'position');
-  const uvLocation = gl.getAttribLocation(program, 'uv');
-  const timeLocation = gl.getUniformLocation(program, 'time');
-  const resolutionLocation = gl.getUniformLocation(program, 'resolution');
-  const mouseLocation = gl.getUniformLocation(program, 'mouse');
-  const modelViewMatrixLocation = gl.getUniformLocation(program, 'modelViewMatrix');
-  const projectionMatrixLocation = gl.getUniformLocation(program, 'projectionMatrix');
+  // Live shader edits: swap the program in place, or keep the current one
+  // (and the current frame on screen) if the new shaders don't compile
+  runtime.onShaderUpdate(function(shaders) {
+    return useProgram(shaders.vertex, shaders.fragment);
+  });
 
   // Mouse tracking
   let mouse = { x: 0, y: 0 };
   
   function handleMouseMove(e) {
+    // In canvas pixels, like resolution
     const rect = canvas.getBoundingClientRect();
-    mouse.x = e.clientX - rect.left;
-    mouse.y = canvas.height - (e.clientY - rect.top);
+    mouse.x = (e.clientX - rect.left) * canvas.width / rect.width;
+    mouse.y = canvas.height - (e.clientY - rect.top) * canvas.height / rect.height;
   }
   
   canvas.addEventListener('mousemove', handleMouseMove);
@@ -152,14 +186,20 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     ];
   }
 
-  // Render function
-  function render(time) {
-    // Resize canvas if needed
-    if (canvas.width !== canvas.clientWidth || canvas.height !== canvas.clientHeight) {
-      canvas.width = canvas.clientWidth;
-      canvas.height = canvas.clientHeight;
-      gl.viewport(0, 0, canvas.width, canvas.height);
+  // Render function, called every frame with the runtime's clock
+  function render(clock) {
+    // Resize canvas if needed; captures size it to each tile themselves
+    const size = runtime.resolution();
+    if (!runtime.capture && (canvas.width !== size.width || canvas.height !== size.height)) {
+      canvas.width = size.width;
+      canvas.height = size.height;
     }
+
+    // Render Buffer A-D (if any) so the Image pass can sample them
+    runtime.renderBuffers(gl);
+
+    // The whole canvas, or the current tile's share of a capture
+    runtime.viewport(gl);
     
     // Clear canvas
     gl.clearColor(0, 0, 0, 1);
@@ -171,52 +211,196 @@ export const defaultJavaScript = `// WebGL setup without OGL - Pure WebGL implem
     // Set up attributes
     gl.bindBuffer(gl.ARRAY_BUFFER, vertexBuffer);
     
-    if (positionLocation >= 0) {
-      gl.enableVertexAttribArray(positionLocation);
-      gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 16, 0);
+    if (locations.position >= 0) {
+      gl.enableVertexAttribArray(locations.position);
+      gl.vertexAttribPointer(locations.position, 2, gl.FLOAT, false, 16, 0);
     }
     
-    if (uvLocation >= 0) {
-      gl.enableVertexAttribArray(uvLocation);
-      gl.vertexAttribPointer(uvLocation, 2, gl.FLOAT, false, 16, 8);
+    if (locations.uv >= 0) {
+      gl.enableVertexAttribArray(locations.uv);
+      gl.vertexAttribPointer(locations.uv, 2, gl.FLOAT, false, 16, 8);
     }
     
     // Set uniforms
-    if (timeLocation) {
-      gl.uniform1f(timeLocation, time * 0.001);
+    if (locations.time) {
+      gl.uniform1f(locations.time, clock.time);
     }
     
-    if (resolutionLocation) {
-      gl.uniform2f(resolutionLocation, canvas.width, canvas.height);
+    if (locations.resolution) {
+      gl.uniform2f(locations.resolution, canvas.width, canvas.height);
     }
     
-    if (mouseLocation) {
-      gl.uniform2f(mouseLocation, mouse.x, mouse.y);
+    if (locations.mouse) {
+      gl.uniform2f(locations.mouse, mouse.x, mouse.y);
     }
     
-    if (modelViewMatrixLocation) {
-      gl.uniformMatrix4fv(modelViewMatrixLocation, false, createIdentityMatrix());
+    if (locations.modelViewMatrix) {
+      gl.uniformMatrix4fv(locations.modelViewMatrix, false, createIdentityMatrix());
     }
     
-    if (projectionMatrixLocation) {
-      gl.uniformMatrix4fv(projectionMatrixLocation, false, createIdentityMatrix());
+    if (locations.projectionMatrix) {
+      gl.uniformMatrix4fv(locations.projectionMatrix, false, createIdentityMatrix());
     }
+
+    // Custom uniforms from the editor's uniform panel, plus Shadertoy inputs
+    runtime.applyUniforms(gl, program);
     
     // Draw
     gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
-    
-    window.currentAnimationFrame = requestAnimationFrame(render);
   }
 
-  // Start rendering
-  window.currentAnimationFrame = requestAnimationFrame(render);
+  // Start rendering; the runtime stops the loop when the sketch stops
+  runtime.loop(render);
   
   // Cleanup function for when shader stops
-  window.cleanupShader = function() {
-    if (window.currentAnimationFrame) {
-      cancelAnimationFrame(window.currentAnimationFrame);
-      window.currentAnimationFrame = null;
-    }
+  runtime.onCleanup(function() {
     canvas.removeEventListener('mousemove', handleMouseMove);
-  };
-})();`
\ No newline at end of file
+  });
+})();`
+
+export const oglJavaScript = `// OGL setup: the shaders on the geometry picked above the preview, with
+// orbit controls (drag to rotate, scroll to zoom). The library is available
+// as the global \`OGL\`.
+(function() {
+  'use strict';
+
+  const { Renderer, Camera, Transform, Program, Mesh, Geometry, Plane, Box, Sphere, Torus, Orbit } = OGL;
+
+  const canvas = runtime.canvas;
+  const renderer = new Renderer({ canvas, dpr: runtime.resolution().pixelRatio });
+  const gl = renderer.gl;
+  gl.clearColor(0, 0, 0, 1);
+
+  // Lets shaders (e.g. Shadertoy ones) use dFdx/dFdy/fwidth
+  renderer.getExtension('OES_standard_derivatives');
+
+  const camera = new Camera(gl, { fov: 35 });
+  camera.position.set(0, 0, 3.2);
+  const controls = new Orbit(camera, { element: canvas });
+
+  const scene = new Transform();
+
+  // Builds a program, or returns null (keeping the console's compiler log) if it fails
+  function createProgram(vertex, fragment) {
+    const program = new Program(gl, {
+      vertex,
+      fragment,
+      // time, resolution, mouse, the Shadertoy inputs and the uniform panel's
+      // values; OGL adds the camera matrices itself
+      uniforms: runtime.oglUniforms(gl),
+      cullFace: false
+    });
+    if (!gl.getProgramParameter(program.program, gl.LINK_STATUS)) {
+      program.remove();
+      return null;
+    }
+    return program;
+  }
+
+  const program = createProgram(\`\${vertexShader}\`, \`\${fragmentShader}\`);
+  if (!program) {
+    console.error('Failed to create shader program');
+    return;
+  }
+
+  // position, normal and uv attributes for runtime.geometry
+  function createGeometry(source) {
+    switch (source.type) {
+      case 'cube':
+        return new Box(gl, { width: 1.2, height: 1.2, depth: 1.2 });
+      case 'sphere':
+        return new Sphere(gl, { radius: 1, widthSegments: 64, heightSegments: 32 });
+      case 'torus':
+        return new Torus(gl, { radius: 0.7, tube: 0.3, radialSegments: 32, tubularSegments: 96 });
+      case 'model': {
+        const { position, normal, uv, index } = source.attributes;
+        const vertexCount = position.length / 3;
+        return new Geometry(gl, {
+          position: { size: 3, data: new Float32Array(position) },
+          normal: { size: 3, data: new Float32Array(normal) },
+          uv: { size: 2, data: new Float32Array(uv) },
+          index: { data: vertexCount > 65535 ? new Uint32Array(index) : new Uint16Array(index) }
+        });
+      }
+      default:
+        return new Plane(gl, { width: 2, height: 2 });
+    }
+  }
+
+  const mesh = new Mesh(gl, { geometry: createGeometry(runtime.geometry), program });
+  mesh.setParent(scene);
+
+  runtime.onGeometryChange(function(source) {
+    const previous = mesh.geometry;
+    mesh.geometry = createGeometry(source);
+    previous.remove();
+  });
+
+  // Live shader edits: swap the program in place, or keep the current one
+  runtime.onShaderUpdate(function(shaders) {
+    const next = createProgram(shaders.vertex, shaders.fragment);
+    if (!next) {
+      return false;
+    }
+    mesh.program.remove();
+    mesh.program = next;
+    return true;
+  });
+
+  // Follows the preview's render scale and pixel ratio, which fire a resize when changed
+  function resize() {
+    renderer.dpr = runtime.resolution().pixelRatio;
+    renderer.setSize(canvas.parentElement.clientWidth, canvas.parentElement.clientHeight);
+    camera.perspective({ aspect: gl.canvas.width / gl.canvas.height });
+  }
+  window.addEventListener('resize', resize);
+  resize();
+
+  runtime.loop(function() {
+    // Held still while capturing, so every tile sees the same camera
+    if (!runtime.capture) controls.update();
+    // Render Buffer A-D (if any) so the Image pass can sample them
+    runtime.renderBuffers(gl);
+
+    // A tile of a still from the capture dialog: render at the tile's size,
+    // with the projection narrowed to its part of the image. The runtime
+    // fires a resize afterwards, which restores the preview's size.
+    const tile = runtime.capture;
+    if (tile) {
+      renderer.dpr = 1;
+      renderer.setSize(tile.tileWidth, tile.tileHeight);
+      camera.perspective({ aspect: tile.width / tile.height });
+      runtime.tileProjection(camera.projectionMatrix);
+    }
+
+    renderer.render({ scene, camera });
+  });
+
+  runtime.onCleanup(function() {
+    window.removeEventListener('resize', resize);
+    controls.remove();
+  });
+})();`
+
+export type SketchTemplate = "ogl" | "raw"
+
+export const sketchTemplates: Record<SketchTemplate, { label: string; code: string }> = {
+  ogl: { label: "OGL", code: oglJavaScript },
+  raw: { label: "Raw WebGL", code: rawJavaScript },
+}
+
+export const defaultJavaScript = oglJavaScript
+
+export const defaultShadertoyShader = `// Shadertoy mode: write mainImage() as on shadertoy.com.
+// iTime, iTimeDelta, iFrame, iResolution, iMouse, iDate and iChannel0-3 are provided.
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+  vec2 uv = fragCoord / iResolution.xy;
+  vec3 col = 0.5 + 0.5 * cos(iTime + uv.xyx + vec3(0.0, 2.0, 4.0));
+
+  // Brighten around the last click while the button is held
+  if (iMouse.z > 0.0) {
+    col += 0.3 * smoothstep(80.0, 0.0, distance(fragCoord, iMouse.xy));
+  }
+
+  fragColor = vec4(col, 1.0);
+}`
@@ -0,0 +1,345 @@
+import type { GeometrySource, MeshAttributes, PrimitiveType } from "@/lib/runtime/protocol"
+
+export const PRIMITIVES: { type: PrimitiveType; label: string }[] = [
+  { type: "plane", label: "Plane" },
+  { type: "cube", label: "Cube" },
+  { type: "sphere", label: "Sphere" },
+  { type: "torus", label: "Torus" },
+]
+
+export const DEFAULT_GEOMETRY: GeometrySource = { type: "plane" }
+
+export const MODEL_FILE_TYPES = ".obj,.gltf,.glb"
+
+type Mat4 = number[]
+
+const identity: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]
+
+function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array<number>(16)
+  for (let column = 0; column < 4; column++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[column * 4 + k]
+      out[column * 4 + row] = sum
+    }
+  }
+  return out
+}
+
+/** Column-major matrix from a glTF node's translation, rotation (quaternion) and scale. */
+function compose(t = [0, 0, 0], r = [0, 0, 0, 1], s = [1, 1, 1]): Mat4 {
+  const [x, y, z, w] = r
+  const [sx, sy, sz] = s
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    t[0], t[1], t[2], 1,
+  ]
+}
+
+function transformPoint(m: Mat4, x: number, y: number, z: number, w: number) {
+  return [
+    m[0] * x + m[4] * y + m[8] * z + m[12] * w,
+    m[1] * x + m[5] * y + m[9] * z + m[13] * w,
+    m[2] * x + m[6] * y + m[10] * z + m[14] * w,
+  ]
+}
+
+const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+
+/**
+ * The matrix normals go through: the inverse-transpose of `m`'s upper 3x3,
+ * which keeps them perpendicular to their surface under non-uniform scale.
+ */
+function normalMatrix(m: Mat4): Mat4 {
+  const columns = [m.slice(0, 3), m.slice(4, 7), m.slice(8, 11)]
+  // Columns of the cofactor matrix, which is the inverse-transpose times the determinant
+  const [c0, c1, c2] = [cross(columns[1], columns[2]), cross(columns[2], columns[0]), cross(columns[0], columns[1])]
+  const det = columns[0][0] * c0[0] + columns[0][1] * c0[1] + columns[0][2] * c0[2] || 1
+  return [...c0.map((v) => v / det), 0, ...c1.map((v) => v / det), 0, ...c2.map((v) => v / det), 0, 0, 0, 0, 1]
+}
+
+/** Smooth vertex normals, area-weighted from the faces around each vertex. */
+function computeNormals(position: number[], index: number[]) {
+  const normal = new Array<number>(position.length).fill(0)
+  for (let i = 0; i < index.length; i += 3) {
+    const [a, b, c] = [index[i] * 3, index[i + 1] * 3, index[i + 2] * 3]
+    const e1 = [position[b] - position[a], position[b + 1] - position[a + 1], position[b + 2] - position[a + 2]]
+    const e2 = [position[c] - position[a], position[c + 1] - position[a + 1], position[c + 2] - position[a + 2]]
+    const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]]
+    for (const vertex of [a, b, c]) {
+      normal[vertex] += n[0]
+      normal[vertex + 1] += n[1]
+      normal[vertex + 2] += n[2]
+    }
+  }
+  for (let i = 0; i < normal.length; i += 3) {
+    const length = Math.hypot(normal[i], normal[i + 1], normal[i + 2]) || 1
+    normal[i] /= length
+    normal[i + 1] /= length
+    normal[i + 2] /= length
+  }
+  return normal
+}
+
+/** Centers the mesh on the origin and scales it to fit a unit sphere, like the built-in primitives. */
+function normalize(position: number[]) {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < position.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], position[i])
+    max[i % 3] = Math.max(max[i % 3], position[i])
+  }
+  const center = min.map((value, axis) => (value + max[axis]) / 2)
+  let radius = 0
+  for (let i = 0; i < position.length; i += 3) {
+    radius = Math.max(radius, Math.hypot(position[i] - center[0], position[i + 1] - center[1], position[i + 2] - center[2]))
+  }
+  const scale = radius > 0 ? 1 / radius : 1
+  return position.map((value, i) => (value - center[i % 3]) * scale)
+}
+
+// push(...values) overflows the stack for large meshes
+function append(target: number[], values: number[]) {
+  for (const value of values) target.push(value)
+}
+
+function finish(position: number[], normal: number[] | null, uv: number[] | null, index: number[]): MeshAttributes {
+  if (index.length === 0) throw new Error("The model has no triangles")
+  return {
+    position: normalize(position),
+    normal: normal ?? computeNormals(position, index),
+    uv: uv ?? new Array<number>((position.length / 3) * 2).fill(0),
+    index,
+  }
+}
+
+/** Parses a Wavefront OBJ file; polygons are fanned into triangles. */
+export function parseOBJ(text: string): MeshAttributes {
+  const positions: number[][] = []
+  const uvs: number[][] = []
+  const normals: number[][] = []
+  const position: number[] = []
+  const uv: number[] = []
+  const normal: number[] = []
+  const index: number[] = []
+  // One output vertex per distinct v/vt/vn combination
+  const vertices = new Map<string, number>()
+  let hasUv = false
+  let hasNormal = false
+
+  // OBJ indices are 1-based, or negative to count back from the latest element
+  const resolve = (value: string, list: number[][]) => {
+    const number = parseInt(value, 10)
+    return list[number < 0 ? list.length + number : number - 1]
+  }
+
+  const vertexIndex = (key: string) => {
+    const existing = vertices.get(key)
+    if (existing !== undefined) return existing
+
+    const [v, vt, vn] = key.split("/")
+    const p = resolve(v, positions)
+    if (!p) throw new Error(`OBJ face references missing vertex ${v}`)
+    const t = vt ? resolve(vt, uvs) : undefined
+    const n = vn ? resolve(vn, normals) : undefined
+    hasUv ||= !!t
+    hasNormal ||= !!n
+
+    position.push(p[0], p[1], p[2])
+    uv.push(t?.[0] ?? 0, t?.[1] ?? 0)
+    normal.push(n?.[0] ?? 0, n?.[1] ?? 0, n?.[2] ?? 0)
+    vertices.set(key, vertices.size)
+    return vertices.size - 1
+  }
+
+  for (const raw of text.split(/\r?\n/)) {
+    const [keyword, ...args] = raw.trim().split(/\s+/)
+    if (keyword === "v") positions.push(args.slice(0, 3).map(Number))
+    else if (keyword === "vt") uvs.push(args.slice(0, 2).map(Number))
+    else if (keyword === "vn") normals.push(args.slice(0, 3).map(Number))
+    else if (keyword === "f" && args.length >= 3) {
+      const face = args.map(vertexIndex)
+      for (let i = 1; i < face.length - 1; i++) index.push(face[0], face[i], face[i + 1])
+    }
+  }
+
+  return finish(position, hasNormal ? normal : null, hasUv ? uv : null, index)
+}
+
+interface GLTFAccessor {
+  bufferView?: number
+  byteOffset?: number
+  componentType: number
+  count: number
+  type: string
+  normalized?: boolean
+}
+
+interface GLTFPrimitive {
+  attributes: Record<string, number>
+  indices?: number
+  mode?: number
+}
+
+interface GLTFNode {
+  mesh?: number
+  children?: number[]
+  matrix?: number[]
+  translation?: number[]
+  rotation?: number[]
+  scale?: number[]
+}
+
+interface GLTFDocument {
+  buffers?: { uri?: string; byteLength: number }[]
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[]
+  accessors?: GLTFAccessor[]
+  meshes?: { primitives: GLTFPrimitive[] }[]
+  nodes?: GLTFNode[]
+  scenes?: { nodes?: number[] }[]
+  scene?: number
+}
+
+const componentCounts: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4 }
+
+const componentTypes: Record<number, { size: number; read: (view: DataView, offset: number) => number; max: number }> = {
+  5120: { size: 1, read: (view, offset) => view.getInt8(offset), max: 127 },
+  5121: { size: 1, read: (view, offset) => view.getUint8(offset), max: 255 },
+  5122: { size: 2, read: (view, offset) => view.getInt16(offset, true), max: 32767 },
+  5123: { size: 2, read: (view, offset) => view.getUint16(offset, true), max: 65535 },
+  5125: { size: 4, read: (view, offset) => view.getUint32(offset, true), max: 1 },
+  5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true), max: 1 },
+}
+
+function decodeDataURI(uri: string) {
+  const base64 = uri.slice(uri.indexOf(",") + 1)
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  return bytes.buffer
+}
+
+function splitGLB(data: ArrayBuffer): { json: GLTFDocument; binary?: ArrayBuffer } {
+  const view = new DataView(data)
+  let offset = 12
+  let json: GLTFDocument | null = null
+  let binary: ArrayBuffer | undefined
+
+  while (offset < data.byteLength) {
+    const length = view.getUint32(offset, true)
+    const type = view.getUint32(offset + 4, true)
+    const chunk = data.slice(offset + 8, offset + 8 + length)
+    if (type === 0x4e4f534a) json = JSON.parse(new TextDecoder().decode(chunk))
+    else if (type === 0x004e4942) binary = chunk
+    offset += 8 + length
+  }
+
+  if (!json) throw new Error("GLB file has no JSON chunk")
+  return { json, binary }
+}
+
+/**
+ * Parses a glTF 2.0 model (.glb, or .gltf with embedded buffers) into one
+ * mesh: every triangle primitive in the default scene, with node transforms
+ * applied.
+ */
+export function parseGLTF(data: ArrayBuffer): MeshAttributes {
+  const isBinary = new DataView(data).getUint32(0, true) === 0x46546c67
+  const { json, binary } = isBinary ? splitGLB(data) : { json: JSON.parse(new TextDecoder().decode(data)) as GLTFDocument, binary: undefined }
+
+  const buffers = (json.buffers ?? []).map((buffer, index) => {
+    if (!buffer.uri) {
+      if (index === 0 && binary) return binary
+      throw new Error("glTF buffer has no data")
+    }
+    if (!buffer.uri.startsWith("data:")) {
+      throw new Error(`External glTF buffer "${buffer.uri}" can't be loaded; use a .glb or a .gltf with embedded buffers`)
+    }
+    return decodeDataURI(buffer.uri)
+  })
+
+  const readAccessor = (accessorIndex: number) => {
+    const accessor = json.accessors?.[accessorIndex]
+    if (!accessor) throw new Error(`glTF accessor ${accessorIndex} is missing`)
+    const components = componentCounts[accessor.type]
+    const component = componentTypes[accessor.componentType]
+    const values = new Array<number>(accessor.count * components).fill(0)
+    // Accessors without a buffer view are all zeros (sparse data is not supported)
+    if (accessor.bufferView === undefined) return values
+
+    const bufferView = json.bufferViews![accessor.bufferView]
+    const view = new DataView(buffers[bufferView.buffer])
+    const stride = bufferView.byteStride ?? components * component.size
+    const start = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0)
+    for (let i = 0; i < accessor.count; i++) {
+      for (let c = 0; c < components; c++) {
+        const value = component.read(view, start + i * stride + c * component.size)
+        values[i * components + c] = accessor.normalized ? Math.max(value / component.max, -1) : value
+      }
+    }
+    return values
+  }
+
+  const position: number[] = []
+  const normal: number[] = []
+  const uv: number[] = []
+  const index: number[] = []
+  let allNormals = true
+
+  const addPrimitive = (primitive: GLTFPrimitive, matrix: Mat4) => {
+    if ((primitive.mode ?? 4) !== 4 || primitive.attributes.POSITION === undefined) return
+
+    const base = position.length / 3
+    const points = readAccessor(primitive.attributes.POSITION)
+    const count = points.length / 3
+    for (let i = 0; i < points.length; i += 3) {
+      position.push(...transformPoint(matrix, points[i], points[i + 1], points[i + 2], 1))
+    }
+
+    if (primitive.attributes.NORMAL !== undefined) {
+      const normals = readAccessor(primitive.attributes.NORMAL)
+      const transform = normalMatrix(matrix)
+      for (let i = 0; i < normals.length; i += 3) {
+        const [x, y, z] = transformPoint(transform, normals[i], normals[i + 1], normals[i + 2], 0)
+        const length = Math.hypot(x, y, z) || 1
+        normal.push(x / length, y / length, z / length)
+      }
+    } else {
+      allNormals = false
+      append(normal, new Array<number>(count * 3).fill(0))
+    }
+
+    append(uv, primitive.attributes.TEXCOORD_0 !== undefined
+      ? readAccessor(primitive.attributes.TEXCOORD_0)
+      : new Array<number>(count * 2).fill(0))
+
+    const indices = primitive.indices !== undefined ? readAccessor(primitive.indices) : Array.from({ length: count }, (_, i) => i)
+    append(index, indices.map((value) => value + base))
+  }
+
+  const visit = (nodeIndex: number, parent: Mat4) => {
+    const node = json.nodes?.[nodeIndex]
+    if (!node) return
+    const matrix = multiply(parent, node.matrix ?? compose(node.translation, node.rotation, node.scale))
+    if (node.mesh !== undefined) json.meshes?.[node.mesh]?.primitives.forEach((primitive) => addPrimitive(primitive, matrix))
+    node.children?.forEach((child) => visit(child, matrix))
+  }
+
+  const scene = json.scenes?.[json.scene ?? 0]
+  if (scene) scene.nodes?.forEach((node) => visit(node, identity))
+  else json.meshes?.forEach((mesh) => mesh.primitives.forEach((primitive) => addPrimitive(primitive, identity)))
+
+  return finish(position, allNormals ? normal : null, uv, index)
+}
+
+/** Reads an OBJ, glTF or GLB file into a geometry the preview can draw. */
+export async function loadModel(file: File): Promise<GeometrySource> {
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  let attributes: MeshAttributes
+  if (extension === "obj") attributes = parseOBJ(await file.text())
+  else if (extension === "gltf" || extension === "glb") attributes = parseGLTF(await file.arrayBuffer())
+  else throw new Error(`${file.name} is not an OBJ, glTF or GLB file`)
+
+  return { type: "model", name: file.name, attributes }
+}
@@ -0,0 +1,93 @@
+/**
+ * Main-thread side of the GLSL analysis: sends shaders to the worker, shows
+ * what it finds as Monaco warnings, and keeps each warning's fixes for the
+ * `glsl` code action provider.
+ */
+import type { Monaco } from "@monaco-editor/react"
+import type { editor, IRange, languages } from "monaco-editor"
+import type { AnalysisRequest, AnalysisResponse } from "@/lib/glsl/analysis.worker"
+import type { AnalysisDiagnostic, ShaderInput } from "@/lib/glsl/checker"
+
+/** Marker owner of the analysis warnings, apart from the driver's 'glsl-compiler' ones. */
+export const ANALYSIS_OWNER = "glsl-analysis"
+
+let worker: Worker | null = null
+let nextId = 0
+let pending: { id: number; resolve: (diagnostics: AnalysisDiagnostic[][] | null) => void } | null = null
+
+/**
+ * Checks `shaders` in the analysis worker, one diagnostics list per shader.
+ * Only the latest call gets results: one still waiting when another is
+ * made resolves to null.
+ */
+export function analyzeShaders(shaders: ShaderInput[]): Promise<AnalysisDiagnostic[][] | null> {
+  if (!worker) {
+    worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" })
+    worker.addEventListener("message", (event: MessageEvent<AnalysisResponse>) => {
+      if (event.data.id !== pending?.id) return
+      pending.resolve(event.data.diagnostics)
+      pending = null
+    })
+  }
+  pending?.resolve(null)
+  const id = ++nextId
+  return new Promise((resolve) => {
+    pending = { id, resolve }
+    worker!.postMessage({ id, shaders } satisfies AnalysisRequest)
+  })
+}
+
+interface ModelFixes {
+  /** Model version the fixes' ranges refer to. */
+  versionId: number
+  fixes: Map<string, { title: string; edits: languages.TextEdit[] }[]>
+}
+
+const modelFixes = new WeakMap<editor.ITextModel, ModelFixes>()
+
+// Code actions get markers back as plain data; their range and message find the fixes
+const markerKey = (marker: IRange & { message: string }) =>
+  `${marker.startLineNumber}:${marker.startColumn}:${marker.endLineNumber}:${marker.endColumn}:${marker.message}`
+
+/** Shows `diagnostics`, computed for the model's current text, as warnings on it. */
+export function setAnalysisMarkers(monaco: Monaco, model: editor.ITextModel, diagnostics: AnalysisDiagnostic[]) {
+  const rangeOf = (start: number, end: number): IRange => {
+    const from = model.getPositionAt(start)
+    const to = model.getPositionAt(end)
+    return { startLineNumber: from.lineNumber, startColumn: from.column, endLineNumber: to.lineNumber, endColumn: to.column }
+  }
+
+  const fixes: ModelFixes["fixes"] = new Map()
+  const markers = diagnostics.map((diagnostic): editor.IMarkerData => {
+    const marker = {
+      severity: monaco.MarkerSeverity.Warning,
+      message: diagnostic.message,
+      source: "GLSL analysis",
+      code: diagnostic.code,
+      ...rangeOf(diagnostic.start, diagnostic.end),
+    }
+    fixes.set(
+      markerKey(marker),
+      diagnostic.fixes.map((fix) => ({ title: fix.title, edits: fix.edits.map((edit) => ({ range: rangeOf(edit.start, edit.end), text: edit.text })) }))
+    )
+    return marker
+  })
+
+  modelFixes.set(model, { versionId: model.getVersionId(), fixes })
+  monaco.editor.setModelMarkers(model, ANALYSIS_OWNER, markers)
+}
+
+/** Quick fixes for the analysis warnings among `markers`, while the model is as it was analyzed. */
+export function analysisCodeActions(model: editor.ITextModel, markers: editor.IMarkerData[]): languages.CodeAction[] {
+  const stored = modelFixes.get(model)
+  if (!stored || stored.versionId !== model.getVersionId()) return []
+  return markers.flatMap((marker) =>
+    (stored.fixes.get(markerKey(marker)) ?? []).map((fix, index) => ({
+      title: fix.title,
+      kind: "quickfix",
+      diagnostics: [marker],
+      isPreferred: index === 0,
+      edit: { edits: fix.edits.map((textEdit) => ({ resource: model.uri, textEdit, versionId: stored.versionId })) },
+    }))
+  )
+}
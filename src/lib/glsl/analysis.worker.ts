@@ -0,0 +1,30 @@
+/**
+ * Runs the GLSL checker off the main thread, so typing never waits on it.
+ * Each request checks a whole set of shaders and is answered with its id.
+ */
+import { checkShader, type AnalysisDiagnostic, type ShaderInput } from "@/lib/glsl/checker"
+
+export interface AnalysisRequest {
+  id: number
+  shaders: ShaderInput[]
+}
+
+export interface AnalysisResponse {
+  id: number
+  /** One list per shader, in request order. */
+  diagnostics: AnalysisDiagnostic[][]
+}
+
+self.addEventListener("message", (event: MessageEvent<AnalysisRequest>) => {
+  const { id, shaders } = event.data
+  const diagnostics = shaders.map((shader) => {
+    // A checker bug shouldn't take the other shaders' results down with it
+    try {
+      return checkShader(shader)
+    } catch (error) {
+      console.error(error)
+      return []
+    }
+  })
+  self.postMessage({ id, diagnostics } satisfies AnalysisResponse)
+})
@@ -0,0 +1,453 @@
+/**
+ * The GLSL ES 1.00 and 3.00 vocabulary: keywords, types, built-in variables
+ * and built-in functions, each tagged with the versions (and stage, where
+ * it matters) it exists in. Function prototypes are written as in the
+ * specs, with generic types (`genType`, `gsampler2D`, ...) left unexpanded.
+ */
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+
+export type GLSLVersion = 100 | 300
+
+const BOTH: readonly GLSLVersion[] = [100, 300]
+const ES1: readonly GLSLVersion[] = [100]
+const ES3: readonly GLSLVersion[] = [300]
+
+/** `#version 300 es` on the first line selects GLSL ES 3.00; anything else is 1.00. */
+export function glslVersion(source: string): GLSLVersion {
+  return /^\s*#\s*version\s+300\s+es\b/.test(source) ? 300 : 100
+}
+
+export interface GLSLKeyword {
+  name: string
+  kind: "qualifier" | "control" | "literal"
+  versions: readonly GLSLVersion[]
+}
+
+const keyword = (kind: GLSLKeyword["kind"], versions: readonly GLSLVersion[], names: string) =>
+  names.split(" ").map((name): GLSLKeyword => ({ name, kind, versions }))
+
+export const KEYWORDS: GLSLKeyword[] = [
+  ...keyword("qualifier", BOTH, "const uniform in out inout invariant precision highp mediump lowp struct"),
+  ...keyword("qualifier", ES1, "attribute varying"),
+  ...keyword("qualifier", ES3, "centroid flat smooth layout"),
+  ...keyword("control", BOTH, "if else for while do break continue return discard"),
+  ...keyword("control", ES3, "switch case default"),
+  ...keyword("literal", BOTH, "true false"),
+]
+
+export interface GLSLType {
+  name: string
+  versions: readonly GLSLVersion[]
+}
+
+const types = (versions: readonly GLSLVersion[], names: string) => names.split(" ").map((name): GLSLType => ({ name, versions }))
+
+export const TYPES: GLSLType[] = [
+  ...types(BOTH, "void bool int float vec2 vec3 vec4 bvec2 bvec3 bvec4 ivec2 ivec3 ivec4 mat2 mat3 mat4 sampler2D samplerCube"),
+  ...types(
+    ES3,
+    "uint uvec2 uvec3 uvec4 mat2x2 mat2x3 mat2x4 mat3x2 mat3x3 mat3x4 mat4x2 mat4x3 mat4x4 " +
+      "sampler3D sampler2DShadow samplerCubeShadow sampler2DArray sampler2DArrayShadow " +
+      "isampler2D isampler3D isamplerCube isampler2DArray usampler2D usampler3D usamplerCube usampler2DArray"
+  ),
+]
+
+export const TYPE_NAMES = new Set(TYPES.map((type) => type.name))
+
+export interface BuiltinVariable {
+  name: string
+  /** Declared type, with precision where the spec gives one. */
+  type: string
+  /** Absent for variables both stages see. */
+  stage?: ShaderStage
+  /** "in"/"out" for stage inputs and outputs, "const" for implementation limits. */
+  qualifier: "in" | "out" | "uniform" | "const"
+  versions: readonly GLSLVersion[]
+  arraySize?: string
+}
+
+export const BUILTIN_VARIABLES: BuiltinVariable[] = [
+  { name: "gl_Position", type: "highp vec4", stage: "vertex", qualifier: "out", versions: BOTH },
+  { name: "gl_PointSize", type: "mediump float", stage: "vertex", qualifier: "out", versions: ES1 },
+  { name: "gl_PointSize", type: "highp float", stage: "vertex", qualifier: "out", versions: ES3 },
+  { name: "gl_VertexID", type: "highp int", stage: "vertex", qualifier: "in", versions: ES3 },
+  { name: "gl_InstanceID", type: "highp int", stage: "vertex", qualifier: "in", versions: ES3 },
+  { name: "gl_FragCoord", type: "mediump vec4", stage: "fragment", qualifier: "in", versions: ES1 },
+  { name: "gl_FragCoord", type: "highp vec4", stage: "fragment", qualifier: "in", versions: ES3 },
+  { name: "gl_FrontFacing", type: "bool", stage: "fragment", qualifier: "in", versions: BOTH },
+  { name: "gl_PointCoord", type: "mediump vec2", stage: "fragment", qualifier: "in", versions: BOTH },
+  { name: "gl_FragColor", type: "mediump vec4", stage: "fragment", qualifier: "out", versions: ES1 },
+  { name: "gl_FragData", type: "mediump vec4", stage: "fragment", qualifier: "out", versions: ES1, arraySize: "gl_MaxDrawBuffers" },
+  { name: "gl_FragDepth", type: "highp float", stage: "fragment", qualifier: "out", versions: ES3 },
+  { name: "gl_DepthRange", type: "gl_DepthRangeParameters", qualifier: "uniform", versions: BOTH },
+  ...(
+    [
+      ["gl_MaxVertexAttribs", ES1],
+      ["gl_MaxVertexUniformVectors", ES1],
+      ["gl_MaxVaryingVectors", ES1],
+      ["gl_MaxVertexTextureImageUnits", BOTH],
+      ["gl_MaxCombinedTextureImageUnits", BOTH],
+      ["gl_MaxTextureImageUnits", BOTH],
+      ["gl_MaxFragmentUniformVectors", BOTH],
+      ["gl_MaxDrawBuffers", BOTH],
+      ["gl_MaxVertexAttribs", ES3],
+      ["gl_MaxVertexUniformVectors", ES3],
+      ["gl_MaxVertexOutputVectors", ES3],
+      ["gl_MaxFragmentInputVectors", ES3],
+      ["gl_MinProgramTexelOffset", ES3],
+      ["gl_MaxProgramTexelOffset", ES3],
+    ] as const
+  ).map(([name, versions]): BuiltinVariable => ({ name, type: "mediump int", qualifier: "const", versions })),
+]
+
+/** Fields of the built-in struct types, by type name. */
+export const BUILTIN_STRUCTS: Record<string, { name: string; type: string; arraySize?: string }[]> = {
+  gl_DepthRangeParameters: [
+    { name: "near", type: "highp float" },
+    { name: "far", type: "highp float" },
+    { name: "diff", type: "highp float" },
+  ],
+}
+
+export interface BuiltinParameter {
+  type: string
+  name: string
+  qualifier?: "out" | "inout"
+}
+
+export interface BuiltinOverload {
+  name: string
+  returnType: string
+  parameters: BuiltinParameter[]
+  versions: readonly GLSLVersion[]
+  /** Set for functions only one stage may call. */
+  stage?: ShaderStage
+}
+
+// Prototypes in the specs' notation, one per line
+const prototypes: { versions: readonly GLSLVersion[]; stage?: ShaderStage; source: string }[] = [
+  {
+    versions: BOTH,
+    source: `
+genType radians(genType degrees)
+genType degrees(genType radians)
+genType sin(genType angle)
+genType cos(genType angle)
+genType tan(genType angle)
+genType asin(genType x)
+genType acos(genType x)
+genType atan(genType y, genType x)
+genType atan(genType y_over_x)
+genType pow(genType x, genType y)
+genType exp(genType x)
+genType log(genType x)
+genType exp2(genType x)
+genType log2(genType x)
+genType sqrt(genType x)
+genType inversesqrt(genType x)
+genType abs(genType x)
+genType sign(genType x)
+genType floor(genType x)
+genType ceil(genType x)
+genType fract(genType x)
+genType mod(genType x, float y)
+genType mod(genType x, genType y)
+genType min(genType x, genType y)
+genType min(genType x, float y)
+genType max(genType x, genType y)
+genType max(genType x, float y)
+genType clamp(genType x, genType minVal, genType maxVal)
+genType clamp(genType x, float minVal, float maxVal)
+genType mix(genType x, genType y, genType a)
+genType mix(genType x, genType y, float a)
+genType step(genType edge, genType x)
+genType step(float edge, genType x)
+genType smoothstep(genType edge0, genType edge1, genType x)
+genType smoothstep(float edge0, float edge1, genType x)
+float length(genType x)
+float distance(genType p0, genType p1)
+float dot(genType x, genType y)
+vec3 cross(vec3 x, vec3 y)
+genType normalize(genType x)
+genType faceforward(genType N, genType I, genType Nref)
+genType reflect(genType I, genType N)
+genType refract(genType I, genType N, float eta)
+mat matrixCompMult(mat x, mat y)
+bvec lessThan(vec x, vec y)
+bvec lessThan(ivec x, ivec y)
+bvec lessThanEqual(vec x, vec y)
+bvec lessThanEqual(ivec x, ivec y)
+bvec greaterThan(vec x, vec y)
+bvec greaterThan(ivec x, ivec y)
+bvec greaterThanEqual(vec x, vec y)
+bvec greaterThanEqual(ivec x, ivec y)
+bvec equal(vec x, vec y)
+bvec equal(ivec x, ivec y)
+bvec equal(bvec x, bvec y)
+bvec notEqual(vec x, vec y)
+bvec notEqual(ivec x, ivec y)
+bvec notEqual(bvec x, bvec y)
+bool any(bvec x)
+bool all(bvec x)
+bvec not(bvec x)
+`,
+  },
+  {
+    // Core in 3.00; in 1.00 they need OES_standard_derivatives, which the preview enables
+    versions: BOTH,
+    stage: "fragment",
+    source: `
+genType dFdx(genType p)
+genType dFdy(genType p)
+genType fwidth(genType p)
+`,
+  },
+  {
+    versions: ES1,
+    source: `
+vec4 texture2D(sampler2D sampler, vec2 coord)
+vec4 texture2DProj(sampler2D sampler, vec3 coord)
+vec4 texture2DProj(sampler2D sampler, vec4 coord)
+vec4 textureCube(samplerCube sampler, vec3 coord)
+`,
+  },
+  {
+    versions: ES1,
+    stage: "fragment",
+    source: `
+vec4 texture2D(sampler2D sampler, vec2 coord, float bias)
+vec4 texture2DProj(sampler2D sampler, vec3 coord, float bias)
+vec4 texture2DProj(sampler2D sampler, vec4 coord, float bias)
+vec4 textureCube(samplerCube sampler, vec3 coord, float bias)
+`,
+  },
+  {
+    versions: ES1,
+    stage: "vertex",
+    source: `
+vec4 texture2DLod(sampler2D sampler, vec2 coord, float lod)
+vec4 texture2DProjLod(sampler2D sampler, vec3 coord, float lod)
+vec4 texture2DProjLod(sampler2D sampler, vec4 coord, float lod)
+vec4 textureCubeLod(samplerCube sampler, vec3 coord, float lod)
+`,
+  },
+  {
+    // EXT_shader_texture_lod, which fragment shaders enable with an #extension line
+    versions: ES1,
+    stage: "fragment",
+    source: `
+vec4 texture2DLodEXT(sampler2D sampler, vec2 coord, float lod)
+vec4 texture2DProjLodEXT(sampler2D sampler, vec3 coord, float lod)
+vec4 texture2DProjLodEXT(sampler2D sampler, vec4 coord, float lod)
+vec4 textureCubeLodEXT(samplerCube sampler, vec3 coord, float lod)
+vec4 texture2DGradEXT(sampler2D sampler, vec2 coord, vec2 dPdx, vec2 dPdy)
+vec4 texture2DProjGradEXT(sampler2D sampler, vec3 coord, vec2 dPdx, vec2 dPdy)
+vec4 texture2DProjGradEXT(sampler2D sampler, vec4 coord, vec2 dPdx, vec2 dPdy)
+vec4 textureCubeGradEXT(samplerCube sampler, vec3 coord, vec3 dPdx, vec3 dPdy)
+`,
+  },
+  {
+    versions: ES3,
+    source: `
+genType sinh(genType x)
+genType cosh(genType x)
+genType tanh(genType x)
+genType asinh(genType x)
+genType acosh(genType x)
+genType atanh(genType x)
+genIType abs(genIType x)
+genIType sign(genIType x)
+genType trunc(genType x)
+genType round(genType x)
+genType roundEven(genType x)
+genType modf(genType x, out genType i)
+genIType min(genIType x, genIType y)
+genIType min(genIType x, int y)
+genUType min(genUType x, genUType y)
+genUType min(genUType x, uint y)
+genIType max(genIType x, genIType y)
+genIType max(genIType x, int y)
+genUType max(genUType x, genUType y)
+genUType max(genUType x, uint y)
+genIType clamp(genIType x, genIType minVal, genIType maxVal)
+genIType clamp(genIType x, int minVal, int maxVal)
+genUType clamp(genUType x, genUType minVal, genUType maxVal)
+genUType clamp(genUType x, uint minVal, uint maxVal)
+genType mix(genType x, genType y, genBType a)
+genBType isnan(genType x)
+genBType isinf(genType x)
+genIType floatBitsToInt(genType value)
+genUType floatBitsToUint(genType value)
+genType intBitsToFloat(genIType value)
+genType uintBitsToFloat(genUType value)
+uint packSnorm2x16(vec2 v)
+vec2 unpackSnorm2x16(uint p)
+uint packUnorm2x16(vec2 v)
+vec2 unpackUnorm2x16(uint p)
+uint packHalf2x16(vec2 v)
+vec2 unpackHalf2x16(uint v)
+mat2 outerProduct(vec2 c, vec2 r)
+mat3 outerProduct(vec3 c, vec3 r)
+mat4 outerProduct(vec4 c, vec4 r)
+mat2x3 outerProduct(vec3 c, vec2 r)
+mat3x2 outerProduct(vec2 c, vec3 r)
+mat2x4 outerProduct(vec4 c, vec2 r)
+mat4x2 outerProduct(vec2 c, vec4 r)
+mat3x4 outerProduct(vec4 c, vec3 r)
+mat4x3 outerProduct(vec3 c, vec4 r)
+mat2 transpose(mat2 m)
+mat3 transpose(mat3 m)
+mat4 transpose(mat4 m)
+mat2x3 transpose(mat3x2 m)
+mat3x2 transpose(mat2x3 m)
+mat2x4 transpose(mat4x2 m)
+mat4x2 transpose(mat2x4 m)
+mat3x4 transpose(mat4x3 m)
+mat4x3 transpose(mat3x4 m)
+float determinant(mat2 m)
+float determinant(mat3 m)
+float determinant(mat4 m)
+mat2 inverse(mat2 m)
+mat3 inverse(mat3 m)
+mat4 inverse(mat4 m)
+bvec lessThan(uvec x, uvec y)
+bvec lessThanEqual(uvec x, uvec y)
+bvec greaterThan(uvec x, uvec y)
+bvec greaterThanEqual(uvec x, uvec y)
+bvec equal(uvec x, uvec y)
+bvec notEqual(uvec x, uvec y)
+ivec2 textureSize(gsampler2D sampler, int lod)
+ivec3 textureSize(gsampler3D sampler, int lod)
+ivec2 textureSize(gsamplerCube sampler, int lod)
+ivec2 textureSize(sampler2DShadow sampler, int lod)
+ivec2 textureSize(samplerCubeShadow sampler, int lod)
+ivec3 textureSize(gsampler2DArray sampler, int lod)
+ivec3 textureSize(sampler2DArrayShadow sampler, int lod)
+gvec4 texture(gsampler2D sampler, vec2 P)
+gvec4 texture(gsampler3D sampler, vec3 P)
+gvec4 texture(gsamplerCube sampler, vec3 P)
+float texture(sampler2DShadow sampler, vec3 P)
+float texture(samplerCubeShadow sampler, vec4 P)
+gvec4 texture(gsampler2DArray sampler, vec3 P)
+float texture(sampler2DArrayShadow sampler, vec4 P)
+gvec4 textureProj(gsampler2D sampler, vec3 P)
+gvec4 textureProj(gsampler2D sampler, vec4 P)
+gvec4 textureProj(gsampler3D sampler, vec4 P)
+float textureProj(sampler2DShadow sampler, vec4 P)
+gvec4 textureLod(gsampler2D sampler, vec2 P, float lod)
+gvec4 textureLod(gsampler3D sampler, vec3 P, float lod)
+gvec4 textureLod(gsamplerCube sampler, vec3 P, float lod)
+float textureLod(sampler2DShadow sampler, vec3 P, float lod)
+gvec4 textureLod(gsampler2DArray sampler, vec3 P, float lod)
+gvec4 textureOffset(gsampler2D sampler, vec2 P, ivec2 offset)
+gvec4 textureOffset(gsampler3D sampler, vec3 P, ivec3 offset)
+float textureOffset(sampler2DShadow sampler, vec3 P, ivec2 offset)
+gvec4 textureOffset(gsampler2DArray sampler, vec3 P, ivec2 offset)
+gvec4 texelFetch(gsampler2D sampler, ivec2 P, int lod)
+gvec4 texelFetch(gsampler3D sampler, ivec3 P, int lod)
+gvec4 texelFetch(gsampler2DArray sampler, ivec3 P, int lod)
+gvec4 texelFetchOffset(gsampler2D sampler, ivec2 P, int lod, ivec2 offset)
+gvec4 texelFetchOffset(gsampler3D sampler, ivec3 P, int lod, ivec3 offset)
+gvec4 texelFetchOffset(gsampler2DArray sampler, ivec3 P, int lod, ivec2 offset)
+gvec4 textureProjOffset(gsampler2D sampler, vec3 P, ivec2 offset)
+gvec4 textureProjOffset(gsampler2D sampler, vec4 P, ivec2 offset)
+gvec4 textureProjOffset(gsampler3D sampler, vec4 P, ivec3 offset)
+float textureProjOffset(sampler2DShadow sampler, vec4 P, ivec2 offset)
+gvec4 textureLodOffset(gsampler2D sampler, vec2 P, float lod, ivec2 offset)
+gvec4 textureLodOffset(gsampler3D sampler, vec3 P, float lod, ivec3 offset)
+float textureLodOffset(sampler2DShadow sampler, vec3 P, float lod, ivec2 offset)
+gvec4 textureLodOffset(gsampler2DArray sampler, vec3 P, float lod, ivec2 offset)
+gvec4 textureProjLod(gsampler2D sampler, vec3 P, float lod)
+gvec4 textureProjLod(gsampler2D sampler, vec4 P, float lod)
+gvec4 textureProjLod(gsampler3D sampler, vec4 P, float lod)
+float textureProjLod(sampler2DShadow sampler, vec4 P, float lod)
+gvec4 textureProjLodOffset(gsampler2D sampler, vec3 P, float lod, ivec2 offset)
+gvec4 textureProjLodOffset(gsampler2D sampler, vec4 P, float lod, ivec2 offset)
+gvec4 textureProjLodOffset(gsampler3D sampler, vec4 P, float lod, ivec3 offset)
+float textureProjLodOffset(sampler2DShadow sampler, vec4 P, float lod, ivec2 offset)
+gvec4 textureGrad(gsampler2D sampler, vec2 P, vec2 dPdx, vec2 dPdy)
+gvec4 textureGrad(gsampler3D sampler, vec3 P, vec3 dPdx, vec3 dPdy)
+gvec4 textureGrad(gsamplerCube sampler, vec3 P, vec3 dPdx, vec3 dPdy)
+float textureGrad(sampler2DShadow sampler, vec3 P, vec2 dPdx, vec2 dPdy)
+float textureGrad(samplerCubeShadow sampler, vec4 P, vec3 dPdx, vec3 dPdy)
+gvec4 textureGrad(gsampler2DArray sampler, vec3 P, vec2 dPdx, vec2 dPdy)
+float textureGrad(sampler2DArrayShadow sampler, vec4 P, vec2 dPdx, vec2 dPdy)
+gvec4 textureGradOffset(gsampler2D sampler, vec2 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+gvec4 textureGradOffset(gsampler3D sampler, vec3 P, vec3 dPdx, vec3 dPdy, ivec3 offset)
+float textureGradOffset(sampler2DShadow sampler, vec3 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+gvec4 textureGradOffset(gsampler2DArray sampler, vec3 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+float textureGradOffset(sampler2DArrayShadow sampler, vec4 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+gvec4 textureProjGrad(gsampler2D sampler, vec3 P, vec2 dPdx, vec2 dPdy)
+gvec4 textureProjGrad(gsampler2D sampler, vec4 P, vec2 dPdx, vec2 dPdy)
+gvec4 textureProjGrad(gsampler3D sampler, vec4 P, vec3 dPdx, vec3 dPdy)
+float textureProjGrad(sampler2DShadow sampler, vec4 P, vec2 dPdx, vec2 dPdy)
+gvec4 textureProjGradOffset(gsampler2D sampler, vec3 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+gvec4 textureProjGradOffset(gsampler2D sampler, vec4 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+gvec4 textureProjGradOffset(gsampler3D sampler, vec4 P, vec3 dPdx, vec3 dPdy, ivec3 offset)
+float textureProjGradOffset(sampler2DShadow sampler, vec4 P, vec2 dPdx, vec2 dPdy, ivec2 offset)
+`,
+  },
+  {
+    versions: ES3,
+    stage: "fragment",
+    source: `
+gvec4 texture(gsampler2D sampler, vec2 P, float bias)
+gvec4 texture(gsampler3D sampler, vec3 P, float bias)
+gvec4 texture(gsamplerCube sampler, vec3 P, float bias)
+float texture(sampler2DShadow sampler, vec3 P, float bias)
+float texture(samplerCubeShadow sampler, vec4 P, float bias)
+gvec4 texture(gsampler2DArray sampler, vec3 P, float bias)
+gvec4 textureProj(gsampler2D sampler, vec3 P, float bias)
+gvec4 textureProj(gsampler2D sampler, vec4 P, float bias)
+gvec4 textureProj(gsampler3D sampler, vec4 P, float bias)
+float textureProj(sampler2DShadow sampler, vec4 P, float bias)
+gvec4 textureOffset(gsampler2D sampler, vec2 P, ivec2 offset, float bias)
+gvec4 textureOffset(gsampler3D sampler, vec3 P, ivec3 offset, float bias)
+float textureOffset(sampler2DShadow sampler, vec3 P, ivec2 offset, float bias)
+gvec4 textureOffset(gsampler2DArray sampler, vec3 P, ivec2 offset, float bias)
+gvec4 textureProjOffset(gsampler2D sampler, vec3 P, ivec2 offset, float bias)
+gvec4 textureProjOffset(gsampler2D sampler, vec4 P, ivec2 offset, float bias)
+gvec4 textureProjOffset(gsampler3D sampler, vec4 P, ivec3 offset, float bias)
+float textureProjOffset(sampler2DShadow sampler, vec4 P, ivec2 offset, float bias)
+`,
+  },
+]
+
+/** Parses one prototype in the specs' notation, e.g. `genType mix(genType x, genType y, float a)`. */
+export function parsePrototype(line: string, versions: readonly GLSLVersion[], stage?: ShaderStage): BuiltinOverload {
+  const [, returnType, name, params] = line.match(/^(\w+)\s+(\w+)\((.*)\)$/)!
+  const parameters = params.split(",").map((param): BuiltinParameter => {
+    const words = param.trim().split(/\s+/)
+    const qualifier = words.length === 3 ? (words.shift() as BuiltinParameter["qualifier"]) : undefined
+    return { type: words[0], name: words[1], ...(qualifier && { qualifier }) }
+  })
+  return { name, returnType, parameters, versions, ...(stage && { stage }) }
+}
+
+export const BUILTIN_FUNCTIONS: BuiltinOverload[] = prototypes.flatMap(({ versions, stage, source }) =>
+  source
+    .trim()
+    .split("\n")
+    .map((line) => parsePrototype(line, versions, stage))
+)
+
+/** Whether a built-in exists in `version` and may be used in `stage`. */
+export function isAvailable(entry: { versions: readonly GLSLVersion[]; stage?: ShaderStage }, version: GLSLVersion, stage: ShaderStage) {
+  return entry.versions.includes(version) && (!entry.stage || entry.stage === stage)
+}
+
+export function formatOverload({ name, returnType, parameters }: BuiltinOverload) {
+  const params = parameters.map(({ qualifier, type, name }) => `${qualifier ? `${qualifier} ` : ""}${type} ${name}`)
+  return `${returnType} ${name}(${params.join(", ")})`
+}
+
+export const PREPROCESSOR_DIRECTIVES = ["define", "undef", "if", "ifdef", "ifndef", "else", "elif", "endif", "error", "pragma", "extension", "version", "line"]
+
+/** Extensions WebGL exposes to shaders, for `#extension` lines. */
+export const EXTENSIONS: { name: string; versions: readonly GLSLVersion[] }[] = [
+  { name: "GL_OES_standard_derivatives", versions: ES1 },
+  { name: "GL_EXT_shader_texture_lod", versions: ES1 },
+  { name: "GL_EXT_frag_depth", versions: ES1 },
+  { name: "GL_EXT_draw_buffers", versions: ES1 },
+  { name: "GL_OVR_multiview2", versions: ES3 },
+]
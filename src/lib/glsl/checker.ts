@@ -0,0 +1,815 @@
+/**
+ * Semantic checks for GLSL ES on the parser's syntax tree: names that were
+ * never declared, built-ins called with the wrong arguments, mismatched
+ * types, a fragment shader without a default float precision, varyings the
+ * vertex shader doesn't provide, and uniforms nothing reads. GLSL ES has no
+ * implicit conversions, so `float x = 1;` is reported too. Anything the
+ * checker can't type (macros, half-typed code) is let through rather than
+ * guessed at. Runs in the analysis worker; keep it free of DOM and Monaco.
+ */
+import {
+  BUILTIN_FUNCTIONS,
+  BUILTIN_STRUCTS,
+  BUILTIN_VARIABLES,
+  TYPES,
+  glslVersion,
+  isAvailable,
+  type BuiltinOverload,
+  type GLSLVersion,
+} from "@/lib/glsl/builtins"
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+import {
+  literalType,
+  parse,
+  type BlockStatement,
+  type Declarator,
+  type Expression,
+  type ExternalDeclaration,
+  type Span,
+  type Statement,
+  type TranslationUnit,
+  type TypeSpecifier,
+  type VariableDeclaration,
+} from "@/lib/glsl/parser"
+
+export interface AnalysisEdit {
+  start: number
+  end: number
+  text: string
+}
+
+export interface AnalysisFix {
+  title: string
+  edits: AnalysisEdit[]
+}
+
+export type AnalysisCode = "undeclared" | "unavailable" | "arguments" | "type-mismatch" | "precision" | "varying" | "unused-uniform"
+
+export interface AnalysisDiagnostic {
+  code: AnalysisCode
+  message: string
+  /** Offsets in the shader's own source. */
+  start: number
+  end: number
+  fixes: AnalysisFix[]
+}
+
+export interface ShaderInput {
+  source: string
+  stage: ShaderStage
+  /** Source compiled above `source`; its declarations are in scope but never reported on. */
+  prelude: string
+  /** For fragment shaders, the vertex shader whose outputs feed its varyings. */
+  vertexSource?: string
+}
+
+// Types
+
+const VECTOR = /^([biu]?)vec([234])$/
+const MATRIX = /^mat([234])(?:x([234]))?$/
+const SCALAR_PREFIXES: Record<string, string> = { float: "", int: "i", uint: "u", bool: "b" }
+const PREFIX_SCALARS: Record<string, string> = { "": "float", i: "int", u: "uint", b: "bool" }
+
+const isArray = (type: string) => type.endsWith("[]")
+const elementType = (type: string) => type.slice(0, -2)
+
+/** `mat2x2` and `mat2` are the same type. */
+const canonical = (type: string) => type.replace(/^mat([234])x\1$/, "mat$1")
+
+const matrixType = (columns: number, rows: number) => (columns === rows ? `mat${columns}` : `mat${columns}x${rows}`)
+
+function matrixShape(type: string) {
+  const match = type.match(MATRIX)
+  return match ? { columns: Number(match[1]), rows: Number(match[2] ?? match[1]) } : null
+}
+
+/** The scalar type of a scalar, vector or matrix; null for anything else. */
+function scalarOf(type: string) {
+  if (type in SCALAR_PREFIXES) return type
+  const vector = type.match(VECTOR)
+  if (vector) return PREFIX_SCALARS[vector[1]]
+  return MATRIX.test(type) ? "float" : null
+}
+
+/** How many scalars a scalar, vector or matrix holds. */
+function componentCount(type: string) {
+  if (type in SCALAR_PREFIXES) return 1
+  const vector = type.match(VECTOR)
+  if (vector) return Number(vector[2])
+  const matrix = matrixShape(type)
+  return matrix ? matrix.columns * matrix.rows : 0
+}
+
+const vectorType = (scalar: string, size: number) => (size === 1 ? scalar : `${SCALAR_PREFIXES[scalar]}vec${size}`)
+
+const article = (type: string) => (/^[aeio]/.test(type) ? `an ${type}` : `a ${type}`)
+
+// Built-in prototypes use generic types; one binding per call keeps them consistent
+interface Binding {
+  size?: number
+  matrix?: string
+  /** "", "i" or "u", for `gsampler2D` and `gvec4`. */
+  prefix?: string
+}
+
+const GENERIC_FAMILIES: Record<string, { scalar: string; minSize: number }> = {
+  genType: { scalar: "float", minSize: 1 },
+  genIType: { scalar: "int", minSize: 1 },
+  genUType: { scalar: "uint", minSize: 1 },
+  genBType: { scalar: "bool", minSize: 1 },
+  vec: { scalar: "float", minSize: 2 },
+  ivec: { scalar: "int", minSize: 2 },
+  uvec: { scalar: "uint", minSize: 2 },
+  bvec: { scalar: "bool", minSize: 2 },
+}
+
+const isSamplerGeneric = (type: string) => type === "gvec4" || type.startsWith("gsampler")
+
+function matchParameter(parameter: string, argument: string, binding: Binding) {
+  const family = GENERIC_FAMILIES[parameter]
+  if (family) {
+    if (scalarOf(argument) !== family.scalar || MATRIX.test(argument)) return false
+    const size = componentCount(argument)
+    if (size < family.minSize || (binding.size !== undefined && binding.size !== size)) return false
+    binding.size = size
+    return true
+  }
+  if (parameter === "mat") {
+    if (!MATRIX.test(argument) || (binding.matrix !== undefined && binding.matrix !== argument)) return false
+    binding.matrix = argument
+    return true
+  }
+  if (isSamplerGeneric(parameter)) {
+    const prefix = ["", "i", "u"].find((prefix) => argument === `${prefix}${parameter.slice(1)}`)
+    if (prefix === undefined || (binding.prefix !== undefined && binding.prefix !== prefix)) return false
+    binding.prefix = prefix
+    return true
+  }
+  return canonical(parameter) === argument
+}
+
+function instantiate(type: string, binding: Binding) {
+  const family = GENERIC_FAMILIES[type]
+  if (family) return binding.size === undefined ? null : vectorType(family.scalar, binding.size)
+  if (type === "mat") return binding.matrix ?? null
+  if (isSamplerGeneric(type)) return binding.prefix === undefined ? null : `${binding.prefix}${type.slice(1)}`
+  return canonical(type)
+}
+
+/** A parameter's type as a guess for an argument's, when it isn't generic over sizes. */
+function expectedType(parameter: string | null | undefined) {
+  if (!parameter || GENERIC_FAMILIES[parameter] || parameter === "mat") return null
+  return isSamplerGeneric(parameter) ? parameter.slice(1) : canonical(parameter)
+}
+
+/**
+ * The return type of the first overload the arguments fit, `undefined` when
+ * none does. Arguments of unknown type (null) fit anything.
+ */
+function resolveOverload(overloads: { returnType: string; parameters: string[] }[], args: (string | null)[]) {
+  for (const overload of overloads) {
+    if (overload.parameters.length !== args.length) continue
+    const binding: Binding = {}
+    if (overload.parameters.every((parameter, index) => args[index] === null || matchParameter(parameter, args[index]!, binding))) {
+      return instantiate(overload.returnType, binding)
+    }
+  }
+  return undefined
+}
+
+/** The type of `left operator right`, null when unknown, or `undefined` when the operator doesn't apply. */
+function binaryType(operator: string, left: string | null, right: string | null): string | null | undefined {
+  if (["<", ">", "<=", ">=", "==", "!=", "&&", "||", "^^"].includes(operator)) {
+    if (left === null || right === null) return "bool"
+    if (operator === "==" || operator === "!=") return left === right ? "bool" : undefined
+    if (operator === "&&" || operator === "||" || operator === "^^") return left === "bool" && right === "bool" ? "bool" : undefined
+    return left === right && left in SCALAR_PREFIXES && left !== "bool" ? "bool" : undefined
+  }
+  if (left === null || right === null) return null
+  const leftScalar = scalarOf(left)
+  const rightScalar = scalarOf(right)
+  // Shifts mix int and uint freely
+  if (operator === "<<" || operator === ">>") return leftScalar === "int" || leftScalar === "uint" ? (rightScalar === "int" || rightScalar === "uint" ? left : undefined) : undefined
+  if (!leftScalar || leftScalar !== rightScalar || leftScalar === "bool") return undefined
+  if (["%", "&", "|", "^"].includes(operator) && leftScalar === "float") return undefined
+
+  const leftMatrix = matrixShape(left)
+  const rightMatrix = matrixShape(right)
+  if (operator === "*" && (leftMatrix || rightMatrix) && left !== leftScalar && right !== rightScalar) {
+    // Linear algebra: columns of the left side meet rows of the right
+    if (leftMatrix && rightMatrix) return leftMatrix.columns === rightMatrix.rows ? matrixType(rightMatrix.columns, leftMatrix.rows) : undefined
+    if (leftMatrix) return componentCount(right) === leftMatrix.columns ? vectorType("float", leftMatrix.rows) : undefined
+    return componentCount(left) === rightMatrix!.rows ? vectorType("float", rightMatrix!.columns) : undefined
+  }
+  if (left === right) return left
+  if (left === leftScalar) return right
+  if (right === rightScalar) return left
+  return undefined
+}
+
+// Swizzles pick from one set of names: xyzw, rgba or stpq
+const SWIZZLE_SETS = ["xyzw", "rgba", "stpq"]
+
+function swizzleType(type: string, swizzle: string) {
+  const size = componentCount(type)
+  const set = SWIZZLE_SETS.find((names) => names.includes(swizzle[0]))
+  if (!set || swizzle.length > 4 || [...swizzle].some((name) => set.indexOf(name) < 0 || set.indexOf(name) >= size)) return undefined
+  return vectorType(scalarOf(type)!, swizzle.length)
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** The closest of `candidates` to a misspelled `name`, if any is close enough to be a typo. */
+function closestName(name: string, candidates: Iterable<string>) {
+  let best: string | undefined
+  let bestDistance = Math.max(1, Math.floor(name.length / 3)) + 1
+  for (const candidate of candidates) {
+    const distance = candidate.toLowerCase() === name.toLowerCase() ? 0.5 : editDistance(name, candidate)
+    if (distance > 0 && distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+// Texture lookups renamed between GLSL ES 1.00 and 3.00
+const RENAMED_BUILTINS: Record<GLSLVersion, Record<string, string>> = {
+  100: { texture: "texture2D", textureProj: "texture2DProj" },
+  300: { texture2D: "texture", textureCube: "texture", texture2DProj: "textureProj", texture2DLod: "textureLod", textureCubeLod: "textureLod" },
+}
+
+/** Offset just past the `#version` and `#extension` lines (and comments) a shader starts with. */
+function headerEnd(source: string) {
+  return source.match(/^(?:[ \t]*(?:#[ \t]*(?:version|extension)\b[^\n]*|\/\/[^\n]*)?\r?\n)*/)![0].length
+}
+
+// Only the span's offsets: fixes are posted from the worker, and a span may be a whole syntax tree node
+const replacement = (span: Span, text: string): AnalysisEdit => ({ start: span.start, end: span.end, text })
+
+/** The edit deleting `span`, along with its line when nothing else is on it. */
+function deletion(source: string, span: Span): AnalysisEdit {
+  const lineStart = source.lastIndexOf("\n", span.start - 1) + 1
+  const newline = source.indexOf("\n", span.end)
+  const lineEnd = newline < 0 ? source.length : newline
+  if (source.slice(lineStart, span.start).trim() || source.slice(span.end, lineEnd).trim()) return replacement(span, "")
+  return { start: lineStart, end: newline < 0 ? lineEnd : lineEnd + 1, text: "" }
+}
+
+const nameSpan = (declarator: Declarator): Span => ({ start: declarator.start, end: declarator.start + declarator.name.length })
+
+// `2` or `-2` where a float is wanted
+function intLiteral(expression: Expression): Expression | null {
+  if (expression.kind === "literal") return expression.type === "int" && /^\d+$/.test(expression.text) ? expression : null
+  if (expression.kind === "unary" && expression.prefix && (expression.operator === "-" || expression.operator === "+")) return intLiteral(expression.operand)
+  return null
+}
+
+function floatLiteralFix(literals: Expression[]): AnalysisFix {
+  const title =
+    literals.length === 1 && literals[0].kind === "literal" ? `Write ${literals[0].text} as ${literals[0].text}.0` : "Write the integers as floats"
+  return { title, edits: literals.map((literal) => ({ start: literal.end, end: literal.end, text: ".0" })) }
+}
+
+interface Variable {
+  name: string
+  type: string | null
+  qualifiers: string[]
+  span: Span
+  /** Set for the shader's own global uniforms, which are reported when unused. */
+  uniform?: { declaration: VariableDeclaration; declarator: Declarator }
+  used: boolean
+}
+
+interface FunctionOverload {
+  returnType: string
+  parameters: string[]
+}
+
+/** Everything wrong with one shader that can be told without compiling it. */
+export function checkShader({ source, stage, prelude, vertexSource }: ShaderInput): AnalysisDiagnostic[] {
+  const version = glslVersion(prelude + source)
+  const diagnostics: AnalysisDiagnostic[] = []
+  const scopes: Map<string, Variable>[] = [new Map()]
+  const functions = new Map<string, FunctionOverload[]>()
+  const structs = new Map<string, { name: string; type: string | null }[]>(
+    Object.entries(BUILTIN_STRUCTS).map(([name, fields]) => [
+      name,
+      fields.map((field) => ({ name: field.name, type: builtinType(field.type, field.arraySize) })),
+    ])
+  )
+  const macros = new Map<string, string>()
+  const uniforms: Variable[] = []
+  // Only the shader's own code is reported on, not the prelude's
+  let reporting = false
+  // The function whose body is being checked
+  let current: { name: string; returnType: string | null } | null = null
+
+  const report = (code: AnalysisCode, message: string, span: Span, fixes: AnalysisFix[] = []) => {
+    if (reporting) diagnostics.push({ code, message, start: span.start, end: span.end, fixes })
+  }
+
+  function builtinType(type: string, arraySize?: string) {
+    const name = type.split(" ").pop()!
+    return arraySize !== undefined ? `${name}[]` : name
+  }
+
+  const typeOfSpecifier = (type: TypeSpecifier, arraySize?: Expression | null) => {
+    if (!type.name) return null
+    const name = canonical(type.name)
+    return type.arraySize !== undefined || arraySize !== undefined ? `${name}[]` : name
+  }
+
+  const lookup = (name: string) => {
+    for (let depth = scopes.length - 1; depth >= 0; depth--) {
+      const variable = scopes[depth].get(name)
+      if (variable) return variable
+    }
+    return undefined
+  }
+
+  const visibleNames = () => new Set([...scopes.flatMap((scope) => [...scope.keys()]), ...macros.keys()])
+
+  // A macro that only renames something, like `#define texture texture2D`
+  const resolveAlias = (name: string) => {
+    for (let depth = 0; depth < 8 && macros.has(name); depth++) {
+      const alias = macros.get(name)!.match(/^\s+([A-Za-z_]\w*)$/)
+      if (!alias) break
+      name = alias[1]
+    }
+    return name
+  }
+
+  const macroType = (name: string) => {
+    const value = macros.get(name)!.trim()
+    if (value === "true" || value === "false") return "bool"
+    return /^[-+]?(?:0[xX][0-9a-fA-F]+[uU]?|(?:\d+\.\d*|\.\d+|\d+)(?:[eE][+-]?\d+)?[uUfF]?)$/.test(value) ? literalType(value.replace(/^[-+]/, "")) : null
+  }
+
+  // Where a fix declaring a new uniform goes: after the last uniform, or the shader's header
+  const uniformInsertion = (name: string, type: string): AnalysisEdit => {
+    const last = uniforms.at(-1)
+    if (last) return { start: last.uniform!.declaration.end, end: last.uniform!.declaration.end, text: `\nuniform ${type} ${name};` }
+    const offset = headerEnd(source)
+    return { start: offset, end: offset, text: `uniform ${type} ${name};\n` }
+  }
+
+  const unavailableMessage = (name: string, entries: { versions: readonly GLSLVersion[]; stage?: ShaderStage }[]) => {
+    if (entries.some((entry) => entry.versions.includes(version))) return `'${name}' is only available in ${stage === "vertex" ? "fragment" : "vertex"} shaders`
+    return version === 300 ? `'${name}' doesn't exist in GLSL ES 3.00` : `'${name}' needs GLSL ES 3.00 (#version 300 es)`
+  }
+
+  const renameFix = (name: string, span: Span): AnalysisFix[] => {
+    const renamed = RENAMED_BUILTINS[version][name]
+    return renamed ? [{ title: `Use ${renamed}`, edits: [replacement(span, renamed)] }] : []
+  }
+
+  const declare = (name: string, type: string | null, qualifiers: string[], span: Span) => {
+    const variable: Variable = { name, type, qualifiers, span, used: false }
+    scopes[scopes.length - 1].set(name, variable)
+    return variable
+  }
+
+  // Expressions
+
+  function identifierType(expression: Expression & { kind: "identifier" }, expected: string | null): string | null {
+    const variable = lookup(expression.name)
+    if (variable) {
+      variable.used = true
+      return variable.type
+    }
+    if (macros.has(expression.name)) {
+      const alias = resolveAlias(expression.name)
+      return alias !== expression.name && !macros.has(alias) ? identifierType({ ...expression, name: alias }, expected) : macroType(expression.name)
+    }
+    const builtins = BUILTIN_VARIABLES.filter((variable) => variable.name === expression.name)
+    const builtin = builtins.find((variable) => isAvailable(variable, version, stage))
+    if (builtin) return builtinType(builtin.type, builtin.arraySize)
+    if (builtins.length) {
+      report("unavailable", unavailableMessage(expression.name, builtins), expression)
+      return null
+    }
+
+    const fixes: AnalysisFix[] = []
+    const suggestion = closestName(expression.name, [
+      ...visibleNames(),
+      ...BUILTIN_VARIABLES.filter((variable) => isAvailable(variable, version, stage)).map((variable) => variable.name),
+    ])
+    if (suggestion) fixes.push({ title: `Change to ${suggestion}`, edits: [replacement(expression, suggestion)] })
+    fixes.push({ title: `Declare ${expression.name} as a uniform`, edits: [uniformInsertion(expression.name, expected ?? "float")] })
+    report("undeclared", `'${expression.name}' is not declared`, expression, fixes)
+    return null
+  }
+
+  function constructorType(expression: Expression & { kind: "call" }, type: string, args: (string | null)[]) {
+    const name = `${type}()`
+    if (args.some((arg) => arg === null)) return type
+    const invalid = args.find((arg) => !scalarOf(arg!) || isArray(arg!))
+    if (invalid) {
+      report("arguments", `Can't construct ${article(type)} from ${article(invalid)}`, expression)
+      return type
+    }
+    if (!args.length) {
+      report("arguments", `${name} needs arguments`, expression)
+    } else if (type in SCALAR_PREFIXES) {
+      if (args.length > 1) report("arguments", `${name} takes one argument`, expression)
+    } else if (args.length > 1 || componentCount(args[0]!) > 1) {
+      // A single scalar fills the vector or the diagonal; otherwise the components must add up
+      const needed = componentCount(type)
+      const total = args.reduce((sum, arg) => sum + componentCount(arg!), 0)
+      const singleMatrix = args.length === 1 && MATRIX.test(args[0]!) && MATRIX.test(type)
+      if (total < needed && !singleMatrix) report("arguments", `${name} needs ${needed} components, got ${total}`, expression)
+      else if (total - componentCount(args.at(-1)!) >= needed) report("arguments", `Too many arguments to ${name}`, expression)
+    }
+    return type
+  }
+
+  function argumentsFix(args: Expression[], types: (string | null)[], overloads: FunctionOverload[]) {
+    const literals = args.map(intLiteral)
+    if (!literals.some(Boolean)) return null
+    const retyped = types.map((type, index) => (literals[index] ? "float" : type))
+    return resolveOverload(overloads, retyped) !== undefined ? floatLiteralFix(literals.filter((literal) => literal !== null)) : null
+  }
+
+  function callType(expression: Expression & { kind: "call" }): string | null {
+    const { callee, calleeSpan } = expression
+    const lookupName = resolveAlias(callee)
+    const type = TYPES.find((entry) => entry.name === lookupName)
+    const struct = structs.get(lookupName)
+    const builtins = BUILTIN_FUNCTIONS.filter((overload) => overload.name === lookupName)
+    const toOverload = (overload: BuiltinOverload): FunctionOverload => ({
+      returnType: overload.returnType,
+      parameters: overload.parameters.map((parameter) => parameter.type),
+    })
+    const overloads = [
+      ...(functions.get(lookupName) ?? []),
+      ...builtins.filter((overload) => isAvailable(overload, version, stage)).map(toOverload),
+    ]
+
+    // What each argument should be, as far as one overload of the right length tells
+    const parameters =
+      struct?.map((field) => field.type) ?? overloads.find((overload) => overload.parameters.length === expression.args.length)?.parameters ?? []
+    const args = expression.args.map((arg, index) => typeOf(arg, expectedType(parameters[index])))
+    if (expression.array) return `${canonical(callee)}[]`
+
+    if (type) {
+      if (!type.versions.includes(version)) report("unavailable", unavailableMessage(callee, [type]), calleeSpan)
+      return constructorType(expression, canonical(lookupName), args)
+    }
+
+    if (struct) {
+      if (args.length !== struct.length) {
+        report("arguments", `${callee}() takes ${struct.length} argument${struct.length === 1 ? "" : "s"}, one per field`, expression)
+      } else {
+        const index = struct.findIndex((field, index) => field.type !== null && args[index] !== null && field.type !== args[index])
+        if (index >= 0) report("arguments", `Field ${struct[index].name} of ${callee} is ${article(struct[index].type!)}, not ${article(args[index]!)}`, expression.args[index])
+      }
+      return lookupName
+    }
+
+    if (!overloads.length) {
+      if (macros.has(lookupName)) return null
+      if (builtins.length) {
+        report("unavailable", unavailableMessage(callee, builtins), calleeSpan, renameFix(callee, calleeSpan))
+        return null
+      }
+      const candidates = [...functions.keys(), ...BUILTIN_FUNCTIONS.filter((overload) => isAvailable(overload, version, stage)).map((overload) => overload.name)]
+      const suggestion = closestName(callee, new Set(candidates))
+      const fixes = suggestion ? [{ title: `Change to ${suggestion}`, edits: [replacement(calleeSpan, suggestion)] }] : []
+      report("undeclared", `'${callee}' is not a declared function`, calleeSpan, fixes)
+      return null
+    }
+
+    const resolved = resolveOverload(overloads, args)
+    if (resolved !== undefined) return resolved
+
+    const counts = [...new Set(overloads.map((overload) => overload.parameters.length))].sort((a, b) => a - b)
+    if (!counts.includes(args.length)) {
+      const expected = counts.length > 1 ? `${counts.slice(0, -1).join(", ")} or ${counts.at(-1)}` : `${counts[0]}`
+      report("arguments", `${callee}() takes ${expected} argument${expected === "1" ? "" : "s"}, not ${args.length}`, expression)
+    } else {
+      const fix = argumentsFix(expression.args, args, overloads)
+      report("arguments", `No overload of ${callee}() takes (${args.join(", ")})`, expression, fix ? [fix] : [])
+    }
+    // When every overload agrees on the result, keep typing the rest of the expression
+    const returnTypes = new Set(overloads.map((overload) => overload.returnType))
+    return returnTypes.size === 1 && !GENERIC_FAMILIES[[...returnTypes][0]] ? canonical([...returnTypes][0]) : null
+  }
+
+  function memberType(expression: Expression & { kind: "member" }): string | null {
+    const objectType = typeOf(expression.object)
+    if (objectType === null || isArray(objectType)) return null
+    const fields = structs.get(objectType)
+    if (fields) {
+      const field = fields.find((field) => field.name === expression.name)
+      if (field) return field.type
+      const suggestion = closestName(expression.name, fields.map((field) => field.name))
+      const fixes = suggestion ? [{ title: `Change to ${suggestion}`, edits: [replacement(expression.nameSpan, suggestion)] }] : []
+      report("undeclared", `${objectType} has no field '${expression.name}'`, expression.nameSpan, fixes)
+      return null
+    }
+    if (!VECTOR.test(objectType)) return null
+    const type = swizzleType(objectType, expression.name)
+    if (type === undefined) report("type-mismatch", `'${expression.name}' is not a swizzle of ${article(objectType)}`, expression.nameSpan)
+    return type ?? null
+  }
+
+  function indexType(objectType: string | null) {
+    if (objectType === null) return null
+    if (isArray(objectType)) return elementType(objectType)
+    const matrix = matrixShape(objectType)
+    if (matrix) return vectorType("float", matrix.rows)
+    return VECTOR.test(objectType) ? scalarOf(objectType) : null
+  }
+
+  /**
+   * Reports `value` not fitting where ${target} is wanted, offering to write
+   * integer literals as floats when that's all it takes.
+   */
+  function checkAssignable(target: string | null, valueType: string | null, value: Expression, message: string) {
+    if (target === null || valueType === null || target === valueType) return
+    const literal = intLiteral(value)
+    const fixes = literal && target === "float" ? [floatLiteralFix([literal])] : []
+    report("type-mismatch", message, value, fixes)
+  }
+
+  function typeOf(expression: Expression, expected: string | null = null): string | null {
+    switch (expression.kind) {
+      case "identifier":
+        return identifierType(expression, expected)
+      case "literal":
+        return expression.type
+      case "call":
+        return callType(expression)
+      case "member":
+        return memberType(expression)
+      case "method": {
+        const objectType = typeOf(expression.object)
+        expression.args.forEach((arg) => typeOf(arg))
+        return expression.name === "length" && objectType !== null && (isArray(objectType) || componentCount(objectType) > 1) ? "int" : null
+      }
+      case "index": {
+        typeOf(expression.index)
+        return indexType(typeOf(expression.object))
+      }
+      case "unary": {
+        const type = typeOf(expression.operand, expected)
+        return expression.operator === "!" ? "bool" : type
+      }
+      case "binary": {
+        // Type the side that says more first, so an undeclared name on the other can take its type
+        const bare = expression.left.kind === "identifier"
+        const first = typeOf(bare ? expression.right : expression.left, expected)
+        const second = typeOf(bare ? expression.left : expression.right, first !== null && scalarOf(first) ? first : expected)
+        const [left, right] = bare ? [second, first] : [first, second]
+        const type = binaryType(expression.operator, left, right)
+        if (type !== undefined) return type
+        const literal = intLiteral(expression.left) ?? intLiteral(expression.right)
+        const retyped = literal === intLiteral(expression.left) ? binaryType(expression.operator, "float", right) : binaryType(expression.operator, left, "float")
+        const fixes = literal && retyped !== undefined ? [floatLiteralFix([literal])] : []
+        report("type-mismatch", `Can't use '${expression.operator}' on ${article(left!)} and ${article(right!)}`, expression, fixes)
+        return null
+      }
+      case "assign": {
+        const left = typeOf(expression.left)
+        const right = typeOf(expression.right, left)
+        if (left === null || right === null) return left
+        if (expression.operator === "=") {
+          checkAssignable(left, right, expression.right, `Can't assign ${article(right)} to ${article(left)}`)
+        } else {
+          const operator = expression.operator.slice(0, -1)
+          const result = binaryType(operator, left, right)
+          if (result !== left) {
+            const literal = intLiteral(expression.right)
+            const fixes = literal && binaryType(operator, left, "float") === left ? [floatLiteralFix([literal])] : []
+            report("type-mismatch", `Can't use '${expression.operator}' on ${article(left)} and ${article(right)}`, expression, fixes)
+          }
+        }
+        return left
+      }
+      case "ternary": {
+        typeOf(expression.condition)
+        const then = typeOf(expression.then, expected)
+        const otherwise = typeOf(expression.otherwise, then ?? expected)
+        return then ?? otherwise
+      }
+      case "sequence":
+        return expression.expressions.map((inner) => typeOf(inner)).at(-1) ?? null
+    }
+  }
+
+  // Declarations and statements
+
+  function declareStruct(type: TypeSpecifier) {
+    const struct = type.struct
+    if (!struct?.name) return
+    structs.set(
+      struct.name,
+      struct.fields.flatMap((field) => field.declarators.map((declarator) => ({ name: declarator.name, type: typeOfSpecifier(field.type, declarator.arraySize) })))
+    )
+  }
+
+  function declareVariables(declaration: VariableDeclaration, global: boolean) {
+    declareStruct(declaration.type)
+    for (const declarator of declaration.declarators) {
+      const type = typeOfSpecifier(declaration.type, declarator.arraySize)
+      if (declarator.initializer) {
+        const initializer = typeOf(declarator.initializer, type)
+        const message = type !== null && initializer !== null ? `Can't initialize ${article(type)} with ${article(initializer)}` : ""
+        checkAssignable(type, initializer, declarator.initializer, message)
+      }
+      const variable = declare(declarator.name, type, declaration.qualifiers, nameSpan(declarator))
+      if (global && reporting && declaration.qualifiers.includes("uniform")) {
+        variable.uniform = { declaration, declarator }
+        uniforms.push(variable)
+      }
+    }
+  }
+
+  function checkBlock(block: BlockStatement) {
+    scopes.push(new Map())
+    block.statements.forEach(checkStatement)
+    scopes.pop()
+  }
+
+  function checkStatement(statement: Statement) {
+    switch (statement.kind) {
+      case "block":
+        return checkBlock(statement)
+      case "declaration":
+        return declareVariables(statement.declaration, false)
+      case "expression":
+        typeOf(statement.expression)
+        return
+      case "if":
+        typeOf(statement.condition)
+        checkStatement(statement.then)
+        if (statement.otherwise) checkStatement(statement.otherwise)
+        return
+      case "for":
+        scopes.push(new Map())
+        if (statement.init) checkStatement(statement.init)
+        if (statement.condition) typeOf(statement.condition)
+        if (statement.update) typeOf(statement.update)
+        checkStatement(statement.body)
+        scopes.pop()
+        return
+      case "while":
+      case "do":
+        typeOf(statement.condition)
+        checkStatement(statement.body)
+        return
+      case "switch":
+        typeOf(statement.selector)
+        return checkBlock(statement.body)
+      case "case":
+        if (statement.value) typeOf(statement.value)
+        return
+      case "return": {
+        if (!statement.value) return
+        const type = typeOf(statement.value, current?.returnType)
+        if (!current || current.returnType === null || type === null) return
+        const message =
+          current.returnType === "void" ? `${current.name}() returns void, not a value` : `${current.name}() returns ${article(current.returnType)}, not ${article(type)}`
+        checkAssignable(current.returnType, type, statement.value, message)
+      }
+    }
+  }
+
+  function checkExternal(declaration: ExternalDeclaration) {
+    switch (declaration.kind) {
+      case "variable":
+        return declareVariables(declaration, true)
+      case "precision":
+        return
+      case "block": {
+        const members = declaration.members.flatMap((member) =>
+          member.declarators.map((declarator) => ({ name: declarator.name, type: typeOfSpecifier(member.type, declarator.arraySize), span: nameSpan(declarator) }))
+        )
+        if (declaration.instance) {
+          structs.set(declaration.name, members)
+          declare(declaration.instance.name, declaration.instance.arraySize !== undefined ? `${declaration.name}[]` : declaration.name, declaration.qualifiers, nameSpan(declaration.instance))
+        } else {
+          for (const member of members) declare(member.name, member.type, declaration.qualifiers, member.span).used = true
+        }
+        return
+      }
+      case "function": {
+        declareStruct(declaration.returnType)
+        const parameters = declaration.parameters.map((parameter) => {
+          declareStruct(parameter.type)
+          return typeOfSpecifier(parameter.type, parameter.arraySize)
+        })
+        const overloads = functions.get(declaration.name) ?? []
+        const signature = parameters.join(",")
+        if (parameters.every((parameter) => parameter !== null) && !overloads.some((overload) => overload.parameters.join(",") === signature)) {
+          overloads.push({ returnType: typeOfSpecifier(declaration.returnType) ?? "void", parameters: parameters as string[] })
+          functions.set(declaration.name, overloads)
+        }
+        if (!declaration.body) return
+        scopes.push(new Map())
+        declaration.parameters.forEach((parameter, index) => {
+          if (parameter.name) declare(parameter.name, parameters[index], parameter.qualifiers, parameter.nameSpan!)
+        })
+        current = { name: declaration.name, returnType: typeOfSpecifier(declaration.returnType) }
+        checkBlock(declaration.body)
+        current = null
+        scopes.pop()
+      }
+    }
+  }
+
+  const checkUnit = (unit: TranslationUnit) => {
+    for (const macro of unit.macros) macros.set(macro.name, macro.value)
+    unit.declarations.forEach(checkExternal)
+  }
+
+  const preludeUnit = parse(prelude)
+  const unit = parse(source)
+  checkUnit(preludeUnit)
+  reporting = true
+  checkUnit(unit)
+
+  for (const uniform of uniforms) {
+    if (uniform.used) continue
+    const { declaration, declarator } = uniform.uniform!
+    const index = declaration.declarators.indexOf(declarator)
+    const next = declaration.declarators[index + 1]
+    // Removing one of several names takes a comma with it
+    const edit =
+      declaration.declarators.length === 1
+        ? deletion(source, declaration)
+        : next
+          ? { start: declarator.start, end: next.start, text: "" }
+          : { start: declaration.declarators[index - 1].end, end: declarator.end, text: "" }
+    report("unused-uniform", `Uniform '${uniform.name}' is declared but never used`, uniform.span, [{ title: `Remove ${uniform.name}`, edits: [edit] }])
+  }
+
+  if (stage === "fragment") {
+    const hasPrecision = [...preludeUnit.declarations, ...unit.declarations].some(
+      (declaration) => declaration.kind === "precision" && declaration.type.name === "float"
+    )
+    const first = unit.declarations[0]
+    if (!hasPrecision && first) {
+      const offset = headerEnd(source)
+      const lineEnd = source.indexOf("\n", first.start)
+      report(
+        "precision",
+        "Fragment shaders have no default float precision; declare one with `precision mediump float;`",
+        { start: first.start, end: lineEnd < 0 ? first.end : Math.min(lineEnd, first.end) },
+        ["mediump", "highp"].map((precision) => ({
+          title: `Add precision ${precision} float`,
+          edits: [{ start: offset, end: offset, text: `precision ${precision} float;\n` }],
+        }))
+      )
+    }
+    if (vertexSource !== undefined) checkVaryings(unit, parse(vertexSource), version, report)
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start)
+}
+
+/** Fragment inputs must be declared by the vertex shader with the same type. */
+function checkVaryings(
+  fragment: TranslationUnit,
+  vertex: TranslationUnit,
+  version: GLSLVersion,
+  report: (code: AnalysisCode, message: string, span: Span, fixes?: AnalysisFix[]) => void
+) {
+  const globals = (unit: TranslationUnit, qualifier: string) =>
+    unit.declarations.flatMap((declaration) =>
+      declaration.kind === "variable" && (declaration.qualifiers.includes("varying") || declaration.qualifiers.includes(qualifier))
+        ? declaration.declarators.map((declarator) => ({ declaration, declarator }))
+        : []
+    )
+  const outputs = new Map(
+    globals(vertex, version === 300 ? "out" : "varying").map(({ declaration, declarator }) => [
+      declarator.name,
+      `${canonical(declaration.type.name)}${declaration.type.arraySize !== undefined || declarator.arraySize !== undefined ? "[]" : ""}`,
+    ])
+  )
+  for (const { declaration, declarator } of globals(fragment, version === 300 ? "in" : "varying")) {
+    const span = nameSpan(declarator)
+    const type = `${canonical(declaration.type.name)}${declaration.type.arraySize !== undefined || declarator.arraySize !== undefined ? "[]" : ""}`
+    const output = outputs.get(declarator.name)
+    if (output === undefined) {
+      report("varying", `The vertex shader doesn't output '${declarator.name}'`, span)
+    } else if (output !== type) {
+      const fixes =
+        declaration.declarators.length === 1 && !output.endsWith("[]") && !type.endsWith("[]")
+          ? [{ title: `Change the type to ${output}`, edits: [{ start: declaration.type.start, end: declaration.type.end, text: output }] }]
+          : []
+      report("varying", `'${declarator.name}' is ${article(output)} in the vertex shader but ${article(type)} here`, span, fixes)
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import type { Monaco } from "@monaco-editor/react"
+import type { IRange, languages } from "monaco-editor"
+import {
+  BUILTIN_FUNCTIONS,
+  BUILTIN_STRUCTS,
+  BUILTIN_VARIABLES,
+  EXTENSIONS,
+  KEYWORDS,
+  PREPROCESSOR_DIRECTIVES,
+  TYPE_NAMES,
+  TYPES,
+  formatOverload,
+  glslVersion,
+  isAvailable,
+  type GLSLVersion,
+} from "@/lib/glsl/builtins"
+import { getGLSLDocument } from "@/lib/glsl/documents"
+import { describeSymbol, scanSymbols, symbolsAt, type GLSLSymbol } from "@/lib/glsl/symbols"
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+
+// Suggestions are grouped: the document's own names, then built-ins, then the language
+const SORT = { local: "0", global: "1", builtinVariable: "2", builtinFunction: "3", type: "4", keyword: "5" }
+
+const SWIZZLE_SETS = ["xyzw", "rgba", "stpq"]
+
+/** The value a member access applies to: a type, plus the array size when it is an array. */
+interface ValueType {
+  type: string
+  arraySize?: string
+}
+
+interface MemberChain {
+  /** The identifier the chain starts from, or the function called there. */
+  base: string
+  call: boolean
+  /** Accessors after the base: ".name" or "[]". */
+  path: string[]
+}
+
+function vectorInfo(type: string) {
+  const match = type.match(/^([biu]?)vec([234])$/)
+  if (!match) return null
+  const scalar = { b: "bool", i: "int", u: "uint", "": "float" }[match[1]]!
+  return { scalar, prefix: match[1], size: Number(match[2]) }
+}
+
+// Drops a precision qualifier from built-in variable types like "highp vec4"
+const bareType = (type: string) => type.replace(/^(?:highp|mediump|lowp)\s+/, "")
+
+/**
+ * Reads the expression before a trailing `.` backwards, e.g. `a.b[i].`
+ * gives base "a" and path [".b", "[]"]. Returns null for expressions this
+ * can't follow, and for number literals like `1.`.
+ */
+function memberChain(before: string): MemberChain | null {
+  const text = before.trimEnd()
+  const path: string[] = []
+  let i = text.length - 2
+
+  const skipSpace = () => {
+    while (i >= 0 && /\s/.test(text[i])) i--
+  }
+  const skipBracket = (open: string, close: string) => {
+    let depth = 0
+    for (; i >= 0; i--) {
+      if (text[i] === close) depth++
+      else if (text[i] === open && --depth === 0) {
+        i--
+        return true
+      }
+    }
+    return false
+  }
+  const readIdentifier = () => {
+    const end = i + 1
+    while (i >= 0 && /\w/.test(text[i])) i--
+    const name = text.slice(i + 1, end)
+    return /^[A-Za-z_]/.test(name) ? name : null
+  }
+
+  for (;;) {
+    skipSpace()
+    if (text[i] === "]") {
+      if (!skipBracket("[", "]")) return null
+      path.unshift("[]")
+      continue
+    }
+    if (text[i] === ")") {
+      if (!skipBracket("(", ")")) return null
+      skipSpace()
+      const name = readIdentifier()
+      skipSpace()
+      // Calls on members (`a.length()`) aren't followed
+      return name && text[i] !== "." ? { base: name, call: true, path } : null
+    }
+    const name = readIdentifier()
+    if (!name) return null
+    skipSpace()
+    if (text[i] !== ".") return { base: name, call: false, path }
+    path.unshift(`.${name}`)
+    i--
+  }
+}
+
+/**
+ * Works out what a member chain evaluates to from the declarations in scope,
+ * or null when that can't be told without a full type checker.
+ */
+function resolveChain(chain: MemberChain, symbols: GLSLSymbol[], version: GLSLVersion, stage: ShaderStage): ValueType | null {
+  // Later declarations shadow earlier ones
+  const lookup = (name: string, kinds: GLSLSymbol["kind"][]) => [...symbols].reverse().find((symbol) => symbol.name === name && kinds.includes(symbol.kind))
+
+  let value: ValueType | null = null
+  if (chain.call) {
+    const fn = lookup(chain.base, ["function"])
+    if (TYPE_NAMES.has(chain.base) || lookup(chain.base, ["struct"])) value = { type: chain.base }
+    else if (fn) value = { type: fn.type }
+    else {
+      const returnTypes = new Set(
+        BUILTIN_FUNCTIONS.filter((overload) => overload.name === chain.base && isAvailable(overload, version, stage)).map((overload) => overload.returnType)
+      )
+      // Generic return types depend on the arguments
+      const [returnType] = returnTypes
+      if (returnTypes.size === 1 && TYPE_NAMES.has(returnType)) value = { type: returnType }
+    }
+  } else {
+    const variable = lookup(chain.base, ["variable", "parameter"])
+    const builtin = BUILTIN_VARIABLES.find((entry) => entry.name === chain.base && isAvailable(entry, version, stage))
+    if (variable) value = { type: variable.type, arraySize: variable.arraySize }
+    else if (builtin) value = { type: bareType(builtin.type), arraySize: builtin.arraySize }
+  }
+
+  for (const step of chain.path) {
+    if (!value) return null
+    const vector = vectorInfo(value.type)
+    if (step === "[]") {
+      const matrix = value.type.match(/^mat(\d)(?:x(\d))?$/)
+      if (value.arraySize !== undefined) value = { type: value.type }
+      else if (vector) value = { type: vector.scalar }
+      else if (matrix) value = { type: `vec${matrix[2] ?? matrix[1]}` }
+      else return null
+    } else if (value.arraySize !== undefined) {
+      return null
+    } else if (vector) {
+      const swizzle = step.slice(1)
+      const valid = SWIZZLE_SETS.some((set) => [...swizzle].every((c) => set.slice(0, vector.size).includes(c)))
+      if (!valid || swizzle.length > 4) return null
+      value = { type: swizzle.length === 1 ? vector.scalar : `${vector.prefix}vec${swizzle.length}` }
+    } else {
+      const fields = lookup(value.type, ["struct"])?.members ?? BUILTIN_STRUCTS[value.type]
+      const field = fields?.find((member) => member.name === step.slice(1))
+      if (!field) return null
+      value = { type: bareType(field.type), arraySize: field.arraySize }
+    }
+  }
+  return value
+}
+
+/** Swizzles worth offering for a vector: single components, the usual prefixes, and one more component on what's typed. */
+function swizzles(size: number, typed: string) {
+  const result = new Set<string>()
+  for (const set of SWIZZLE_SETS) {
+    const components = set.slice(0, size)
+    for (const component of components) result.add(component)
+    for (let length = 2; length <= size; length++) result.add(components.slice(0, length))
+    if (typed && typed.length <= 4 && [...typed].every((c) => components.includes(c))) {
+      result.add(typed)
+      if (typed.length < 4) for (const component of components) result.add(typed + component)
+    }
+  }
+  return [...result]
+}
+
+function isInComment(text: string) {
+  const comments = [...text.matchAll(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g)]
+  const last = comments.at(-1)
+  return !!last && last.index + last[0].length === text.length && !last[0].endsWith("*/")
+}
+
+/**
+ * Completions for the `glsl` language: built-in functions, types,
+ * qualifiers and gl_* variables for the document's GLSL version and stage,
+ * the document's own declarations in scope, swizzles and struct fields
+ * after `.`, and preprocessor directives.
+ */
+export function createCompletionProvider(monaco: Monaco): languages.CompletionItemProvider {
+  const { CompletionItemKind: Kind, CompletionItemInsertTextRule: InsertRule } = monaco.languages
+  // Accepting a function puts the cursor between its parentheses and shows its parameters
+  const callSnippet = (name: string) => ({
+    insertText: `${name}($0)`,
+    insertTextRules: InsertRule.InsertAsSnippet,
+    command: { id: "editor.action.triggerParameterHints", title: "Show parameters" },
+  })
+
+  return {
+    triggerCharacters: [".", "#"],
+    provideCompletionItems(model, position) {
+      const document = getGLSLDocument(model)
+      const text = model.getValue()
+      const version = glslVersion(text)
+      const { stage } = document
+      const offset = model.getOffsetAt(position)
+      const word = model.getWordUntilPosition(position)
+      const range: IRange = {
+        startLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endLineNumber: position.lineNumber,
+        endColumn: word.endColumn,
+      }
+      const line = model.getLineContent(position.lineNumber).slice(0, position.column - 1)
+      const item = (label: string, kind: languages.CompletionItemKind, sortText: string, extra: Omit<Partial<languages.CompletionItem>, "label"> = {}) => ({
+        label,
+        kind,
+        insertText: label,
+        range,
+        sortText: `${sortText}${label}`,
+        ...extra,
+      })
+
+      if (isInComment(text.slice(0, offset))) return { suggestions: [] }
+
+      // Preprocessor lines
+      if (/^\s*#\s*\w*$/.test(line)) {
+        return { suggestions: PREPROCESSOR_DIRECTIVES.map((directive) => item(directive, Kind.Keyword, SORT.keyword)) }
+      }
+      if (/^\s*#\s*extension\s+\w*$/.test(line)) {
+        return {
+          suggestions: EXTENSIONS.filter((extension) => extension.versions.includes(version)).map((extension) =>
+            item(extension.name, Kind.Module, SORT.keyword, { insertText: `${extension.name} : enable` })
+          ),
+        }
+      }
+      if (/^\s*#\s*version\s+\w*$/.test(line)) {
+        return { suggestions: ["100", "300 es"].map((value) => item(value, Kind.Constant, SORT.keyword)) }
+      }
+      if (/^\s*#/.test(line) && !/^\s*#\s*(define|undef|if|ifdef|ifndef|elif)\b/.test(line)) return { suggestions: [] }
+
+      const symbols = [...scanSymbols(document.prelude), ...symbolsAt(scanSymbols(text), offset)]
+
+      // Member access: swizzles, struct fields, array length
+      const before = text.slice(0, offset - word.word.length)
+      if (before.trimEnd().endsWith(".")) {
+        const chain = memberChain(before)
+        const value = chain && resolveChain(chain, symbols, version, stage)
+        const suggestions: languages.CompletionItem[] = []
+        const vector = value && value.arraySize === undefined ? vectorInfo(value.type) : null
+        if (value?.arraySize !== undefined && version === 300) {
+          suggestions.push(item("length", Kind.Method, SORT.local, { detail: "int length()", insertText: "length()" }))
+        } else if (vector) {
+          swizzles(vector.size, word.word).forEach((swizzle, index) =>
+            suggestions.push(
+              item(swizzle, Kind.Property, `${SORT.local}${String(index).padStart(3, "0")}`, {
+                detail: swizzle.length === 1 ? vector.scalar : `${vector.prefix}vec${swizzle.length}`,
+              })
+            )
+          )
+        } else if (value) {
+          const fields = [...symbols].reverse().find((symbol) => symbol.kind === "struct" && symbol.name === value.type)?.members ?? BUILTIN_STRUCTS[value.type] ?? []
+          for (const field of fields) suggestions.push(item(field.name, Kind.Field, SORT.local, { detail: bareType(field.type) }))
+        }
+        return { suggestions }
+      }
+
+      const suggestions: languages.CompletionItem[] = []
+      const seen = new Set<string>()
+      const add = (suggestion: languages.CompletionItem & { label: string }) => {
+        if (seen.has(suggestion.label)) return
+        seen.add(suggestion.label)
+        suggestions.push(suggestion)
+      }
+
+      // The document's own names; the nearest declaration wins for shadowed locals
+      for (const symbol of [...symbols].reverse()) {
+        if (symbol.kind === "field") continue
+        const sort = symbol.scope ? SORT.local : SORT.global
+        if (symbol.kind === "function") {
+          const overloads = new Set(symbols.filter((other) => other.kind === "function" && other.name === symbol.name).map(describeSymbol))
+          add(
+            item(symbol.name, Kind.Function, sort, {
+              detail: describeSymbol(symbol) + (overloads.size > 1 ? ` (+${overloads.size - 1} overloads)` : ""),
+              ...callSnippet(symbol.name),
+            })
+          )
+        } else {
+          const kind = { struct: Kind.Struct, macro: Kind.Constant, parameter: Kind.Variable, variable: Kind.Variable }[symbol.kind]
+          add(item(symbol.name, kind, sort, { detail: describeSymbol(symbol) }))
+        }
+      }
+
+      for (const variable of BUILTIN_VARIABLES) {
+        if (!isAvailable(variable, version, stage)) continue
+        const array = variable.arraySize ? `[${variable.arraySize}]` : ""
+        add(
+          item(variable.name, variable.qualifier === "const" ? Kind.Constant : Kind.Variable, SORT.builtinVariable, {
+            detail: `${variable.qualifier} ${variable.type}${array}`,
+          })
+        )
+      }
+
+      const functionNames = [...new Set(BUILTIN_FUNCTIONS.map((overload) => overload.name))]
+      for (const name of functionNames) {
+        const overloads = BUILTIN_FUNCTIONS.filter((overload) => overload.name === name && isAvailable(overload, version, stage))
+        if (!overloads.length) continue
+        add(
+          item(name, Kind.Function, SORT.builtinFunction, {
+            detail: formatOverload(overloads[0]) + (overloads.length > 1 ? ` (+${overloads.length - 1} overloads)` : ""),
+            ...callSnippet(name),
+          })
+        )
+      }
+
+      for (const type of TYPES) {
+        if (type.versions.includes(version)) add(item(type.name, Kind.Class, SORT.type, { detail: "type" }))
+      }
+      for (const keyword of KEYWORDS) {
+        if (keyword.versions.includes(version)) add(item(keyword.name, Kind.Keyword, SORT.keyword, { detail: keyword.kind }))
+      }
+
+      return { suggestions }
+    },
+  }
+}
@@ -0,0 +1,224 @@
+import type { Monaco } from "@monaco-editor/react"
+import type { editor } from "monaco-editor"
+import { glslVersion, type GLSLVersion } from "@/lib/glsl/builtins"
+import type { BufferId } from "@/lib/runtime/protocol"
+
+export type ShaderStage = "vertex" | "fragment"
+
+export interface ShaderDiagnostic {
+  stage: ShaderStage
+  severity: "error" | "warning"
+  /** 1-based line in the editor source. */
+  line: number
+  message: string
+  /** Identifier the driver quoted in the message, used to narrow the marker range. */
+  token?: string
+  /** True for diagnostics that come from linking rather than compiling one stage. */
+  link?: boolean
+  /** Set when the diagnostic belongs to a buffer pass; `stage` is then "fragment". */
+  buffer?: BufferId
+}
+
+// ANGLE / Mesa / Apple style: "ERROR: 0:12: 'foo' : undeclared identifier"
+const colonFormat = /^\s*(ERROR|WARNING)\s*:\s*\d+\s*:\s*(\d+)\s*:\s*(.*)$/i
+// NVIDIA style: "0(12) : error C1008: undefined variable "foo""
+const parenFormat = /^\s*\d+\s*\(\s*(\d+)\s*\)\s*:\s*(error|warning)\s*(?:[A-Z]\d+\s*)?:?\s*(.*)$/i
+// A severity without a location, e.g. "ERROR: too many uniforms"
+const bareFormat = /^\s*(ERROR|WARNING)\s*:\s*(.*)$/i
+// Summary line ANGLE appends after the real errors
+const summaryLine = /compilation errors?\.\s*No code generated/i
+
+function quotedToken(message: string) {
+  const match = message.match(/['"`]([A-Za-z_][\w]*)['"`]/)
+  return match?.[1]
+}
+
+function severityOf(word: string): ShaderDiagnostic["severity"] {
+  return word.toLowerCase() === "warning" ? "warning" : "error"
+}
+
+/**
+ * Turns a driver info log into diagnostics. Lines the parser cannot place
+ * are attached to line 1 so nothing the driver reported is dropped.
+ */
+export function parseInfoLog(log: string, stage: ShaderStage): ShaderDiagnostic[] {
+  const diagnostics: ShaderDiagnostic[] = []
+
+  for (const raw of log.split(/\r?\n/)) {
+    const text = raw.replace(/\0/g, "").trim()
+    if (!text || summaryLine.test(text)) continue
+
+    let match = text.match(colonFormat)
+    if (match) {
+      const message = match[3].trim()
+      diagnostics.push({ stage, severity: severityOf(match[1]), line: Math.max(1, Number(match[2])), message, token: quotedToken(message) })
+      continue
+    }
+
+    match = text.match(parenFormat)
+    if (match) {
+      const message = match[3].trim()
+      diagnostics.push({ stage, severity: severityOf(match[2]), line: Math.max(1, Number(match[1])), message, token: quotedToken(message) })
+      continue
+    }
+
+    match = text.match(bareFormat)
+    const message = (match ? match[2] : text).trim()
+    diagnostics.push({ stage, severity: match ? severityOf(match[1]) : "error", line: 1, message, token: quotedToken(message) })
+  }
+
+  return diagnostics
+}
+
+function findDeclarationLine(source: string, name: string) {
+  const lines = source.split("\n")
+  const declaration = new RegExp(`\\b(attribute|uniform|varying|in|out)\\b[^;]*\\b${name}\\b`)
+  const index = lines.findIndex((line) => declaration.test(line))
+  if (index >= 0) return index + 1
+  const usage = new RegExp(`\\b${name}\\b`)
+  const fallback = lines.findIndex((line) => usage.test(line))
+  return fallback >= 0 ? fallback + 1 : 1
+}
+
+/**
+ * Link errors have no line numbers and usually concern both stages (e.g. a
+ * varying declared differently on each side), so each one is reported on
+ * both sources, at the declaration of the symbol it names when it can be found.
+ */
+export function parseLinkLog(log: string, sources: Record<ShaderStage, string>): ShaderDiagnostic[] {
+  const diagnostics: ShaderDiagnostic[] = []
+
+  for (const raw of log.split(/\r?\n/)) {
+    const text = raw.replace(/\0/g, "").trim()
+    if (!text) continue
+
+    const match = text.match(bareFormat)
+    const message = (match ? match[2] : text).trim()
+    const severity = match ? severityOf(match[1]) : "error"
+    // Link logs often end with the offending name instead of quoting it
+    const token = quotedToken(message) ?? message.match(/:\s*([A-Za-z_]\w*)\s*$/)?.[1]
+
+    for (const stage of ["vertex", "fragment"] as const) {
+      const line = token ? findDeclarationLine(sources[stage], token) : 1
+      diagnostics.push({ stage, severity, line, message: `Link: ${message}`, token, link: true })
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Moves one stage's diagnostics up by `lineOffset` lines, for sources that
+ * were compiled with a generated header above the user's code.
+ */
+export function offsetDiagnostics(diagnostics: ShaderDiagnostic[], stage: ShaderStage, lineOffset: number) {
+  if (!lineOffset) return diagnostics
+  return diagnostics.map((diagnostic) =>
+    diagnostic.stage === stage ? { ...diagnostic, line: Math.max(1, diagnostic.line - lineOffset) } : diagnostic
+  )
+}
+
+type CompilerContext = WebGLRenderingContext | WebGL2RenderingContext
+
+const compilerContexts = new Map<GLSLVersion, CompilerContext | null>()
+
+/**
+ * A context that compiles shaders of `version`: WebGL2 for GLSL ES 3.00,
+ * which the OGL template renders with, and WebGL1 for 1.00 like the raw
+ * template (or WebGL2, where WebGL1 is missing).
+ */
+function getCompilerContext(version: GLSLVersion) {
+  if (!compilerContexts.has(version)) {
+    const canvas = () => document.createElement("canvas")
+    const gl: CompilerContext | null = version === 300 ? canvas().getContext("webgl2") : canvas().getContext("webgl") ?? canvas().getContext("webgl2")
+    // Match the extensions the preview runtime enables
+    gl?.getExtension("OES_standard_derivatives")
+    compilerContexts.set(version, gl)
+  }
+  return compilerContexts.get(version) ?? null
+}
+
+function compileStage(gl: CompilerContext, type: number, source: string, stage: ShaderStage) {
+  const shader = gl.createShader(type)
+  if (!shader) return { shader: null, diagnostics: [] }
+
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+
+  const log = gl.getShaderInfoLog(shader) || ""
+  const diagnostics = parseInfoLog(log, stage)
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    if (!diagnostics.some((d) => d.severity === "error")) {
+      diagnostics.push({ stage, severity: "error", line: 1, message: "Shader failed to compile" })
+    }
+    gl.deleteShader(shader)
+    return { shader: null, diagnostics }
+  }
+
+  return { shader, diagnostics }
+}
+
+/**
+ * Compiles and links both stages on a private offscreen WebGL context and
+ * returns everything the driver reported. Returns `null` when WebGL is not
+ * available, so callers can tell "no errors" apart from "not checked".
+ */
+export function compileShaders(vertexSource: string, fragmentSource: string): ShaderDiagnostic[] | null {
+  const gl = getCompilerContext(Math.max(glslVersion(vertexSource), glslVersion(fragmentSource)) as GLSLVersion)
+  if (!gl || gl.isContextLost()) return null
+
+  const vertex = compileStage(gl, gl.VERTEX_SHADER, vertexSource, "vertex")
+  const fragment = compileStage(gl, gl.FRAGMENT_SHADER, fragmentSource, "fragment")
+  const diagnostics = [...vertex.diagnostics, ...fragment.diagnostics]
+
+  if (vertex.shader && fragment.shader) {
+    const program = gl.createProgram()
+    if (program) {
+      gl.attachShader(program, vertex.shader)
+      gl.attachShader(program, fragment.shader)
+      gl.linkProgram(program)
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program) || "Program failed to link"
+        diagnostics.push(...parseLinkLog(log, { vertex: vertexSource, fragment: fragmentSource }))
+      }
+      gl.deleteProgram(program)
+    }
+  }
+
+  if (vertex.shader) gl.deleteShader(vertex.shader)
+  if (fragment.shader) gl.deleteShader(fragment.shader)
+
+  return diagnostics
+}
+
+/**
+ * Converts diagnostics for one model into Monaco markers. When the driver
+ * quoted an identifier that appears on the reported line, only that word is
+ * underlined; otherwise the whole (trimmed) line is.
+ */
+export function toMarkers(monaco: Monaco, model: editor.ITextModel, diagnostics: ShaderDiagnostic[]): editor.IMarkerData[] {
+  return diagnostics.map((diagnostic) => {
+    const lineNumber = Math.min(diagnostic.line, model.getLineCount())
+    const content = model.getLineContent(lineNumber)
+    let startColumn = content.length - content.trimStart().length + 1
+    let endColumn = Math.max(model.getLineMaxColumn(lineNumber), startColumn + 1)
+
+    if (diagnostic.token) {
+      const index = content.search(new RegExp(`\\b${diagnostic.token}\\b`))
+      if (index >= 0) {
+        startColumn = index + 1
+        endColumn = startColumn + diagnostic.token.length
+      }
+    }
+
+    return {
+      severity: diagnostic.severity === "warning" ? monaco.MarkerSeverity.Warning : monaco.MarkerSeverity.Error,
+      message: diagnostic.message,
+      source: diagnostic.link ? "GLSL linker" : "GLSL compiler",
+      startLineNumber: lineNumber,
+      startColumn,
+      endLineNumber: lineNumber,
+      endColumn,
+    }
+  })
+}
@@ -0,0 +1,33 @@
+import type { editor, Uri } from "monaco-editor"
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+
+/**
+ * What the GLSL language features know about a shader model beyond its
+ * text: the stage it is compiled as, the program it is linked into, and
+ * the declarations it gets without writing them (Shadertoy mode's inputs).
+ */
+export interface GLSLDocument {
+  stage: ShaderStage
+  /** Source compiled above the document's own text. */
+  prelude: string
+  /**
+   * The program the shader is linked into; its stages share varyings, and
+   * every program shares uniforms. Null for models the sketch doesn't use,
+   * like removed buffers'.
+   */
+  program: string | null
+}
+
+const documents = new Map<string, GLSLDocument>()
+
+const pathOf = (uri: Uri) => uri.path.replace(/^\//, "")
+
+/** Describes the model at `path` (as given to the editor), whether or not it exists yet. */
+export function setGLSLDocument(path: string, document: GLSLDocument) {
+  documents.set(path, document)
+}
+
+/** Models nobody described are treated as plain fragment shaders. */
+export function getGLSLDocument(model: editor.ITextModel): GLSLDocument {
+  return documents.get(pathOf(model.uri)) ?? { stage: "fragment", prelude: "", program: null }
+}
@@ -0,0 +1,238 @@
+/**
+ * Formatting for the `glsl` language: re-indents by brace depth, puts
+ * opening braces on the line of their statement (and `else` after the
+ * closing one), spaces operators and punctuation consistently, and starts
+ * preprocessor lines at column 0. Line breaks inside statements are kept;
+ * continuation lines keep their alignment relative to the statement.
+ */
+import type { languages } from "monaco-editor"
+
+export interface FormatOptions {
+  tabSize: number
+  insertSpaces: boolean
+}
+
+interface LineToken {
+  text: string
+  kind: "comment" | "word" | "symbol"
+  /** Unary and prefix operators, which hug what follows. */
+  prefix?: boolean
+  /** `i++`, which hugs what precedes. */
+  postfix?: boolean
+}
+
+const TOKEN = /(\/\/.*|\/\*.*?\*\/|\/\*.*)|([A-Za-z_]\w*|0[xX][0-9a-fA-F]+[uU]?|(?:\d+\.\d*|\.\d+|\d+)(?:[eE][+-]?\d+)?[uUfF]?)|(<<=|>>=|\+\+|--|[-+*/%&|^<>=!]=|&&|\|\||\^\^|<<|>>|\S)/g
+
+// Parentheses after these open a condition, not a call
+const CONTROL_WORDS = new Set(["if", "for", "while", "switch", "return"])
+
+// What an operator after these applies to comes next: `return -x`, `(-x)`, `a = -x`
+const endsOperand = (token?: LineToken) =>
+  !!token && (token.kind === "word" ? token.text !== "return" && token.text !== "case" : token.text === ")" || token.text === "]" || !!token.postfix)
+
+function tokenizeLine(code: string, previous?: LineToken) {
+  const tokens: LineToken[] = []
+  // The last code token; comments between an operand and an operator don't change what the operator is
+  let before = previous
+  for (const match of code.matchAll(TOKEN)) {
+    const token: LineToken = { text: match[0], kind: match[1] ? "comment" : match[2] ? "word" : "symbol" }
+    if (token.text === "!" || token.text === "~") token.prefix = true
+    else if (token.text === "+" || token.text === "-") token.prefix = !endsOperand(before)
+    else if (token.text === "++" || token.text === "--") {
+      if (endsOperand(before)) token.postfix = true
+      else token.prefix = true
+    }
+    tokens.push(token)
+    if (token.kind !== "comment") before = token
+  }
+  return tokens
+}
+
+function spaced(previous: LineToken, token: LineToken, caseLabel: boolean) {
+  if (token.kind === "comment" || previous.kind === "comment") return true
+  if ([",", ";", ")", "]", "."].includes(token.text) || token.postfix) return false
+  if (token.text === ":") return !caseLabel
+  if (["(", "[", "."].includes(previous.text) || previous.prefix) return false
+  if (token.text === "(") return previous.kind === "word" ? CONTROL_WORDS.has(previous.text) : previous.text !== ")" && previous.text !== "]"
+  if (token.text === "[") return previous.kind !== "word" && previous.text !== ")" && previous.text !== "]"
+  return true
+}
+
+const joinTokens = (tokens: LineToken[], caseLabel: boolean) =>
+  tokens.map((token, index) => (index && spaced(tokens[index - 1], token, caseLabel) ? " " : "") + token.text).join("")
+
+const columns = (whitespace: string, tabSize: number) => [...whitespace].reduce((width, c) => width + (c === "\t" ? tabSize : 1), 0)
+
+interface OutputLine {
+  /** Index of the source line it comes from. */
+  line: number
+  text: string
+  /** Last code token, for deciding whether a following `{` or `else` joins this line; unset when nothing may. */
+  last?: string
+  /** Whether the line is nothing but `}`. */
+  closeOnly?: boolean
+}
+
+/**
+ * Formats `source`, returning the new text of lines `from` to `to`
+ * (0-based, inclusive; the whole source by default). Lines before `from`
+ * are read for context, so a range is indented as it would be in a full
+ * format.
+ */
+export function formatGLSL(source: string, options: FormatOptions, from = 0, to = Infinity) {
+  const lines = source.split(/\r?\n/)
+  const unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t"
+  const output: OutputLine[] = []
+  // One entry per open brace: whether it opened a switch's block
+  const blocks: boolean[] = []
+  let parens = 0
+  let inComment = false
+  let inDirective = false
+  let lastToken: LineToken | undefined
+  let statementStart: string | undefined
+  // Where the current statement started, in the source and the output, for continuation lines
+  let statement = { sourceIndent: 0, indent: "" }
+
+  const indentOf = (level: number) => unit.repeat(Math.max(level, 0))
+  const depth = () => blocks.reduce((level, isSwitch) => level + (isSwitch ? 2 : 1), 0)
+  const emit = (line: OutputLine) => {
+    // At most one blank line in a row
+    if (!line.text && (!output.length || !output.at(-1)!.text)) return
+    output.push(line)
+  }
+
+  lines.forEach((raw, line) => {
+    const trimmed = raw.trim()
+    const sourceIndent = columns(raw.slice(0, raw.length - raw.trimStart().length), options.tabSize)
+
+    if (inComment || inDirective) {
+      // Inside block comments and continued directives, only trailing whitespace goes
+      if (inComment && trimmed.includes("*/")) inComment = false
+      if (inDirective) inDirective = trimmed.endsWith("\\")
+      output.push({ line, text: raw.trimEnd() })
+      return
+    }
+    if (!trimmed) {
+      emit({ line, text: "" })
+      return
+    }
+    if (trimmed.startsWith("#")) {
+      inDirective = trimmed.endsWith("\\")
+      output.push({ line, text: trimmed.replace(/^#\s*/, "#") })
+      return
+    }
+
+    const tokens = tokenizeLine(trimmed, lastToken)
+    const comment = tokens.at(-1)?.kind === "comment" ? tokens.at(-1)! : undefined
+    inComment = !!comment && comment.text.startsWith("/*") && !comment.text.endsWith("*/")
+    const code = tokens.filter((token) => token.kind !== "comment")
+    const first = code[0]
+
+    // Leading closers belong to the enclosing block's level
+    let leading = 0
+    while (code[leading]?.text === "}") {
+      blocks.pop()
+      leading++
+    }
+    const caseLabel = first?.text === "case" || first?.text === "default"
+    const continuation = parens > 0 || (!!first && leading === 0 && first.text !== "{" && lastToken !== undefined && ![";", "{", "}", ":"].includes(lastToken.text))
+    const level = depth() - (caseLabel && blocks.at(-1) ? 1 : 0)
+
+    let indent = indentOf(level)
+    if (continuation && first) {
+      // Keep alignment deeper than the statement's first line; otherwise indent one step,
+      // except for a closing `)` lined up with the statement
+      const relative = sourceIndent - statement.sourceIndent
+      if (relative > 0) indent = statement.indent + " ".repeat(relative)
+      else indent = first.text === ")" || first.text === "]" ? statement.indent : statement.indent + unit
+    } else if (first) {
+      statement = { sourceIndent, indent }
+    }
+    if (first && !continuation && first.text !== "{") statementStart = first.text
+
+    for (const token of code.slice(leading)) {
+      if (token.text === "{") blocks.push(statementStart === "switch")
+      else if (token.text === "}") blocks.pop()
+      else if (token.text === "(" || token.text === "[") parens++
+      else if (token.text === ")" || token.text === "]") parens = Math.max(parens - 1, 0)
+    }
+    if (code.length) lastToken = code.at(-1)
+
+    const text = joinTokens(tokens, caseLabel)
+    const previous = output.at(-1)
+    const joinable = previous && previous.line >= from && line <= to && previous.last !== undefined
+    // `{` on its own line moves up to its statement; `else` moves up after `}`
+    if (joinable && first?.text === "{" && code.length === 1 && ![";", "{", "}"].includes(previous.last!)) {
+      previous.text += ` ${text}`
+      previous.last = "{"
+      previous.closeOnly = false
+      return
+    }
+    if (joinable && first?.text === "else" && previous.closeOnly) {
+      previous.text += ` ${text}`
+      previous.last = code.at(-1)!.text
+      previous.closeOnly = false
+      return
+    }
+    // Nothing joins a line ending in a comment
+    output.push({ line, text: indent + text, last: comment ? undefined : code.at(-1)?.text, closeOnly: !comment && code.length === 1 && first?.text === "}" })
+  })
+
+  const selected = output.filter((entry) => entry.line >= from && entry.line <= to).map((entry) => entry.text)
+  // A formatted document ends in exactly one line break, if it had one
+  if (to >= lines.length - 1) {
+    while (selected.length && !selected.at(-1)) selected.pop()
+    if (source.endsWith("\n")) selected.push("")
+  }
+  return selected.join("\n")
+}
+
+const fullLines = (model: { getLineMaxColumn(line: number): number }, start: number, end: number) => ({
+  startLineNumber: start,
+  startColumn: 1,
+  endLineNumber: end,
+  endColumn: model.getLineMaxColumn(end),
+})
+
+export function createDocumentFormattingProvider(): languages.DocumentFormattingEditProvider {
+  return {
+    displayName: "GLSL",
+    provideDocumentFormattingEdits(model, options) {
+      return [{ range: model.getFullModelRange(), text: formatGLSL(model.getValue(), options) }]
+    },
+  }
+}
+
+export function createRangeFormattingProvider(): languages.DocumentRangeFormattingEditProvider {
+  return {
+    displayName: "GLSL",
+    provideDocumentRangeFormattingEdits(model, range, options) {
+      const { startLineNumber: start, endLineNumber: end } = range
+      return [{ range: fullLines(model, start, end), text: formatGLSL(model.getValue(), options, start - 1, end - 1) }]
+    },
+  }
+}
+
+/** Formats each statement as its `;` is typed, and each block as its `}` is. */
+export function createOnTypeFormattingProvider(): languages.OnTypeFormattingEditProvider {
+  return {
+    autoFormatTriggerCharacters: [";", "}"],
+    provideOnTypeFormattingEdits(model, position, character, options) {
+      let start = position.lineNumber
+      if (character === "}") {
+        // Back to the line with the matching `{`
+        const before = model.getValueInRange({ startLineNumber: 1, startColumn: 1, endLineNumber: position.lineNumber, endColumn: position.column - 1 })
+        let depth = 0
+        for (let i = before.length - 1; i >= 0; i--) {
+          if (before[i] === "}") depth++
+          else if (before[i] === "{" && depth-- === 0) {
+            start = model.getPositionAt(i).lineNumber
+            break
+          }
+        }
+      }
+      const end = position.lineNumber
+      return [{ range: fullLines(model, start, end), text: formatGLSL(model.getValue(), options, start - 1, end - 1) }]
+    },
+  }
+}
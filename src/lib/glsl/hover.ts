@@ -0,0 +1,71 @@
+import type { Monaco } from "@monaco-editor/react"
+import type { languages } from "monaco-editor"
+import { formatOverload, glslVersion } from "@/lib/glsl/builtins"
+import { getGLSLDocument } from "@/lib/glsl/documents"
+import { genericTypesIn, lookupReference } from "@/lib/glsl/reference"
+import { describeSymbol, scanSymbols, symbolsAt, type GLSLSymbol } from "@/lib/glsl/symbols"
+
+const codeBlock = (lines: string[]) => ({ value: `\`\`\`glsl\n${lines.join("\n")}\n\`\`\`` })
+
+function declarationOf(symbol: GLSLSymbol): string {
+  const array = symbol.arraySize !== undefined ? `[${symbol.arraySize}]` : ""
+  switch (symbol.kind) {
+    case "function":
+    case "macro":
+      return describeSymbol(symbol)
+    case "struct":
+      return `struct ${symbol.name} {\n${symbol.members!.map((field) => `  ${declarationOf(field)};`).join("\n")}\n}`
+    default:
+      return `${[...symbol.qualifiers, symbol.type].join(" ")} ${symbol.name}${array}`
+  }
+}
+
+function kindLabel(symbol: GLSLSymbol) {
+  if (symbol.kind === "parameter") return "Parameter"
+  if (symbol.kind === "variable") return symbol.scope ? "Local variable" : "Global variable"
+  return null
+}
+
+/**
+ * Hovers for the `glsl` language: the declaration of the document's own
+ * names, and the reference entry (prototypes and description) of built-ins.
+ */
+export function createHoverProvider(monaco: Monaco): languages.HoverProvider {
+  return {
+    provideHover(model, position) {
+      const word = model.getWordAtPosition(position)
+      if (!word) return null
+      const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn)
+      const document = getGLSLDocument(model)
+      const text = model.getValue()
+
+      // The document's declarations shadow built-ins; the nearest one in scope wins
+      const declared = [...scanSymbols(document.prelude), ...symbolsAt(scanSymbols(text), model.getOffsetAt(position))].filter(
+        (symbol) => symbol.name === word.word
+      )
+      const symbol = declared.at(-1)
+      if (symbol) {
+        // Every overload, with prototypes and definitions listed once
+        const lines =
+          symbol.kind === "function"
+            ? [...new Set(declared.filter((other) => other.kind === "function").map(declarationOf))]
+            : [declarationOf(symbol)]
+        const label = kindLabel(symbol)
+        return { range, contents: [codeBlock(lines), ...(label ? [{ value: `*${label}*` }] : [])] }
+      }
+
+      const entry = lookupReference(word.word, glslVersion(text), document.stage)
+      if (!entry) return null
+      const lines = entry.declaration ? [entry.declaration] : entry.signatures.map(formatOverload)
+      const generics = genericTypesIn(entry.signatures).map(([generic, meaning]) => `\`${generic}\` is ${meaning}.`)
+      return {
+        range,
+        contents: [
+          ...(lines.length ? [codeBlock(lines)] : []),
+          ...(entry.documentation ? [{ value: entry.documentation }] : []),
+          ...(generics.length ? [{ value: generics.join("  \n") }] : []),
+        ],
+      }
+    },
+  }
+}
@@ -0,0 +1,87 @@
+import type { Monaco } from "@monaco-editor/react"
+import { analysisCodeActions } from "@/lib/glsl/analysis"
+import { BUILTIN_FUNCTIONS, BUILTIN_VARIABLES, KEYWORDS, TYPES } from "@/lib/glsl/builtins"
+import { createCompletionProvider } from "@/lib/glsl/completion"
+import { createDocumentFormattingProvider, createOnTypeFormattingProvider, createRangeFormattingProvider } from "@/lib/glsl/format"
+import { createHoverProvider } from "@/lib/glsl/hover"
+import {
+  createDefinitionProvider,
+  createDocumentHighlightProvider,
+  createDocumentSymbolProvider,
+  createReferenceProvider,
+  createRenameProvider,
+} from "@/lib/glsl/navigation"
+import { createSignatureHelpProvider } from "@/lib/glsl/signatures"
+
+// Matches any of `names` as a whole word, for the tokenizer
+const words = (names: string[]) => new RegExp(`\\b(${[...new Set(names)].join("|")})\\b`)
+
+let registered = false
+
+/**
+ * Registers the `glsl` language (tokenizer and language providers) on the
+ * Monaco instance used by the editors. Safe to call from every editor's
+ * `beforeMount`; only the first call registers anything.
+ */
+export function registerGLSLLanguage(monaco: Monaco) {
+  if (registered) return
+  registered = true
+
+  // Register GLSL language
+  monaco.languages.register({ id: 'glsl' });
+  
+  // Define GLSL syntax highlighting
+  monaco.languages.setMonarchTokensProvider('glsl', {
+    tokenizer: {
+      root: [
+        [words(KEYWORDS.filter((keyword) => keyword.kind === 'qualifier').map((keyword) => keyword.name)), 'keyword.declaration'],
+        [words(TYPES.map((type) => type.name)), 'keyword.type'],
+        [words(KEYWORDS.filter((keyword) => keyword.kind === 'control').map((keyword) => keyword.name)), 'keyword.control'],
+        [words(BUILTIN_VARIABLES.map((variable) => variable.name)), 'keyword.builtin'],
+        [words(BUILTIN_FUNCTIONS.map((overload) => overload.name)), 'support.function'],
+        [/\/\*/, 'comment', '@comment'],
+        [/\/\/.*$/, 'comment'],
+        [/"[^"]*"/, 'string'],
+        [/\d*\.\d+([eE][\-+]?\d+)?[fFdD]?/, 'number.float'],
+        [/\d+[eE][\-+]?\d+[fFdD]?/, 'number.float'],
+        [/\d+[fFdD]/, 'number.float'],
+        [/\d+/, 'number'],
+        [/[;,.]/, 'delimiter'],
+        [/[{}()\[\]]/, '@brackets'],
+        [/[<>](?!@symbols)/, '@brackets'],
+        [/[+\-*\/&|^~<>!?:=]/, 'operator'],
+        [/@symbols/, 'operator'],
+        [/[a-zA-Z_]\w*/, 'identifier'],
+      ],
+      comment: [
+        [/[^\/*]+/, 'comment'],
+        [/\*\//, 'comment', '@pop'],
+        [/[\/*]/, 'comment']
+      ]
+    },
+    symbols: /[=><!~?:&|+\-*\/\^%]+/
+  });
+   
+  monaco.languages.registerCompletionItemProvider('glsl', createCompletionProvider(monaco));
+
+  monaco.languages.registerHoverProvider('glsl', createHoverProvider(monaco));
+  monaco.languages.registerSignatureHelpProvider('glsl', createSignatureHelpProvider());
+
+  monaco.languages.registerDefinitionProvider('glsl', createDefinitionProvider(monaco));
+  monaco.languages.registerReferenceProvider('glsl', createReferenceProvider(monaco));
+  monaco.languages.registerRenameProvider('glsl', createRenameProvider(monaco));
+  monaco.languages.registerDocumentHighlightProvider('glsl', createDocumentHighlightProvider(monaco));
+  monaco.languages.registerDocumentSymbolProvider('glsl', createDocumentSymbolProvider(monaco));
+
+  monaco.languages.registerDocumentFormattingEditProvider('glsl', createDocumentFormattingProvider());
+  monaco.languages.registerDocumentRangeFormattingEditProvider('glsl', createRangeFormattingProvider());
+  monaco.languages.registerOnTypeFormattingEditProvider('glsl', createOnTypeFormattingProvider());
+  
+  // Quick fixes for the analysis worker's warnings
+  monaco.languages.registerCodeActionProvider('glsl', {
+    provideCodeActions: (model, _range, context) => ({
+      actions: analysisCodeActions(model, context.markers),
+      dispose: () => {}
+    })
+  });
+}
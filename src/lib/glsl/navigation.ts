@@ -0,0 +1,328 @@
+/**
+ * Navigation for the `glsl` language: definitions, references, renames,
+ * highlights and the outline. Names are resolved with the scopes
+ * `scanSymbols` finds; uniforms, and varyings between the two stages of a
+ * program, are followed into the other shader tabs.
+ */
+import type { Monaco } from "@monaco-editor/react"
+import type { editor, IPosition, IRange, languages } from "monaco-editor"
+import { BUILTIN_FUNCTIONS, BUILTIN_VARIABLES, KEYWORDS, TYPE_NAMES } from "@/lib/glsl/builtins"
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+import { getGLSLDocument } from "@/lib/glsl/documents"
+import { describeSymbol, scanSymbols, symbolsAt, tokenize, type GLSLSymbol, type GLSLToken } from "@/lib/glsl/symbols"
+
+interface DocumentIndex {
+  tokens: GLSLToken[]
+  symbols: GLSLSymbol[]
+}
+
+// Highlights run on every cursor move; scan each model version once
+const indexes = new WeakMap<editor.ITextModel, { versionId: number; index: DocumentIndex }>()
+
+function indexOf(model: editor.ITextModel) {
+  const cached = indexes.get(model)
+  if (cached?.versionId === model.getVersionId()) return cached.index
+  const text = model.getValue()
+  const index = { tokens: tokenize(text), symbols: scanSymbols(text) }
+  indexes.set(model, { versionId: model.getVersionId(), index })
+  return index
+}
+
+/** What a name refers to: one declaration, or every overload of a function. */
+type Target = { symbol: GLSLSymbol } | { functionName: string }
+
+const sameTarget = (a: Target, b: Target) =>
+  "symbol" in a ? "symbol" in b && a.symbol === b.symbol : "functionName" in b && a.functionName === b.functionName
+
+const targetName = (target: Target) => ("symbol" in target ? target.symbol.name : target.functionName)
+
+const SWIZZLE = /^(?:[xyzw]{1,4}|[rgba]{1,4}|[stpq]{1,4})$/
+
+const ASSIGNMENT_OPERATORS = new Set(["=", "+=", "-=", "*=", "/=", "%=", "<<=", ">>=", "&=", "|=", "^="])
+
+/** The declaration whose name starts at `offset`, including parameters of prototypes and struct fields. */
+function declarationAt(index: DocumentIndex, offset: number) {
+  for (const symbol of index.symbols) {
+    if (symbol.offset === offset) return symbol
+    const member = symbol.members?.find((member) => member.offset === offset)
+    if (member) return member
+  }
+  return undefined
+}
+
+// Without types, `.name` is only followed when one struct has a field by that name and it can't be a swizzle
+function resolveMember(index: DocumentIndex, name: string): Target | null {
+  if (SWIZZLE.test(name)) return null
+  const fields = index.symbols
+    .filter((symbol) => symbol.kind === "struct")
+    .flatMap((symbol) => symbol.members!)
+    .filter((field) => field.name === name)
+  return fields.length === 1 ? { symbol: fields[0] } : null
+}
+
+/** What the identifier token at `tokenIndex` refers to. */
+function targetOfToken(index: DocumentIndex, tokenIndex: number): Target | null {
+  const token = index.tokens[tokenIndex]
+  const declared = declarationAt(index, token.offset)
+  if (declared) return declared.kind === "function" ? { functionName: declared.name } : { symbol: declared }
+  if (index.tokens[tokenIndex - 1]?.text === ".") return resolveMember(index, token.text)
+
+  // The innermost local in scope, or else the global
+  const visible = symbolsAt(index.symbols, token.offset).filter((symbol) => symbol.name === token.text && symbol.kind !== "field")
+  const local = visible.filter((symbol) => symbol.scope).sort((a, b) => b.scope!.start - a.scope!.start)[0]
+  if (local) return { symbol: local }
+  if (visible.some((symbol) => symbol.kind === "function")) return { functionName: token.text }
+  const global = visible.at(-1)
+  return global ? { symbol: global } : null
+}
+
+/** What the word starting at `offset` refers to; macros are also found in their `#define` line. */
+function targetAt(index: DocumentIndex, name: string, offset: number): Target | null {
+  const macro = index.symbols.find((symbol) => symbol.kind === "macro" && symbol.offset === offset)
+  if (macro) return { symbol: macro }
+  const tokenIndex = index.tokens.findIndex((token) => token.offset === offset)
+  if (tokenIndex < 0 || index.tokens[tokenIndex].kind !== "identifier" || index.tokens[tokenIndex].text !== name) return null
+  return targetOfToken(index, tokenIndex)
+}
+
+interface Occurrence {
+  offset: number
+  length: number
+  kind: "declaration" | "read" | "write"
+}
+
+function occurrencesOf(index: DocumentIndex, targets: Target[]): Occurrence[] {
+  const name = targetName(targets[0])
+  const matches = (target: Target | null) => !!target && targets.some((other) => sameTarget(target, other))
+  const occurrences: Occurrence[] = []
+  for (const target of targets) {
+    if ("symbol" in target && target.symbol.kind === "macro") occurrences.push({ offset: target.symbol.offset, length: name.length, kind: "declaration" })
+  }
+
+  index.tokens.forEach((token, tokenIndex) => {
+    if (token.kind !== "identifier" || token.text !== name || !matches(targetOfToken(index, tokenIndex))) return
+    const previous = index.tokens[tokenIndex - 1]?.text
+    const next = index.tokens[tokenIndex + 1]?.text
+    const written = ASSIGNMENT_OPERATORS.has(next) || next === "++" || next === "--" || previous === "++" || previous === "--"
+    const kind = declarationAt(index, token.offset) ? "declaration" : written ? "write" : "read"
+    occurrences.push({ offset: token.offset, length: name.length, kind })
+  })
+  return occurrences
+}
+
+/** How a global is shared with other shaders: uniforms with every program, varyings with the other stage. */
+function sharing(symbol: GLSLSymbol, stage: ShaderStage) {
+  if (symbol.kind !== "variable" || symbol.scope) return null
+  if (symbol.qualifiers.includes("uniform")) return "uniform"
+  if (symbol.qualifiers.includes("varying") || symbol.qualifiers.includes(stage === "vertex" ? "out" : "in")) return "varying"
+  return null
+}
+
+/**
+ * The models a target occurs in, with what it is called there: just this
+ * model, plus the other shaders' declarations of a shared uniform or varying.
+ */
+function linkedTargets(monaco: Monaco, model: editor.ITextModel, target: Target) {
+  const linked = [{ model, index: indexOf(model), targets: [target] }]
+  const document = getGLSLDocument(model)
+  const shared = "symbol" in target ? sharing(target.symbol, document.stage) : null
+  if (!shared || document.program === null) return linked
+
+  for (const other of monaco.editor.getModels()) {
+    if (other === model || other.getLanguageId() !== "glsl") continue
+    const otherDocument = getGLSLDocument(other)
+    if (otherDocument.program === null) continue
+    if (shared === "varying" && (otherDocument.program !== document.program || otherDocument.stage === document.stage)) continue
+    const index = indexOf(other)
+    const targets = index.symbols
+      .filter((symbol) => symbol.name === targetName(target) && sharing(symbol, otherDocument.stage) === shared)
+      .map((symbol): Target => ({ symbol }))
+    if (targets.length) linked.push({ model: other, index, targets })
+  }
+  return linked
+}
+
+function rangeOf(model: editor.ITextModel, offset: number, length: number): IRange {
+  const start = model.getPositionAt(offset)
+  const end = model.getPositionAt(offset + length)
+  return { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column }
+}
+
+/** The word under the cursor and what it refers to. */
+function wordTarget(model: editor.ITextModel, position: IPosition) {
+  const word = model.getWordAtPosition(position)
+  if (!word) return null
+  const offset = model.getOffsetAt({ lineNumber: position.lineNumber, column: word.startColumn })
+  const target = targetAt(indexOf(model), word.word, offset)
+  return { word: word.word, range: rangeOf(model, offset, word.word.length), target }
+}
+
+// Function definitions are followed by their body; prototypes by `;`
+function isDefinition(index: DocumentIndex, symbol: GLSLSymbol) {
+  let tokenIndex = index.tokens.findIndex((token) => token.offset === symbol.offset) + 1
+  let depth = 0
+  for (; tokenIndex < index.tokens.length; tokenIndex++) {
+    const text = index.tokens[tokenIndex].text
+    if (text === "(") depth++
+    else if (text === ")" && --depth === 0) break
+  }
+  return index.tokens[tokenIndex + 1]?.text === "{"
+}
+
+export function createDefinitionProvider(monaco: Monaco): languages.DefinitionProvider {
+  return {
+    provideDefinition(model, position) {
+      const found = wordTarget(model, position)
+      if (!found?.target) return null
+      return linkedTargets(monaco, model, found.target).flatMap(({ model, index, targets }) => {
+        const declarations = targets.flatMap((target) =>
+          "symbol" in target ? [target.symbol] : index.symbols.filter((symbol) => symbol.kind === "function" && symbol.name === target.functionName)
+        )
+        // Overloads' definitions rather than their prototypes, when there are any
+        const definitions = declarations.filter((symbol) => symbol.kind !== "function" || isDefinition(index, symbol))
+        return (definitions.length ? definitions : declarations).map((symbol) => ({
+          uri: model.uri,
+          range: rangeOf(model, symbol.offset, symbol.name.length),
+        }))
+      })
+    },
+  }
+}
+
+export function createReferenceProvider(monaco: Monaco): languages.ReferenceProvider {
+  return {
+    provideReferences(model, position, context) {
+      const found = wordTarget(model, position)
+      if (!found?.target) return null
+      return linkedTargets(monaco, model, found.target).flatMap(({ model, index, targets }) =>
+        occurrencesOf(index, targets)
+          .filter((occurrence) => context.includeDeclaration || occurrence.kind !== "declaration")
+          .map((occurrence) => ({ uri: model.uri, range: rangeOf(model, occurrence.offset, occurrence.length) }))
+      )
+    },
+  }
+}
+
+const isBuiltinName = (name: string) =>
+  name.startsWith("gl_") ||
+  TYPE_NAMES.has(name) ||
+  KEYWORDS.some((keyword) => keyword.name === name) ||
+  BUILTIN_FUNCTIONS.some((overload) => overload.name === name) ||
+  BUILTIN_VARIABLES.some((variable) => variable.name === name)
+
+export function createRenameProvider(monaco: Monaco): languages.RenameProvider {
+  return {
+    resolveRenameLocation(model, position) {
+      const found = wordTarget(model, position)
+      if (!found) {
+        const { lineNumber, column } = position
+        return { range: { startLineNumber: lineNumber, startColumn: column, endLineNumber: lineNumber, endColumn: column }, text: "", rejectReason: "Nothing to rename here" }
+      }
+      const { word, range, target } = found
+      if (target) return { range, text: word }
+      const inPrelude = scanSymbols(getGLSLDocument(model).prelude).some((symbol) => symbol.name === word)
+      const rejectReason = isBuiltinName(word)
+        ? `'${word}' is built in`
+        : inPrelude
+          ? `'${word}' is declared above the shader`
+          : `'${word}' isn't declared in this shader`
+      return { range, text: word, rejectReason }
+    },
+
+    provideRenameEdits(model, position, newName) {
+      const found = wordTarget(model, position)
+      if (!found?.target) return { edits: [], rejectReason: "Nothing to rename here" }
+      // Identifiers starting with gl_ or containing __ are reserved
+      if (!/^[A-Za-z_]\w*$/.test(newName) || newName.includes("__") || isBuiltinName(newName)) {
+        return { edits: [], rejectReason: `'${newName}' can't be used as a name` }
+      }
+      return {
+        edits: linkedTargets(monaco, model, found.target).flatMap(({ model, index, targets }) =>
+          occurrencesOf(index, targets).map((occurrence) => ({
+            resource: model.uri,
+            textEdit: { range: rangeOf(model, occurrence.offset, occurrence.length), text: newName },
+            versionId: model.getVersionId(),
+          }))
+        ),
+      }
+    },
+  }
+}
+
+export function createDocumentHighlightProvider(monaco: Monaco): languages.DocumentHighlightProvider {
+  const kinds = {
+    declaration: monaco.languages.DocumentHighlightKind.Write,
+    write: monaco.languages.DocumentHighlightKind.Write,
+    read: monaco.languages.DocumentHighlightKind.Read,
+  }
+  return {
+    provideDocumentHighlights(model, position) {
+      const found = wordTarget(model, position)
+      if (!found?.target) return null
+      return occurrencesOf(indexOf(model), [found.target]).map((occurrence) => ({
+        range: rangeOf(model, occurrence.offset, occurrence.length),
+        kind: kinds[occurrence.kind],
+      }))
+    },
+  }
+}
+
+/** Offsets spanning the whole declaration a name belongs to: from its type up to its `;` or closing brace. */
+function declarationSpan(index: DocumentIndex, symbol: GLSLSymbol) {
+  const { tokens } = index
+  // Macros' names are inside their directive's token
+  const directive = tokens.find((token) => token.kind === "directive" && token.offset <= symbol.offset && symbol.offset < token.offset + token.text.length)
+  if (directive) return { start: directive.offset, end: directive.offset + directive.text.length }
+
+  const at = tokens.findIndex((token) => token.offset === symbol.offset)
+  let first = at
+  while (first > 0 && !["{", "}", ";"].includes(tokens[first - 1].text) && tokens[first - 1].kind !== "directive") first--
+  let last = at
+  let depth = 0
+  for (; last < tokens.length - 1; last++) {
+    const text = tokens[last].text
+    if (text === "(" || text === "[" || text === "{") depth++
+    else if (text === ")" || text === "]" || text === "}") {
+      if (--depth <= 0 && text === "}") break
+    } else if (text === ";" && depth === 0) break
+  }
+  return { start: tokens[first].offset, end: tokens[last].offset + tokens[last].text.length }
+}
+
+/** The outline and breadcrumbs: macros, structs with their fields, globals and functions. */
+export function createDocumentSymbolProvider(monaco: Monaco): languages.DocumentSymbolProvider {
+  const { SymbolKind } = monaco.languages
+  const kindOf = (symbol: GLSLSymbol) => {
+    if (symbol.kind === "function") return SymbolKind.Function
+    if (symbol.kind === "struct") return SymbolKind.Struct
+    if (symbol.kind === "field") return SymbolKind.Field
+    if (symbol.kind === "macro" || symbol.qualifiers.includes("const")) return SymbolKind.Constant
+    return SymbolKind.Variable
+  }
+
+  return {
+    displayName: "GLSL",
+    provideDocumentSymbols(model) {
+      const index = indexOf(model)
+      const toDocumentSymbol = (symbol: GLSLSymbol): languages.DocumentSymbol => {
+        const span = symbol.kind === "field" ? { start: symbol.offset, end: symbol.offset + symbol.name.length } : declarationSpan(index, symbol)
+        return {
+          name: symbol.name,
+          detail: symbol.kind === "struct" ? "" : describeSymbol(symbol),
+          kind: kindOf(symbol),
+          tags: [],
+          range: rangeOf(model, span.start, span.end - span.start),
+          selectionRange: rangeOf(model, symbol.offset, symbol.name.length),
+          ...(symbol.kind === "struct" && { children: symbol.members!.map(toDocumentSymbol) }),
+        }
+      }
+
+      const globals = index.symbols.filter((symbol) => !symbol.scope && symbol.kind !== "parameter")
+      // A prototype is only listed when its function isn't defined in the document
+      const defined = new Set(globals.filter((symbol) => symbol.kind === "function" && isDefinition(index, symbol)).map((symbol) => symbol.name))
+      return globals
+        .filter((symbol) => symbol.kind !== "function" || !defined.has(symbol.name) || isDefinition(index, symbol))
+        .map(toDocumentSymbol)
+    },
+  }
+}
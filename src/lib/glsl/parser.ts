@@ -0,0 +1,709 @@
+/**
+ * A recursive-descent parser for GLSL ES 1.00 and 3.00, producing the
+ * syntax tree the checker works on. Preprocessor lines are not expanded:
+ * `#define`d names are collected, and the code around them parsed as is.
+ * A statement that doesn't parse is recorded as an error and skipped, so
+ * one typo doesn't hide the rest of the document.
+ */
+import { TYPE_NAMES } from "@/lib/glsl/builtins"
+import { tokenize, type GLSLToken } from "@/lib/glsl/symbols"
+
+export interface Span {
+  start: number
+  end: number
+}
+
+export type Expression = Span &
+  (
+    | { kind: "identifier"; name: string }
+    | { kind: "literal"; type: "int" | "uint" | "float" | "bool"; text: string }
+    // Function calls and constructors; `array` is set for `float[3](...)`
+    | { kind: "call"; callee: string; calleeSpan: Span; array: boolean; args: Expression[] }
+    | { kind: "member"; object: Expression; name: string; nameSpan: Span }
+    | { kind: "method"; object: Expression; name: string; args: Expression[] }
+    | { kind: "index"; object: Expression; index: Expression }
+    | { kind: "unary"; operator: string; operand: Expression; prefix: boolean }
+    | { kind: "binary"; operator: string; left: Expression; right: Expression }
+    | { kind: "assign"; operator: string; left: Expression; right: Expression }
+    | { kind: "ternary"; condition: Expression; then: Expression; otherwise: Expression }
+    | { kind: "sequence"; expressions: Expression[] }
+  )
+
+export interface TypeSpecifier extends Span {
+  name: string
+  /** Set for `float[3] x`; null for `float[] x`. */
+  arraySize?: Expression | null
+  /** For `struct S { ... } s;`, the struct declared along the way. */
+  struct?: StructDeclaration
+}
+
+/** `name[size] = value`; the span covers all of it, starting at the name. */
+export interface Declarator extends Span {
+  name: string
+  arraySize?: Expression | null
+  initializer?: Expression
+}
+
+export interface VariableDeclaration extends Span {
+  kind: "variable"
+  qualifiers: string[]
+  type: TypeSpecifier
+  declarators: Declarator[]
+}
+
+export interface StructDeclaration extends Span {
+  kind: "struct"
+  name?: string
+  nameSpan?: Span
+  fields: VariableDeclaration[]
+}
+
+export interface Parameter {
+  qualifiers: string[]
+  type: TypeSpecifier
+  name?: string
+  nameSpan?: Span
+  arraySize?: Expression | null
+}
+
+export interface FunctionDeclaration extends Span {
+  kind: "function"
+  returnType: TypeSpecifier
+  name: string
+  nameSpan: Span
+  parameters: Parameter[]
+  /** Absent for prototypes. */
+  body?: BlockStatement
+}
+
+export interface PrecisionDeclaration extends Span {
+  kind: "precision"
+  precision: string
+  type: TypeSpecifier
+}
+
+/** GLSL ES 3.00 uniform blocks: `uniform Lights { vec3 position; } lights;`. */
+export interface InterfaceBlock extends Span {
+  kind: "block"
+  qualifiers: string[]
+  name: string
+  members: VariableDeclaration[]
+  instance?: Declarator
+}
+
+export type ExternalDeclaration = VariableDeclaration | FunctionDeclaration | PrecisionDeclaration | InterfaceBlock
+
+export interface BlockStatement extends Span {
+  kind: "block"
+  statements: Statement[]
+}
+
+export type Statement =
+  | BlockStatement
+  | (Span & { kind: "declaration"; declaration: VariableDeclaration })
+  | (Span & { kind: "expression"; expression: Expression })
+  | (Span & { kind: "if"; condition: Expression; then: Statement; otherwise?: Statement })
+  | (Span & { kind: "for"; init?: Statement; condition?: Expression; update?: Expression; body: Statement })
+  | (Span & { kind: "while"; condition: Expression; body: Statement })
+  | (Span & { kind: "do"; body: Statement; condition: Expression })
+  | (Span & { kind: "switch"; selector: Expression; body: BlockStatement })
+  | (Span & { kind: "case"; value?: Expression })
+  | (Span & { kind: "return"; value?: Expression })
+  | (Span & { kind: "jump"; keyword: "break" | "continue" | "discard" })
+  | (Span & { kind: "empty" })
+
+export interface Macro {
+  name: string
+  span: Span
+  /** What follows the name: the parameter list, if any, and replacement text. */
+  value: string
+}
+
+export interface TranslationUnit {
+  declarations: ExternalDeclaration[]
+  macros: Macro[]
+  errors: ParseError[]
+}
+
+export class ParseError extends Error {
+  offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = "ParseError"
+    this.offset = offset
+  }
+}
+
+const STORAGE_QUALIFIERS = new Set([
+  "const", "uniform", "attribute", "varying", "in", "out", "inout", "invariant", "centroid", "flat", "smooth",
+  "highp", "mediump", "lowp",
+])
+
+const ASSIGNMENT_OPERATORS = new Set(["=", "+=", "-=", "*=", "/=", "%=", "<<=", ">>=", "&=", "|=", "^="])
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "^^": 2,
+  "&&": 3,
+  "|": 4,
+  "^": 5,
+  "&": 6,
+  "==": 7,
+  "!=": 7,
+  "<": 8,
+  ">": 8,
+  "<=": 8,
+  ">=": 8,
+  "<<": 9,
+  ">>": 9,
+  "+": 10,
+  "-": 10,
+  "*": 11,
+  "/": 11,
+  "%": 11,
+}
+
+/** The type of a numeric literal as written: `1`, `1u`, `0x1F`, `1.0`, `1e3`. */
+export function literalType(text: string): "int" | "uint" | "float" {
+  if (/^0[xX]/.test(text)) return /[uU]$/.test(text) ? "uint" : "int"
+  if (/[.eEfF]/.test(text)) return "float"
+  return /[uU]$/.test(text) ? "uint" : "int"
+}
+
+export function parse(source: string): TranslationUnit {
+  const all = tokenize(source)
+  const tokens = all.filter((token) => token.kind !== "directive")
+  const structs = new Set<string>()
+  const errors: ParseError[] = []
+  const macros: Macro[] = []
+  let index = 0
+
+  for (const token of all) {
+    const define = token.kind === "directive" && token.text.match(/^#\s*define\s+([A-Za-z_]\w*)/)
+    if (define) {
+      const start = token.offset + define[0].length - define[1].length
+      macros.push({ name: define[1], span: { start, end: start + define[1].length }, value: token.text.slice(define[0].length).trimEnd() })
+    }
+  }
+
+  const end = source.length
+  const peek = (ahead = 0): GLSLToken | undefined => tokens[index + ahead]
+  const is = (text: string, ahead = 0) => peek(ahead)?.text === text
+  const offsetOf = (token?: GLSLToken) => token?.offset ?? end
+  const endOf = (token: GLSLToken) => token.offset + token.text.length
+  const previousEnd = () => (index > 0 ? endOf(tokens[index - 1]) : 0)
+  const fail = (message: string): never => {
+    const token = peek()
+    throw new ParseError(token ? `${message}, found '${token.text}'` : `${message} at the end of the shader`, offsetOf(token))
+  }
+  const expect = (text: string) => {
+    if (!is(text)) fail(`Expected '${text}'`)
+    return tokens[index++]
+  }
+  const identifier = () => {
+    const token = peek()
+    if (token?.kind !== "identifier") return fail("Expected a name")
+    index++
+    return token
+  }
+  const isTypeName = (token?: GLSLToken) => !!token && token.kind === "identifier" && (TYPE_NAMES.has(token.text) || structs.has(token.text))
+
+  // Expressions
+
+  const parsePrimary = (): Expression => {
+    const token = peek()
+    if (!token) return fail("Expected an expression")
+    if (token.kind === "number") {
+      index++
+      return { kind: "literal", type: literalType(token.text), text: token.text, start: token.offset, end: endOf(token) }
+    }
+    if (token.text === "true" || token.text === "false") {
+      index++
+      return { kind: "literal", type: "bool", text: token.text, start: token.offset, end: endOf(token) }
+    }
+    if (token.text === "(") {
+      index++
+      const inner = parseExpression()
+      expect(")")
+      return { ...inner, start: token.offset, end: previousEnd() }
+    }
+    if (token.kind === "identifier") {
+      index++
+      const calleeSpan = { start: token.offset, end: endOf(token) }
+      // Array constructors: float[3](...) or float[](...)
+      let array = false
+      if (isTypeName(token) && is("[")) {
+        index++
+        if (!is("]")) parseExpression()
+        expect("]")
+        array = true
+      }
+      if (is("(")) {
+        index++
+        const args: Expression[] = []
+        // `f()` and `f(void)` take no arguments
+        if (is("void") && is(")", 1)) index++
+        while (!is(")")) {
+          args.push(parseAssignment())
+          if (!is(")")) expect(",")
+        }
+        index++
+        return { kind: "call", callee: token.text, calleeSpan, array, args, start: token.offset, end: previousEnd() }
+      }
+      if (array) fail("Expected '(' after an array type")
+      return { kind: "identifier", name: token.text, ...calleeSpan }
+    }
+    return fail("Expected an expression")
+  }
+
+  const parsePostfix = (): Expression => {
+    let expression = parsePrimary()
+    for (;;) {
+      if (is("[")) {
+        index++
+        const inner = parseExpression()
+        expect("]")
+        expression = { kind: "index", object: expression, index: inner, start: expression.start, end: previousEnd() }
+      } else if (is(".")) {
+        index++
+        const name = identifier()
+        if (is("(")) {
+          index++
+          const args: Expression[] = []
+          while (!is(")")) {
+            args.push(parseAssignment())
+            if (!is(")")) expect(",")
+          }
+          index++
+          expression = { kind: "method", object: expression, name: name.text, args, start: expression.start, end: previousEnd() }
+        } else {
+          const nameSpan = { start: name.offset, end: endOf(name) }
+          expression = { kind: "member", object: expression, name: name.text, nameSpan, start: expression.start, end: nameSpan.end }
+        }
+      } else if (is("++") || is("--")) {
+        const operator = tokens[index++].text
+        expression = { kind: "unary", operator, operand: expression, prefix: false, start: expression.start, end: previousEnd() }
+      } else {
+        return expression
+      }
+    }
+  }
+
+  const parseUnary = (): Expression => {
+    const token = peek()
+    if (token && ["++", "--", "+", "-", "!", "~"].includes(token.text)) {
+      index++
+      const operand = parseUnary()
+      return { kind: "unary", operator: token.text, operand, prefix: true, start: token.offset, end: operand.end }
+    }
+    return parsePostfix()
+  }
+
+  // Precedence climbing over the binary operators
+  const parseBinary = (minPrecedence: number): Expression => {
+    let left = parseUnary()
+    for (;;) {
+      const operator = peek()?.text ?? ""
+      const precedence = BINARY_PRECEDENCE[operator]
+      if (!precedence || precedence < minPrecedence) return left
+      index++
+      const right = parseBinary(precedence + 1)
+      left = { kind: "binary", operator, left, right, start: left.start, end: right.end }
+    }
+  }
+
+  const parseConditional = (): Expression => {
+    const condition = parseBinary(1)
+    if (!is("?")) return condition
+    index++
+    const then = parseExpression()
+    expect(":")
+    const otherwise = parseAssignment()
+    return { kind: "ternary", condition, then, otherwise, start: condition.start, end: otherwise.end }
+  }
+
+  const parseAssignment = (): Expression => {
+    const left = parseConditional()
+    const operator = peek()?.text ?? ""
+    if (!ASSIGNMENT_OPERATORS.has(operator)) return left
+    index++
+    const right = parseAssignment()
+    return { kind: "assign", operator, left, right, start: left.start, end: right.end }
+  }
+
+  const parseExpression = (): Expression => {
+    const first = parseAssignment()
+    if (!is(",")) return first
+    const expressions = [first]
+    while (is(",")) {
+      index++
+      expressions.push(parseAssignment())
+    }
+    return { kind: "sequence", expressions, start: first.start, end: expressions[expressions.length - 1].end }
+  }
+
+  // Declarations
+
+  const parseQualifiers = () => {
+    const qualifiers: string[] = []
+    for (;;) {
+      const token = peek()
+      if (token?.text === "layout" && is("(", 1)) {
+        index += 2
+        while (!is(")")) {
+          if (!peek()) fail("Expected ')'")
+          index++
+        }
+        index++
+      } else if (token && STORAGE_QUALIFIERS.has(token.text)) {
+        qualifiers.push(token.text)
+        index++
+      } else {
+        return qualifiers
+      }
+    }
+  }
+
+  const parseArraySize = (): Expression | null | undefined => {
+    if (!is("[")) return undefined
+    index++
+    if (is("]")) {
+      index++
+      return null
+    }
+    const size = parseExpression()
+    expect("]")
+    return size
+  }
+
+  const parseStruct = (): StructDeclaration => {
+    const start = expect("struct").offset
+    let name: GLSLToken | undefined
+    if (peek()?.kind === "identifier") name = identifier()
+    expect("{")
+    const fields: VariableDeclaration[] = []
+    while (!is("}")) {
+      const fieldStart = offsetOf(peek())
+      const qualifiers = parseQualifiers()
+      const type = parseTypeSpecifier()
+      const declarators: Declarator[] = []
+      do {
+        if (declarators.length) index++
+        const fieldName = identifier()
+        declarators.push({ name: fieldName.text, start: fieldName.offset, end: endOf(fieldName), arraySize: parseArraySize() })
+      } while (is(","))
+      expect(";")
+      fields.push({ kind: "variable", qualifiers, type, declarators, start: fieldStart, end: previousEnd() })
+    }
+    index++
+    if (name) structs.add(name.text)
+    return {
+      kind: "struct",
+      ...(name && { name: name.text, nameSpan: { start: name.offset, end: endOf(name) } }),
+      fields,
+      start,
+      end: previousEnd(),
+    }
+  }
+
+  const parseTypeSpecifier = (): TypeSpecifier => {
+    if (is("struct")) {
+      const struct = parseStruct()
+      return { name: struct.name ?? "", struct, start: struct.start, end: struct.end }
+    }
+    const token = peek()
+    if (!isTypeName(token)) return fail("Expected a type")
+    index++
+    const type: TypeSpecifier = { name: token!.text, start: token!.offset, end: endOf(token!) }
+    const arraySize = parseArraySize()
+    if (arraySize !== undefined) type.arraySize = arraySize
+    return type
+  }
+
+  // `name[size] = value, ...` up to (not including) the `;`
+  const parseDeclarators = (): Declarator[] => {
+    const declarators: Declarator[] = []
+    while (peek()?.kind === "identifier") {
+      const name = identifier()
+      const declarator: Declarator = { name: name.text, start: name.offset, end: endOf(name) }
+      const arraySize = parseArraySize()
+      if (arraySize !== undefined) declarator.arraySize = arraySize
+      declarators.push(declarator)
+      if (is("=")) {
+        index++
+        declarator.initializer = parseAssignment()
+      }
+      declarator.end = previousEnd()
+      if (!is(",")) break
+      index++
+    }
+    return declarators
+  }
+
+  const parseVariableDeclaration = (start: number, qualifiers: string[], type: TypeSpecifier): VariableDeclaration => {
+    const declarators = parseDeclarators()
+    // `struct S { ... };` declares no variables; anything else needs a name
+    if (!declarators.length && !type.struct) fail("Expected a name")
+    expect(";")
+    return { kind: "variable", qualifiers, type, declarators, start, end: previousEnd() }
+  }
+
+  // A declaration starts with a qualifier, `struct`, or a type followed by a name (possibly after `[n]`)
+  const startsDeclaration = () => {
+    const token = peek()
+    if (!token) return false
+    if (STORAGE_QUALIFIERS.has(token.text) || token.text === "layout" || token.text === "struct" || token.text === "precision") return true
+    if (!isTypeName(token)) return false
+    if (peek(1)?.kind === "identifier") return true
+    if (!is("[", 1)) return false
+    let ahead = 1
+    let depth = 0
+    for (let token = peek(ahead); token; token = peek(++ahead)) {
+      if (token.text === "[") depth++
+      else if (token.text === "]" && --depth === 0) return peek(ahead + 1)?.kind === "identifier"
+    }
+    return false
+  }
+
+  const parsePrecision = (): PrecisionDeclaration => {
+    const start = expect("precision").offset
+    const precision = identifier().text
+    const type = parseTypeSpecifier()
+    expect(";")
+    return { kind: "precision", precision, type, start, end: previousEnd() }
+  }
+
+  // Statements
+
+  const parseBlock = (): BlockStatement => {
+    const start = expect("{").offset
+    const statements: Statement[] = []
+    while (!is("}")) {
+      if (!peek()) fail("Expected '}'")
+      const statement = recover(parseStatement, false)
+      if (statement) statements.push(statement)
+    }
+    index++
+    return { kind: "block", statements, start, end: previousEnd() }
+  }
+
+  const parseDeclarationStatement = (): Statement => {
+    const start = offsetOf(peek())
+    if (is("precision")) {
+      parsePrecision()
+      return { kind: "empty", start, end: previousEnd() }
+    }
+    const qualifiers = parseQualifiers()
+    const declaration = parseVariableDeclaration(start, qualifiers, parseTypeSpecifier())
+    return { kind: "declaration", declaration, start, end: declaration.end }
+  }
+
+  const parseStatement = (): Statement => {
+    const token = peek() ?? fail("Expected a statement")
+    const start = token.offset
+    switch (token.text) {
+      case "{":
+        return parseBlock()
+      case ";":
+        index++
+        return { kind: "empty", start, end: previousEnd() }
+      case "if": {
+        index++
+        expect("(")
+        const condition = parseExpression()
+        expect(")")
+        const then = parseStatement()
+        let otherwise: Statement | undefined
+        if (is("else")) {
+          index++
+          otherwise = parseStatement()
+        }
+        return { kind: "if", condition, then, ...(otherwise && { otherwise }), start, end: previousEnd() }
+      }
+      case "for": {
+        index++
+        expect("(")
+        const init = is(";") ? undefined : startsDeclaration() ? parseDeclarationStatement() : parseExpressionStatement()
+        if (!init) index++
+        const condition = is(";") ? undefined : parseExpression()
+        expect(";")
+        const update = is(")") ? undefined : parseExpression()
+        expect(")")
+        const body = parseStatement()
+        return { kind: "for", ...(init && { init }), ...(condition && { condition }), ...(update && { update }), body, start, end: previousEnd() }
+      }
+      case "while": {
+        index++
+        expect("(")
+        const condition = parseExpression()
+        expect(")")
+        const body = parseStatement()
+        return { kind: "while", condition, body, start, end: previousEnd() }
+      }
+      case "do": {
+        index++
+        const body = parseStatement()
+        expect("while")
+        expect("(")
+        const condition = parseExpression()
+        expect(")")
+        expect(";")
+        return { kind: "do", body, condition, start, end: previousEnd() }
+      }
+      case "switch": {
+        index++
+        expect("(")
+        const selector = parseExpression()
+        expect(")")
+        const body = parseBlock()
+        return { kind: "switch", selector, body, start, end: previousEnd() }
+      }
+      case "case": {
+        index++
+        const value = parseExpression()
+        expect(":")
+        return { kind: "case", value, start, end: previousEnd() }
+      }
+      case "default":
+        index++
+        expect(":")
+        return { kind: "case", start, end: previousEnd() }
+      case "return": {
+        index++
+        const value = is(";") ? undefined : parseExpression()
+        expect(";")
+        return { kind: "return", ...(value && { value }), start, end: previousEnd() }
+      }
+      case "break":
+      case "continue":
+      case "discard":
+        index++
+        expect(";")
+        return { kind: "jump", keyword: token.text, start, end: previousEnd() }
+    }
+    return startsDeclaration() ? parseDeclarationStatement() : parseExpressionStatement()
+  }
+
+  const parseExpressionStatement = (): Statement => {
+    const expression = parseExpression()
+    expect(";")
+    return { kind: "expression", expression, start: expression.start, end: previousEnd() }
+  }
+
+  const parseExternalDeclaration = (): ExternalDeclaration | null => {
+    const start = offsetOf(peek())
+    if (is(";")) {
+      index++
+      return null
+    }
+    if (is("precision")) return parsePrecision()
+    const qualifiers = parseQualifiers()
+
+    // `invariant gl_Position;` redeclares without a type
+    if (qualifiers.length && !isTypeName(peek()) && peek()?.kind === "identifier" && (is(";", 1) || is(",", 1))) {
+      while (!is(";")) index++
+      index++
+      return null
+    }
+    // Interface blocks: `uniform Name { ... } instance;`
+    if (qualifiers.length && !isTypeName(peek()) && peek()?.kind === "identifier" && is("{", 1)) {
+      const name = identifier()
+      index++
+      const members: VariableDeclaration[] = []
+      while (!is("}")) {
+        const memberStart = offsetOf(peek())
+        const memberQualifiers = parseQualifiers()
+        members.push(parseVariableDeclaration(memberStart, memberQualifiers, parseTypeSpecifier()))
+      }
+      index++
+      const [instance] = parseDeclarators()
+      expect(";")
+      return { kind: "block", qualifiers, name: name.text, members, ...(instance && { instance }), start, end: previousEnd() }
+    }
+
+    const type = parseTypeSpecifier()
+    if (peek()?.kind === "identifier" && is("(", 1)) {
+      const name = identifier()
+      index++
+      const parameters: Parameter[] = []
+      if (is("void") && is(")", 1)) index++
+      while (!is(")")) {
+        const parameterQualifiers = parseQualifiers()
+        const parameterType = parseTypeSpecifier()
+        const parameter: Parameter = { qualifiers: parameterQualifiers, type: parameterType }
+        if (peek()?.kind === "identifier") {
+          const parameterName = identifier()
+          parameter.name = parameterName.text
+          parameter.nameSpan = { start: parameterName.offset, end: endOf(parameterName) }
+          const arraySize = parseArraySize()
+          if (arraySize !== undefined) parameter.arraySize = arraySize
+        }
+        parameters.push(parameter)
+        if (!is(")")) expect(",")
+      }
+      index++
+      const declaration: FunctionDeclaration = {
+        kind: "function",
+        returnType: type,
+        name: name.text,
+        nameSpan: { start: name.offset, end: endOf(name) },
+        parameters,
+        start,
+        end: previousEnd(),
+      }
+      if (is(";")) index++
+      else declaration.body = parseBlock()
+      declaration.end = previousEnd()
+      return declaration
+    }
+    return parseVariableDeclaration(start, qualifiers, type)
+  }
+
+  /**
+   * Runs `parser`; on a syntax error, records it and skips past the end of
+   * the broken statement (its `;`, or the block it opened).
+   */
+  function recover<T>(parser: () => T, topLevel: boolean): T | null {
+    const start = index
+    try {
+      return parser()
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error
+      errors.push(error)
+      // Always move on, but not past the end
+      index = Math.min(Math.max(index, start + 1), tokens.length)
+      let depth = 0
+      // Rewind to scan the broken statement's brackets from its start
+      for (let i = start; i < index; i++) {
+        if (tokens[i].text === "{") depth++
+        else if (tokens[i].text === "}") depth--
+      }
+      while (index < tokens.length) {
+        const text = tokens[index].text
+        if (text === "{") depth++
+        else if (text === "}") {
+          if (depth <= 0 && !topLevel) return null
+          depth--
+          if (depth <= 0) {
+            index++
+            return null
+          }
+        } else if (text === ";" && depth <= 0) {
+          index++
+          return null
+        }
+        index++
+      }
+      return null
+    }
+  }
+
+  const declarations: ExternalDeclaration[] = []
+  while (index < tokens.length) {
+    const declaration = recover(parseExternalDeclaration, true)
+    if (declaration) declarations.push(declaration)
+  }
+
+  return { declarations, macros, errors }
+}
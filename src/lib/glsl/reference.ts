@@ -0,0 +1,397 @@
+/**
+ * The GLSL reference behind hovers and signature help: what every built-in
+ * function, constructor, variable, type and keyword does, on top of the
+ * vocabulary in `builtins.ts`. Descriptions follow the GLSL ES specs.
+ */
+import {
+  BUILTIN_FUNCTIONS,
+  BUILTIN_VARIABLES,
+  KEYWORDS,
+  TYPES,
+  isAvailable,
+  parsePrototype,
+  type BuiltinOverload,
+  type GLSLVersion,
+} from "@/lib/glsl/builtins"
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+
+/** What the generic types in prototypes stand for. */
+export const GENERIC_TYPES: Record<string, string> = {
+  genType: "float, vec2, vec3 or vec4",
+  genIType: "int, ivec2, ivec3 or ivec4",
+  genUType: "uint, uvec2, uvec3 or uvec4",
+  genBType: "bool, bvec2, bvec3 or bvec4",
+  vec: "vec2, vec3 or vec4",
+  ivec: "ivec2, ivec3 or ivec4",
+  uvec: "uvec2, uvec3 or uvec4",
+  bvec: "bvec2, bvec3 or bvec4",
+  mat: "any matrix type",
+  gvec4: "vec4, ivec4 or uvec4, matching the sampler",
+  gsampler2D: "sampler2D, isampler2D or usampler2D",
+  gsampler3D: "sampler3D, isampler3D or usampler3D",
+  gsamplerCube: "samplerCube, isamplerCube or usamplerCube",
+  gsampler2DArray: "sampler2DArray, isampler2DArray or usampler2DArray",
+}
+
+interface FunctionDoc {
+  summary: string
+  /** Parameter descriptions by name, over the shared ones in `parameterDocs`. */
+  parameters?: Record<string, string>
+}
+
+// Parameters that mean the same thing wherever they appear
+const parameterDocs: Record<string, string> = {
+  sampler: "The texture to sample.",
+  coord: "Texture coordinates.",
+  P: "Texture coordinates; for array textures the last used component is the layer, for shadow samplers the depth reference.",
+  bias: "Added to the level of detail the hardware picks. Fragment shaders only.",
+  lod: "Explicit level of detail (mip level) to sample.",
+  offset: "Texel offset applied to the coordinates; must be a constant expression.",
+  dPdx: "Derivative of P along screen x.",
+  dPdy: "Derivative of P along screen y.",
+  angle: "Angle in radians.",
+  edge0: "Lower edge of the transition.",
+  edge1: "Upper edge of the transition.",
+  minVal: "Lower bound.",
+  maxVal: "Upper bound.",
+}
+
+const TEXTURE_LOD_EXTENSION = "GLSL ES 1.00 with `#extension GL_EXT_shader_texture_lod : enable`."
+
+// The 1.00 extension's derivatives are of coord, not P
+const GRADIENT_PARAMETERS = { dPdx: "Derivative of coord along screen x.", dPdy: "Derivative of coord along screen y." }
+
+const trig = (what: string): FunctionDoc => ({ summary: `The ${what}, per component.` })
+
+const FUNCTION_DOCS: Record<string, FunctionDoc> = {
+  radians: { summary: "Converts degrees to radians: π/180 · degrees." },
+  degrees: { summary: "Converts radians to degrees: 180/π · radians." },
+  sin: trig("sine of an angle in radians"),
+  cos: trig("cosine of an angle in radians"),
+  tan: trig("tangent of an angle in radians"),
+  asin: { summary: "Arc sine: the angle whose sine is x, in [-π/2, π/2]. Undefined for |x| > 1." },
+  acos: { summary: "Arc cosine: the angle whose cosine is x, in [0, π]. Undefined for |x| > 1." },
+  atan: {
+    summary:
+      "Arc tangent. With two arguments, the angle of the point (x, y) in [-π, π], using both signs to find the quadrant (undefined when both are 0); with one, the angle whose tangent is y_over_x, in [-π/2, π/2].",
+  },
+  sinh: trig("hyperbolic sine"),
+  cosh: trig("hyperbolic cosine"),
+  tanh: trig("hyperbolic tangent"),
+  asinh: trig("inverse hyperbolic sine"),
+  acosh: { summary: "Inverse hyperbolic cosine. Undefined for x < 1." },
+  atanh: { summary: "Inverse hyperbolic tangent. Undefined for |x| ≥ 1." },
+  pow: { summary: "x raised to the power y. Undefined for x < 0, and for x = 0 with y ≤ 0." },
+  exp: { summary: "The natural exponent of x: e^x." },
+  log: { summary: "The natural logarithm of x. Undefined for x ≤ 0." },
+  exp2: { summary: "2 raised to the power x." },
+  log2: { summary: "The base 2 logarithm of x. Undefined for x ≤ 0." },
+  sqrt: { summary: "The square root of x. Undefined for x < 0." },
+  inversesqrt: { summary: "1 / sqrt(x). Undefined for x ≤ 0." },
+  abs: { summary: "The absolute value of x." },
+  sign: { summary: "1.0 if x > 0, 0.0 if x = 0, -1.0 if x < 0." },
+  floor: { summary: "The nearest integer less than or equal to x." },
+  ceil: { summary: "The nearest integer greater than or equal to x." },
+  trunc: { summary: "The nearest integer to x whose absolute value is not larger: x rounded toward zero." },
+  round: { summary: "The nearest integer to x; which way .5 goes is up to the implementation." },
+  roundEven: { summary: "The nearest integer to x, with .5 rounded to the nearest even integer." },
+  fract: { summary: "The fractional part: x - floor(x)." },
+  mod: { summary: "Modulus: x - y · floor(x / y). The result has the sign of y." },
+  modf: { summary: "Splits x into its fractional part (returned) and integer part (written to i), both with the sign of x.", parameters: { i: "Receives the integer part." } },
+  min: { summary: "The smaller of x and y." },
+  max: { summary: "The larger of x and y." },
+  clamp: { summary: "min(max(x, minVal), maxVal): x limited to [minVal, maxVal]. Undefined if minVal > maxVal." },
+  mix: {
+    summary: "Linear blend x · (1 - a) + y · a. With a boolean a, picks y where a is true and x elsewhere.",
+    parameters: { x: "Value at a = 0.", y: "Value at a = 1.", a: "Blend factor, usually in [0, 1]." },
+  },
+  step: { summary: "0.0 where x < edge, 1.0 elsewhere.", parameters: { edge: "Where the step happens." } },
+  smoothstep: {
+    summary: "Smooth Hermite interpolation from 0.0 at edge0 to 1.0 at edge1: t·t·(3 - 2t) with t = clamp((x - edge0) / (edge1 - edge0), 0, 1). Undefined if edge0 ≥ edge1.",
+  },
+  isnan: { summary: "True where x is a NaN." },
+  isinf: { summary: "True where x is positive or negative infinity." },
+  floatBitsToInt: { summary: "The bits of a float, as a signed integer." },
+  floatBitsToUint: { summary: "The bits of a float, as an unsigned integer." },
+  intBitsToFloat: { summary: "The float with the given bits; NaN and infinity bit patterns give unspecified results." },
+  uintBitsToFloat: { summary: "The float with the given bits; NaN and infinity bit patterns give unspecified results." },
+  packSnorm2x16: { summary: "Packs two floats in [-1, 1] as signed 16-bit normalized integers into one uint; x in the low bits." },
+  unpackSnorm2x16: { summary: "Unpacks two signed 16-bit normalized integers from a uint into floats in [-1, 1]." },
+  packUnorm2x16: { summary: "Packs two floats in [0, 1] as unsigned 16-bit normalized integers into one uint; x in the low bits." },
+  unpackUnorm2x16: { summary: "Unpacks two unsigned 16-bit normalized integers from a uint into floats in [0, 1]." },
+  packHalf2x16: { summary: "Packs two floats as 16-bit half floats into one uint; x in the low bits." },
+  unpackHalf2x16: { summary: "Unpacks two 16-bit half floats from a uint." },
+  length: { summary: "The length of vector x." },
+  distance: { summary: "The distance between p0 and p1: length(p0 - p1)." },
+  dot: { summary: "The dot product of x and y." },
+  cross: { summary: "The cross product of x and y." },
+  normalize: { summary: "A vector in the same direction as x with length 1. Undefined for a zero vector." },
+  faceforward: { summary: "N if dot(Nref, I) < 0, else -N: flips a normal to face against the incident vector." },
+  reflect: {
+    summary: "The reflection direction of I about the surface normal N: I - 2 · dot(N, I) · N.",
+    parameters: { I: "Incident vector.", N: "Surface normal; should be normalized." },
+  },
+  refract: {
+    summary: "The refraction vector of I through a surface with normal N, or a zero vector on total internal reflection.",
+    parameters: { I: "Incident vector; should be normalized.", N: "Surface normal; should be normalized.", eta: "Ratio of indices of refraction." },
+  },
+  matrixCompMult: { summary: "Multiplies two matrices component by component (the `*` operator multiplies them as matrices)." },
+  outerProduct: { summary: "The outer product of column vector c and row vector r: a matrix with as many columns as r has components and rows as c." },
+  transpose: { summary: "The transpose of m." },
+  determinant: { summary: "The determinant of m." },
+  inverse: { summary: "The inverse of m. Undefined if m is singular or badly conditioned." },
+  lessThan: { summary: "Component-wise x < y." },
+  lessThanEqual: { summary: "Component-wise x <= y." },
+  greaterThan: { summary: "Component-wise x > y." },
+  greaterThanEqual: { summary: "Component-wise x >= y." },
+  equal: { summary: "Component-wise x == y." },
+  notEqual: { summary: "Component-wise x != y." },
+  any: { summary: "True if any component of x is true." },
+  all: { summary: "True if every component of x is true." },
+  not: { summary: "The component-wise logical complement of x." },
+  dFdx: { summary: "The derivative of p along screen x, estimated from neighbouring fragments. Fragment shaders only." },
+  dFdy: { summary: "The derivative of p along screen y, estimated from neighbouring fragments. Fragment shaders only." },
+  fwidth: { summary: "abs(dFdx(p)) + abs(dFdy(p)): how fast p changes per pixel, for antialiasing. Fragment shaders only." },
+  texture2D: { summary: "Samples a 2D texture. GLSL ES 1.00; use `texture` in 3.00." },
+  texture2DProj: { summary: "Samples a 2D texture with projective coordinates: coord.xy divided by the last component. GLSL ES 1.00." },
+  texture2DLod: {
+    summary: "Samples a 2D texture at an explicit level of detail. Vertex shaders only in GLSL ES 1.00; fragment shaders use `texture2DLodEXT`, and 3.00 `textureLod`.",
+  },
+  texture2DProjLod: {
+    summary: "Projective 2D texture lookup at an explicit level of detail. Vertex shaders only in GLSL ES 1.00; fragment shaders use `texture2DProjLodEXT`, and 3.00 `textureProjLod`.",
+  },
+  textureCube: { summary: "Samples a cube map in the direction coord. GLSL ES 1.00; use `texture` in 3.00." },
+  textureCubeLod: {
+    summary: "Samples a cube map at an explicit level of detail. Vertex shaders only in GLSL ES 1.00; fragment shaders use `textureCubeLodEXT`, and 3.00 `textureLod`.",
+  },
+  texture2DLodEXT: { summary: `Samples a 2D texture at an explicit level of detail, in a fragment shader. ${TEXTURE_LOD_EXTENSION}` },
+  texture2DProjLodEXT: { summary: `Projective 2D texture lookup at an explicit level of detail, in a fragment shader. ${TEXTURE_LOD_EXTENSION}` },
+  textureCubeLodEXT: { summary: `Samples a cube map at an explicit level of detail, in a fragment shader. ${TEXTURE_LOD_EXTENSION}` },
+  texture2DGradEXT: { summary: `Samples a 2D texture with explicit derivatives, which pick the level of detail. ${TEXTURE_LOD_EXTENSION}`, parameters: GRADIENT_PARAMETERS },
+  texture2DProjGradEXT: { summary: `Projective 2D texture lookup with explicit derivatives. ${TEXTURE_LOD_EXTENSION}`, parameters: GRADIENT_PARAMETERS },
+  textureCubeGradEXT: { summary: `Samples a cube map with explicit derivatives, which pick the level of detail. ${TEXTURE_LOD_EXTENSION}`, parameters: GRADIENT_PARAMETERS },
+  textureSize: { summary: "The size of a level of the texture, in texels (and layers, for arrays)." },
+  texture: { summary: "Samples the texture at P. Shadow samplers compare against the reference depth and return the result." },
+  textureProj: { summary: "Projective texture lookup: P's coordinates are divided by its last component first." },
+  textureLod: { summary: "Samples the texture at an explicit level of detail." },
+  textureOffset: { summary: "Samples the texture at P moved by a constant texel offset." },
+  texelFetch: { summary: "Reads one texel by integer coordinates, without filtering.", parameters: { P: "Integer texel coordinates (and layer, for arrays)." } },
+  texelFetchOffset: { summary: "Reads one texel by integer coordinates moved by a constant offset, without filtering." },
+  textureProjOffset: { summary: "Projective texture lookup with a constant texel offset." },
+  textureLodOffset: { summary: "Texture lookup at an explicit level of detail with a constant texel offset." },
+  textureProjLod: { summary: "Projective texture lookup at an explicit level of detail." },
+  textureProjLodOffset: { summary: "Projective texture lookup at an explicit level of detail with a constant texel offset." },
+  textureGrad: { summary: "Texture lookup with explicit derivatives, which pick the level of detail." },
+  textureGradOffset: { summary: "Texture lookup with explicit derivatives and a constant texel offset." },
+  textureProjGrad: { summary: "Projective texture lookup with explicit derivatives." },
+  textureProjGradOffset: { summary: "Projective texture lookup with explicit derivatives and a constant texel offset." },
+}
+
+const VARIABLE_DOCS: Record<string, string> = {
+  gl_Position: "The vertex's position in clip coordinates. Every vertex shader should write it.",
+  gl_PointSize: "Size in pixels of the point being rasterized, when drawing points.",
+  gl_VertexID: "Index of the vertex being processed.",
+  gl_InstanceID: "Index of the instance being drawn, in instanced draws.",
+  gl_FragCoord: "Window-relative coordinates of the fragment: xy in pixels from the bottom left (pixel centres at .5), z the depth, w 1/w of clip space.",
+  gl_FrontFacing: "True if the fragment belongs to a front-facing primitive.",
+  gl_PointCoord: "Where in the point the fragment is, from (0, 0) to (1, 1), when drawing points.",
+  gl_FragColor: "The fragment's output color. GLSL ES 1.00; declare an `out vec4` in 3.00.",
+  gl_FragData: "The fragment's output colors, one per draw buffer. GLSL ES 1.00.",
+  gl_FragDepth: "The fragment's depth; written, it replaces gl_FragCoord.z.",
+  gl_DepthRange: "The depth range in window coordinates: near, far and diff (far - near).",
+  gl_MaxVertexAttribs: "Minimum guaranteed number of vertex attributes (vec4s).",
+  gl_MaxVertexUniformVectors: "Minimum guaranteed number of uniform vec4s in the vertex shader.",
+  gl_MaxVaryingVectors: "Minimum guaranteed number of varying vec4s.",
+  gl_MaxVertexOutputVectors: "Minimum guaranteed number of vertex shader output vec4s.",
+  gl_MaxFragmentInputVectors: "Minimum guaranteed number of fragment shader input vec4s.",
+  gl_MaxVertexTextureImageUnits: "Minimum guaranteed number of texture units the vertex shader can use.",
+  gl_MaxCombinedTextureImageUnits: "Minimum guaranteed number of texture units both stages can use together.",
+  gl_MaxTextureImageUnits: "Minimum guaranteed number of texture units the fragment shader can use.",
+  gl_MaxFragmentUniformVectors: "Minimum guaranteed number of uniform vec4s in the fragment shader.",
+  gl_MaxDrawBuffers: "Minimum guaranteed number of draw buffers.",
+  gl_MinProgramTexelOffset: "Smallest texel offset texture lookups accept.",
+  gl_MaxProgramTexelOffset: "Largest texel offset texture lookups accept.",
+}
+
+const vectorDoc = (scalar: string) => (size: number) => `A vector of ${size} ${scalar}s.`
+const matrixDoc = (columns: number, rows: number) => `A matrix of floats with ${columns} columns and ${rows} rows, stored by column.`
+
+const TYPE_DOCS: Record<string, string> = {
+  void: "No value: the return type of functions that don't return one.",
+  bool: "A boolean.",
+  int: "A signed integer.",
+  uint: "An unsigned integer.",
+  float: "A floating-point number.",
+  ...Object.fromEntries(
+    [2, 3, 4].flatMap((size) => [
+      [`vec${size}`, vectorDoc("float")(size)],
+      [`ivec${size}`, vectorDoc("int")(size)],
+      [`uvec${size}`, vectorDoc("uint")(size)],
+      [`bvec${size}`, vectorDoc("bool")(size)],
+      [`mat${size}`, matrixDoc(size, size)],
+      ...[2, 3, 4].map((rows) => [`mat${size}x${rows}`, matrixDoc(size, rows)]),
+    ])
+  ),
+  sampler2D: "A handle to a 2D texture.",
+  samplerCube: "A handle to a cube map texture.",
+  sampler3D: "A handle to a 3D texture.",
+  sampler2DArray: "A handle to a 2D array texture.",
+  sampler2DShadow: "A handle to a 2D depth texture, sampled with comparison.",
+  samplerCubeShadow: "A handle to a cube map depth texture, sampled with comparison.",
+  sampler2DArrayShadow: "A handle to a 2D array depth texture, sampled with comparison.",
+  isampler2D: "A handle to a 2D signed integer texture.",
+  isampler3D: "A handle to a 3D signed integer texture.",
+  isamplerCube: "A handle to a cube map signed integer texture.",
+  isampler2DArray: "A handle to a 2D array signed integer texture.",
+  usampler2D: "A handle to a 2D unsigned integer texture.",
+  usampler3D: "A handle to a 3D unsigned integer texture.",
+  usamplerCube: "A handle to a cube map unsigned integer texture.",
+  usampler2DArray: "A handle to a 2D array unsigned integer texture.",
+}
+
+const KEYWORD_DOCS: Record<string, string> = {
+  const: "A compile-time constant, or a read-only function parameter.",
+  uniform: "A value set by the application, the same for every vertex and fragment of a draw.",
+  attribute: "A per-vertex input to the vertex shader. GLSL ES 1.00; use `in` in 3.00.",
+  varying: "An output of the vertex shader interpolated into an input of the fragment shader. GLSL ES 1.00; use `out`/`in` in 3.00.",
+  in: "A stage input (3.00), or a function parameter copied in.",
+  out: "A stage output (3.00), or a function parameter copied out when the function returns.",
+  inout: "A function parameter copied in, and back out when the function returns.",
+  invariant: "Makes an output compute the same value in every shader that computes it the same way.",
+  precision: "Sets the default precision of a type: `precision highp float;`. Fragment shaders have no default for float.",
+  highp: "High precision: at least 32-bit floats in 3.00. Optional in 1.00 fragment shaders.",
+  mediump: "Medium precision: at least 16-bit floats.",
+  lowp: "Low precision: enough for 8-bit colors.",
+  struct: "Declares a structure type.",
+  centroid: "Samples an interpolated input inside the primitive when multisampling.",
+  flat: "An input that isn't interpolated: every fragment gets the provoking vertex's value.",
+  smooth: "An input interpolated with perspective correction (the default).",
+  layout: "Sets locations of inputs and outputs, or block layouts: `layout(location = 0) out vec4 color;`.",
+  discard: "Throws the fragment away; nothing is written.",
+}
+
+export interface ReferenceEntry {
+  kind: "function" | "constructor" | "variable" | "type" | "keyword"
+  /** Prototypes or declarations, one per line of the hover's code block. */
+  signatures: BuiltinOverload[]
+  declaration?: string
+  documentation: string
+}
+
+// Constructors in the specs' notation, for the vector types of each scalar
+const vectorConstructors = (prefix: string, scalar: string) =>
+  `
+vec2 vec2(float s)
+vec2 vec2(float x, float y)
+vec2 vec2(vec3 v)
+vec2 vec2(vec4 v)
+vec3 vec3(float s)
+vec3 vec3(float x, float y, float z)
+vec3 vec3(vec2 xy, float z)
+vec3 vec3(float x, vec2 yz)
+vec3 vec3(vec4 v)
+vec4 vec4(float s)
+vec4 vec4(float x, float y, float z, float w)
+vec4 vec4(vec2 xy, vec2 zw)
+vec4 vec4(vec3 xyz, float w)
+vec4 vec4(float x, vec3 yzw)
+vec4 vec4(vec2 xy, float z, float w)
+vec4 vec4(float x, vec2 yz, float w)
+vec4 vec4(float x, float y, vec2 zw)
+`
+    .replace(/\bvec/g, `${prefix}vec`)
+    .replace(/\bfloat\b/g, scalar)
+
+const squareConstructors = `
+mat2 mat2(float s)
+mat2 mat2(vec2 c0, vec2 c1)
+mat2 mat2(float m00, float m01, float m10, float m11)
+mat2 mat2(mat3 m)
+mat2 mat2(mat4 m)
+mat3 mat3(float s)
+mat3 mat3(vec3 c0, vec3 c1, vec3 c2)
+mat3 mat3(float m00, float m01, float m02, float m10, float m11, float m12, float m20, float m21, float m22)
+mat3 mat3(mat2 m)
+mat3 mat3(mat4 m)
+mat4 mat4(float s)
+mat4 mat4(vec4 c0, vec4 c1, vec4 c2, vec4 c3)
+mat4 mat4(float m00, float m01, float m02, float m03, float m10, float m11, float m12, float m13, float m20, float m21, float m22, float m23, float m30, float m31, float m32, float m33)
+mat4 mat4(mat2 m)
+mat4 mat4(mat3 m)
+`
+
+// 3.00's matCxR types: C column vectors of R components
+const nonSquareConstructors = [2, 3, 4]
+  .flatMap((columns) =>
+    [2, 3, 4].map((rows) => {
+      const type = `mat${columns}x${rows}`
+      const vectors = Array.from({ length: columns }, (_, column) => `vec${rows} c${column}`).join(", ")
+      return `${type} ${type}(float s)\n${type} ${type}(${vectors})\n${type} ${type}(mat m)`
+    })
+  )
+  .join("\n")
+
+// Any scalar type converts to any other
+const scalarConstructors = (types: string[]) => types.flatMap((type) => types.map((from) => `${type} ${type}(${from} x)`)).join("\n")
+
+const parseAll = (source: string, versions: readonly GLSLVersion[]) =>
+  source
+    .trim()
+    .split("\n")
+    .map((line) => parsePrototype(line, versions))
+
+const CONSTRUCTORS: BuiltinOverload[] = [
+  ...parseAll(vectorConstructors("", "float"), [100, 300]),
+  ...parseAll(vectorConstructors("i", "int"), [100, 300]),
+  ...parseAll(vectorConstructors("b", "bool"), [100, 300]),
+  ...parseAll(vectorConstructors("u", "uint"), [300]),
+  ...parseAll(squareConstructors, [100, 300]),
+  ...parseAll(nonSquareConstructors, [300]),
+  ...parseAll(scalarConstructors(["bool", "int", "float"]), [100]),
+  ...parseAll(scalarConstructors(["bool", "int", "float", "uint"]), [300]),
+]
+
+const CONSTRUCTOR_DOC =
+  "Converts and combines its arguments in order to fill the components. A single scalar fills every component of a vector, or the diagonal of a matrix."
+
+/** Documentation for a function's parameter, from the function's own notes or the shared ones. */
+export function parameterDoc(functionName: string, parameter: string) {
+  return FUNCTION_DOCS[functionName]?.parameters?.[parameter] ?? parameterDocs[parameter]
+}
+
+/** Everything the reference knows about a built-in name in `version` and `stage`, or null for other names. */
+export function lookupReference(name: string, version: GLSLVersion, stage: ShaderStage): ReferenceEntry | null {
+  const overloads = BUILTIN_FUNCTIONS.filter((overload) => overload.name === name && isAvailable(overload, version, stage))
+  if (overloads.length) {
+    return { kind: "function", signatures: overloads, documentation: FUNCTION_DOCS[name]?.summary ?? "" }
+  }
+
+  const type = TYPES.find((entry) => entry.name === name && entry.versions.includes(version))
+  if (type) {
+    const constructors = CONSTRUCTORS.filter((overload) => overload.name === name && overload.versions.includes(version))
+    if (constructors.length) return { kind: "constructor", signatures: constructors, documentation: `${TYPE_DOCS[name]} ${CONSTRUCTOR_DOC}` }
+    return { kind: "type", signatures: [], documentation: TYPE_DOCS[name] ?? "" }
+  }
+
+  const variable = BUILTIN_VARIABLES.find((entry) => entry.name === name && isAvailable(entry, version, stage))
+  if (variable) {
+    const array = variable.arraySize ? `[${variable.arraySize}]` : ""
+    return {
+      kind: "variable",
+      signatures: [],
+      declaration: `${variable.qualifier} ${variable.type} ${variable.name}${array}`,
+      documentation: VARIABLE_DOCS[name] ?? "",
+    }
+  }
+
+  const keyword = KEYWORDS.find((entry) => entry.name === name && entry.versions.includes(version))
+  if (keyword && KEYWORD_DOCS[name]) return { kind: "keyword", signatures: [], documentation: KEYWORD_DOCS[name] }
+
+  return null
+}
+
+/** The generic types a set of prototypes uses, with what each stands for. */
+export function genericTypesIn(overloads: BuiltinOverload[]) {
+  const used = new Set(overloads.flatMap((overload) => [overload.returnType, ...overload.parameters.map((param) => param.type)]))
+  return Object.entries(GENERIC_TYPES).filter(([generic]) => used.has(generic))
+}
@@ -0,0 +1,181 @@
+/**
+ * Shadertoy compatibility: wraps `mainImage(out vec4, in vec2)` shaders in a
+ * regular WebGL 1 fragment shader and declares the inputs Shadertoy
+ * provides. Shadertoy itself compiles GLSL ES 3.00; `texture()` is aliased
+ * to `texture2D()` here, which covers most 2D-only shaders.
+ */
+import { BUFFER_IDS, emptyChannels, type BufferPass } from "@/lib/passes"
+import type { BufferId, ChannelInput } from "@/lib/runtime/protocol"
+
+/** Uniforms the wrapper declares and the runtime feeds. */
+export const SHADERTOY_UNIFORMS = [
+  "iResolution",
+  "iTime",
+  "iTimeDelta",
+  "iFrame",
+  "iFrameRate",
+  "iMouse",
+  "iDate",
+  "iChannel0",
+  "iChannel1",
+  "iChannel2",
+  "iChannel3",
+  "iChannelResolution",
+  "iTileOffset",
+]
+
+/** Declarations the wrapper puts above the user's code. */
+export const SHADERTOY_HEADER = `#extension GL_OES_standard_derivatives : enable
+precision highp float;
+uniform vec3 iResolution;
+uniform float iTime;
+uniform float iTimeDelta;
+uniform int iFrame;
+uniform float iFrameRate;
+uniform vec4 iMouse;
+uniform vec4 iDate;
+uniform sampler2D iChannel0;
+uniform sampler2D iChannel1;
+uniform sampler2D iChannel2;
+uniform sampler2D iChannel3;
+uniform vec3 iChannelResolution[4];
+// Position of the tile being rendered when a still is captured in tiles
+uniform vec2 iTileOffset;
+#define texture texture2D
+`
+
+// The Image pass is shown opaque; buffers keep their alpha, which shaders
+// often use to store data between frames
+const footers = {
+  image: `
+void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, gl_FragCoord.xy + iTileOffset);
+  gl_FragColor = vec4(color.rgb, 1.0);
+}
+`,
+  buffer: `
+void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, gl_FragCoord.xy + iTileOffset);
+  gl_FragColor = color;
+}
+`,
+}
+
+export interface WrappedSource {
+  source: string
+  /** Lines added above the user's code; subtract from compiler line numbers. */
+  lineOffset: number
+}
+
+export function wrapShadertoy(source: string, pass: "image" | "buffer" = "image"): WrappedSource {
+  return {
+    source: `${SHADERTOY_HEADER}${source}\n${footers[pass]}`,
+    lineOffset: SHADERTOY_HEADER.split("\n").length - 1,
+  }
+}
+
+export interface ShadertoyImport {
+  name: string
+  /** Image pass code, with the Common tab (if any) prepended. */
+  fragment: string
+  /** Channel inputs of the Image pass. */
+  channels: ChannelInput[]
+  /** Buffer passes in render order, also with Common prepended. */
+  buffers: BufferPass[]
+  warnings: string[]
+}
+
+type OutputId = string | number
+
+interface RenderPass {
+  name?: string
+  type?: string
+  code?: string
+  inputs?: { id?: OutputId; channel?: number; ctype?: string; type?: string }[]
+  outputs?: { id?: OutputId }[]
+}
+
+interface ShaderEntry {
+  info?: { name?: string }
+  renderpass?: RenderPass[]
+}
+
+/** Finds the shader in any of the shapes Shadertoy exports: `{Shader}`, `[shader]` or the shader itself. */
+function findShader(data: unknown): ShaderEntry | null {
+  if (Array.isArray(data)) return findShader(data[0])
+  if (typeof data !== "object" || data === null) return null
+  if ("Shader" in data) return findShader((data as { Shader: unknown }).Shader)
+  return Array.isArray((data as ShaderEntry).renderpass) ? (data as ShaderEntry) : null
+}
+
+export function isShadertoyExport(data: unknown) {
+  return findShader(data) !== null
+}
+
+export function parseShadertoyExport(data: unknown): ShadertoyImport {
+  const shader = findShader(data)
+  if (!shader?.renderpass) throw new Error("Not a Shadertoy export: no render passes found")
+
+  const passes = shader.renderpass
+  const image = passes.find((pass) => pass.type === "image") ?? passes[0]
+  if (!image?.code) throw new Error("Shadertoy export has no Image pass code")
+
+  const common = passes.find((pass) => pass.type === "common")?.code
+  const withCommon = (code: string) => (common ? `${common.trimEnd()}\n\n${code}` : code)
+  const warnings: string[] = []
+
+  // Buffer passes are named "Buffer A".."Buffer D"; others take the next free id
+  const bufferPasses = passes.filter((pass) => pass.type === "buffer" && pass.code)
+  const ids = new Map<RenderPass, BufferId>()
+  for (const pass of bufferPasses) {
+    const named = pass.name?.match(/^Buffer ([A-D])$/)?.[1] as BufferId | undefined
+    if (named && ![...ids.values()].includes(named)) ids.set(pass, named)
+  }
+  for (const pass of bufferPasses) {
+    const free = BUFFER_IDS.find((id) => ![...ids.values()].includes(id))
+    if (!ids.has(pass) && free) ids.set(pass, free)
+  }
+
+  // Inputs name the output they read, not the pass
+  const outputs = new Map<string, BufferId>()
+  for (const [pass, id] of ids) {
+    for (const output of pass.outputs ?? []) {
+      if (output.id !== undefined) outputs.set(String(output.id), id)
+    }
+  }
+
+  const channelsOf = (pass: RenderPass, label: string) => {
+    const channels = emptyChannels()
+    for (const input of pass.inputs ?? []) {
+      const channel = input.channel ?? -1
+      const kind = input.ctype ?? input.type ?? "unknown"
+      const buffer = kind === "buffer" && input.id !== undefined ? outputs.get(String(input.id)) : undefined
+      if (buffer && channel >= 0 && channel < channels.length) {
+        channels[channel] = { type: "buffer", buffer }
+      } else {
+        warnings.push(`${label} iChannel${input.channel ?? "?"} input (${kind}) was not imported and reads as black`)
+      }
+    }
+    return channels
+  }
+
+  for (const pass of passes) {
+    if (pass !== image && pass.type !== "common" && !ids.has(pass)) {
+      warnings.push(`Pass "${pass.name ?? pass.type}" was not imported; only Image, Common and Buffer A-D passes are supported`)
+    }
+  }
+
+  return {
+    name: shader.info?.name ?? "Shadertoy import",
+    fragment: withCommon(image.code),
+    channels: channelsOf(image, "Image"),
+    buffers: [...ids].map(([pass, id]) => ({
+      id,
+      source: withCommon(pass.code ?? ""),
+      channels: channelsOf(pass, `Buffer ${id}`),
+    })).sort((a, b) => a.id.localeCompare(b.id)),
+    warnings,
+  }
+}
@@ -0,0 +1,131 @@
+import type { languages } from "monaco-editor"
+import { glslVersion, type BuiltinOverload } from "@/lib/glsl/builtins"
+import { getGLSLDocument } from "@/lib/glsl/documents"
+import { lookupReference, parameterDoc } from "@/lib/glsl/reference"
+import { scanSymbols, symbolsAt, type GLSLSymbol } from "@/lib/glsl/symbols"
+
+// Parentheses after these open a condition or loop header, not a call
+const CONTROL_WORDS = new Set(["if", "for", "while", "switch", "return"])
+
+interface EnclosingCall {
+  name: string
+  /** Index of the argument the cursor is in. */
+  argument: number
+}
+
+// Blanks out comments, keeping offsets
+const stripComments = (text: string) => text.replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g, (comment) => comment.replace(/[^\n]/g, " "))
+
+/**
+ * Finds the call the end of `before` is inside of, walking back over
+ * nested calls, brackets and line breaks and counting the commas at the
+ * call's own level. Stops at the start of the statement.
+ */
+function enclosingCall(before: string): EnclosingCall | null {
+  const text = stripComments(before)
+  let depth = 0
+  let commas = 0
+  for (let i = text.length - 1; i >= 0; i--) {
+    const c = text[i]
+    if (c === ")" || c === "]") {
+      depth++
+    } else if (c === "(" || c === "[") {
+      if (depth > 0) {
+        depth--
+        continue
+      }
+      const name = c === "(" ? text.slice(0, i).match(/([A-Za-z_]\w*)\s*$/)?.[1] : undefined
+      if (name && CONTROL_WORDS.has(name)) return null
+      if (name) return { name, argument: commas }
+      // Inside grouping parentheses or an index: the commas so far aren't the call's
+      commas = 0
+    } else if (depth === 0) {
+      if (c === ",") commas++
+      else if (c === ";" || c === "{" || c === "}") return null
+    }
+  }
+  return null
+}
+
+/** A signature whose parameters Monaco can highlight by their offsets in the label. */
+function signature(prefix: string, parameters: { label: string; documentation?: string }[], documentation?: string): languages.SignatureInformation {
+  let label = `${prefix}(`
+  const params: languages.ParameterInformation[] = parameters.map((param, index) => {
+    if (index) label += ", "
+    const start = label.length
+    label += param.label
+    return { label: [start, label.length], ...(param.documentation && { documentation: param.documentation }) }
+  })
+  label += ")"
+  return { label, parameters: params, ...(documentation && { documentation }) }
+}
+
+const builtinSignature = (overload: BuiltinOverload, documentation: string) =>
+  signature(
+    `${overload.returnType} ${overload.name}`,
+    overload.parameters.map((param) => ({
+      label: `${param.qualifier ? `${param.qualifier} ` : ""}${param.type} ${param.name}`,
+      documentation: parameterDoc(overload.name, param.name),
+    })),
+    documentation
+  )
+
+const memberLabel = (member: GLSLSymbol) =>
+  `${[...member.qualifiers, member.type].join(" ")} ${member.name}${member.arraySize !== undefined ? `[${member.arraySize}]` : ""}`
+
+/**
+ * Signature help for the `glsl` language: every overload of the function
+ * or constructor being called, built-in or declared in the document, with
+ * the argument under the cursor highlighted.
+ */
+export function createSignatureHelpProvider(): languages.SignatureHelpProvider {
+  return {
+    signatureHelpTriggerCharacters: ["(", ","],
+    signatureHelpRetriggerCharacters: [")"],
+    provideSignatureHelp(model, position, _token, context) {
+      const offset = model.getOffsetAt(position)
+      const text = model.getValue()
+      const call = enclosingCall(text.slice(0, offset))
+      if (!call) return null
+      const document = getGLSLDocument(model)
+
+      let signatures: languages.SignatureInformation[] = []
+      const declared = [...scanSymbols(document.prelude), ...symbolsAt(scanSymbols(text), offset)]
+      const functions = declared.filter((symbol) => symbol.kind === "function" && symbol.name === call.name)
+      const struct = [...declared].reverse().find((symbol) => symbol.kind === "struct" && symbol.name === call.name)
+      if (functions.length) {
+        const seen = new Set<string>()
+        for (const fn of functions) {
+          const info = signature(`${fn.type} ${fn.name}`, fn.members!.map((param) => ({ label: memberLabel(param) })))
+          // A prototype and its definition are one overload
+          if (seen.has(info.label)) continue
+          seen.add(info.label)
+          signatures.push(info)
+        }
+      } else if (struct) {
+        signatures = [signature(struct.name, struct.members!.map((field) => ({ label: memberLabel(field) })), `Constructs a ${struct.name}, one argument per field.`)]
+      } else {
+        const entry = lookupReference(call.name, glslVersion(text), document.stage)
+        if (entry?.kind === "function" || entry?.kind === "constructor") {
+          signatures = entry.signatures.map((overload) => builtinSignature(overload, entry.documentation))
+        }
+      }
+      if (!signatures.length) return null
+
+      // Keep the overload the user cycled to while it still fits; otherwise the first one long enough
+      const fits = (index: number) => (signatures[index]?.parameters.length ?? 0) > call.argument
+      const previous = context.activeSignatureHelp
+      const kept =
+        previous && previous.signatures[previous.activeSignature]?.label === signatures[previous.activeSignature]?.label && fits(previous.activeSignature)
+          ? previous.activeSignature
+          : -1
+      const first = signatures.findIndex((_, index) => fits(index))
+      const activeSignature = kept >= 0 ? kept : Math.max(first, 0)
+
+      return {
+        value: { signatures, activeSignature, activeParameter: call.argument },
+        dispose: () => {},
+      }
+    },
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * A forgiving scan of a GLSL document for the names it declares: macros,
+ * structs, functions and their parameters, globals and locals. It reads
+ * half-typed code without complaint, which is what editor features need;
+ * it is not a validator.
+ */
+import { TYPE_NAMES } from "@/lib/glsl/builtins"
+
+export interface GLSLToken {
+  kind: "identifier" | "number" | "punctuation" | "directive"
+  text: string
+  /** Offset of the token's first character in the source. */
+  offset: number
+}
+
+/**
+ * Splits GLSL into tokens, dropping comments and whitespace. Operators
+ * like `+=` are one token. Each preprocessor line (with its continuations)
+ * becomes one "directive" token.
+ */
+export function tokenize(source: string): GLSLToken[] {
+  const tokens: GLSLToken[] = []
+  const pattern = /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|(^[ \t]*#(?:\\\r?\n|[^\n])*)|([A-Za-z_]\w*)|(0[xX][0-9a-fA-F]+[uU]?|(?:\d+\.\d*|\.\d+|\d+)(?:[eE][+-]?\d+)?[uUfF]?)|(<<=|>>=|\+\+|--|[-+*/%&|^<>=!]=|&&|\|\||\^\^|<<|>>|\S)/gm
+  for (const match of source.matchAll(pattern)) {
+    if (match[1]) continue
+    const offset = match.index
+    if (match[2]) tokens.push({ kind: "directive", text: match[2].trim(), offset: offset + match[2].indexOf("#") })
+    else if (match[3]) tokens.push({ kind: "identifier", text: match[3], offset })
+    else if (match[4]) tokens.push({ kind: "number", text: match[4], offset })
+    else tokens.push({ kind: "punctuation", text: match[5], offset })
+  }
+  return tokens
+}
+
+export type GLSLSymbolKind = "macro" | "struct" | "field" | "function" | "parameter" | "variable"
+
+export interface GLSLSymbol {
+  name: string
+  kind: GLSLSymbolKind
+  /** Declared type; a function's return type. Empty for macros. */
+  type: string
+  /** Storage and precision qualifiers as written, e.g. ["uniform", "highp"]. */
+  qualifiers: string[]
+  /** Array size as written (possibly empty, for `float x[]`), when the symbol is an array. */
+  arraySize?: string
+  /** A function's parameters or a struct's fields. */
+  members?: GLSLSymbol[]
+  /** What follows a macro's name: its parameter list, if any, and replacement text, e.g. "(x) ((x) * 2.0)". */
+  value?: string
+  /** Offset of the name in the source. */
+  offset: number
+  /** For parameters and locals, the part of the source they are visible in. Globals have none. */
+  scope?: { start: number; end: number }
+}
+
+const QUALIFIERS = new Set([
+  "const", "uniform", "attribute", "varying", "in", "out", "inout", "invariant", "centroid", "flat", "smooth",
+  "highp", "mediump", "lowp", "precise",
+])
+
+/**
+ * Every declaration in `source`, in source order. Function prototypes and
+ * definitions are both listed; struct fields only appear as members.
+ */
+export function scanSymbols(source: string): GLSLSymbol[] {
+  const tokens = tokenize(source)
+  const symbols: GLSLSymbol[] = []
+  const structs = new Set<string>()
+  // Offsets where each open brace's block starts; the matching close ends it
+  const blocks: number[] = []
+  // Declarations waiting for the end of the block they were declared in
+  const pending: GLSLSymbol[][] = []
+  let index = 0
+
+  const peek = (ahead = 0) => tokens[index + ahead]
+  const is = (text: string, ahead = 0) => peek(ahead)?.text === text
+  const isType = (token?: GLSLToken) => !!token && token.kind === "identifier" && (TYPE_NAMES.has(token.text) || structs.has(token.text))
+
+  // Skips to just past the bracket closing the one at `index`
+  const skipBalanced = () => {
+    const open = peek().text
+    const close = open === "(" ? ")" : open === "[" ? "]" : "}"
+    let depth = 0
+    while (index < tokens.length) {
+      const text = tokens[index++].text
+      if (text === open) depth++
+      else if (text === close && --depth === 0) return
+    }
+  }
+
+  const sourceText = (start: number, end: number) =>
+    tokens
+      .slice(start, end)
+      .map((token) => token.text)
+      .join(" ")
+      .replace(/\s*([[\]().,])\s*/g, "$1")
+
+  const readArraySize = () => {
+    if (!is("[")) return undefined
+    const start = index
+    skipBalanced()
+    return sourceText(start + 1, index - 1)
+  }
+
+  const declare = (symbol: GLSLSymbol) => {
+    symbols.push(symbol)
+    if (blocks.length) pending[pending.length - 1].push(symbol)
+  }
+
+  // `layout(...)`, qualifiers and precision words before a type
+  const readQualifiers = () => {
+    const qualifiers: string[] = []
+    for (;;) {
+      const token = peek()
+      if (token?.text === "layout" && is("(", 1)) {
+        index++
+        skipBalanced()
+      } else if (token && QUALIFIERS.has(token.text)) {
+        qualifiers.push(token.text)
+        index++
+      } else {
+        return qualifiers
+      }
+    }
+  }
+
+  // `type name[size] = value, name2, ...;`, stopping before the `;`
+  const readDeclarators = (type: string, qualifiers: string[], typeSize?: string) => {
+    while (peek()?.kind === "identifier") {
+      const name = peek()
+      index++
+      const arraySize = readArraySize() ?? typeSize
+      declare({ name: name.text, kind: "variable", type, qualifiers, ...(arraySize !== undefined && { arraySize }), offset: name.offset })
+      // Skip an initializer up to the next top-level comma
+      while (index < tokens.length && !is(",") && !is(";") && !is("{") && !is("}")) {
+        if (is("(") || is("[")) skipBalanced()
+        else index++
+      }
+      if (!is(",")) return
+      index++
+    }
+  }
+
+  const readStruct = (qualifiers: string[]) => {
+    index++ // struct
+    const name = peek()?.kind === "identifier" ? peek() : undefined
+    if (name) index++
+    if (!is("{")) return
+    index++
+    const fields: GLSLSymbol[] = []
+    while (index < tokens.length && !is("}")) {
+      readQualifiers()
+      if (!isType(peek())) {
+        index++
+        continue
+      }
+      const type = peek().text
+      index++
+      const typeSize = readArraySize()
+      while (peek()?.kind === "identifier") {
+        const field = peek()
+        index++
+        const arraySize = readArraySize() ?? typeSize
+        fields.push({ name: field.text, kind: "field", type, qualifiers: [], ...(arraySize !== undefined && { arraySize }), offset: field.offset })
+        if (!is(",")) break
+        index++
+      }
+      if (is(";")) index++
+    }
+    index++ // }
+    if (name) {
+      structs.add(name.text)
+      declare({ name: name.text, kind: "struct", type: name.text, qualifiers: [], members: fields, offset: name.offset })
+      readDeclarators(name.text, qualifiers)
+    }
+  }
+
+  const readFunction = (type: string, qualifiers: string[], name: GLSLToken) => {
+    index++ // (
+    const parameters: GLSLSymbol[] = []
+    while (index < tokens.length && !is(")") && !is("{") && !is(";")) {
+      const paramQualifiers = readQualifiers()
+      if (!isType(peek())) {
+        index++
+        continue
+      }
+      const paramType = peek().text
+      index++
+      const typeSize = readArraySize()
+      const paramName = peek()?.kind === "identifier" ? peek() : undefined
+      if (paramName) {
+        index++
+        const arraySize = readArraySize() ?? typeSize
+        parameters.push({
+          name: paramName.text,
+          kind: "parameter",
+          type: paramType,
+          qualifiers: paramQualifiers,
+          ...(arraySize !== undefined && { arraySize }),
+          offset: paramName.offset,
+        })
+      }
+      if (is(",")) index++
+    }
+    if (is(")")) index++
+    const symbol: GLSLSymbol = { name: name.text, kind: "function", type, qualifiers, members: parameters, offset: name.offset }
+    declare(symbol)
+    // A definition's parameters are visible in its body
+    if (is("{")) {
+      blocks.push(peek().offset)
+      pending.push([...parameters])
+      symbols.push(...parameters)
+      index++
+    }
+  }
+
+  // One statement or declaration, starting at `index`
+  const readStatement = () => {
+    const token = peek()
+    if (token.kind === "directive") {
+      const define = token.text.match(/^#\s*define\s+([A-Za-z_]\w*)/)
+      if (define) {
+        const offset = token.offset + token.text.indexOf(define[1], define[0].length - define[1].length)
+        const value = token.text.slice(define[0].length).trimEnd()
+        declare({ name: define[1], kind: "macro", type: "", qualifiers: [], value, offset })
+      }
+      index++
+      return
+    }
+    if (token.text === ";") {
+      index++
+      return
+    }
+    if (token.text === "{") {
+      blocks.push(token.offset)
+      pending.push([])
+      index++
+      return
+    }
+    if (token.text === "}") {
+      const start = blocks.pop()
+      const declared = pending.pop()
+      if (start !== undefined) {
+        for (const symbol of declared ?? []) symbol.scope = { start: symbol.kind === "parameter" ? start : symbol.offset, end: token.offset + 1 }
+      }
+      index++
+      return
+    }
+    if (token.text === "precision") {
+      while (index < tokens.length && !is(";")) index++
+      index++
+      return
+    }
+    // `for (int i = 0; ...)`: the loop variable belongs to the enclosing block
+    if (token.text === "for" && is("(", 1)) {
+      index += 2
+      return
+    }
+
+    const start = index
+    const qualifiers = readQualifiers()
+    if (is("struct")) {
+      readStruct(qualifiers)
+      return
+    }
+    if (isType(peek()) && (peek(1)?.kind === "identifier" || (is("[", 1) && blocks.length === 0))) {
+      const type = peek().text
+      index++
+      const typeSize = readArraySize()
+      const name = peek()
+      if (name?.kind === "identifier" && is("(", 1) && blocks.length === 0) {
+        index++
+        readFunction(type, qualifiers, name)
+        return
+      }
+      readDeclarators(type, qualifiers, typeSize)
+      return
+    }
+    // Anything else: skip to the end of the statement, or into a block
+    if (index === start) index++
+    while (index < tokens.length && !is(";") && !is("{") && !is("}")) {
+      if (is("(")) skipBalanced()
+      else index++
+    }
+    if (is(";")) index++
+  }
+
+  while (index < tokens.length) readStatement()
+
+  // Blocks left open by half-typed code run to the end of the source
+  for (const [depth, declared] of pending.entries()) {
+    for (const symbol of declared) symbol.scope = { start: symbol.kind === "parameter" ? blocks[depth] : symbol.offset, end: source.length }
+  }
+
+  return symbols
+}
+
+/** Symbols visible at `offset`: every global, plus the locals and parameters in scope there. */
+export function symbolsAt(symbols: GLSLSymbol[], offset: number) {
+  return symbols.filter((symbol) => !symbol.scope || (symbol.scope.start <= offset && offset <= symbol.scope.end))
+}
+
+/** A one-line declaration of the symbol, for completion details and hovers. */
+export function describeSymbol(symbol: GLSLSymbol) {
+  const array = symbol.arraySize !== undefined ? `[${symbol.arraySize}]` : ""
+  switch (symbol.kind) {
+    case "function":
+      return `${symbol.type} ${symbol.name}(${symbol.members!.map((param) => [...param.qualifiers, param.type, param.name].join(" ")).join(", ")})`
+    case "struct":
+      return `struct ${symbol.name}`
+    case "macro":
+      return `#define ${symbol.name}${symbol.value ?? ""}`
+    case "parameter":
+      return `parameter ${symbol.type}${array}`
+    default:
+      return [...symbol.qualifiers, `${symbol.type}${array}`].join(" ")
+  }
+}
@@ -0,0 +1,208 @@
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+import { SHADERTOY_UNIFORMS } from "@/lib/glsl/shadertoy"
+import type { UniformValue, UniformValues } from "@/lib/runtime/protocol"
+
+export type UniformType = "float" | "int" | "bool" | "vec2" | "vec3" | "vec4" | "mat2" | "mat3" | "mat4"
+
+export interface UniformDeclaration {
+  name: string
+  type: UniformType
+  stages: ShaderStage[]
+  min: number
+  max: number
+  step: number
+  defaultValue: UniformValue
+}
+
+/**
+ * Uniforms the runtime feeds every frame. They get no control in the
+ * uniform panel, since anything set there would be overwritten.
+ */
+export const RUNTIME_UNIFORMS = new Set([
+  "time",
+  "resolution",
+  "mouse",
+  "modelMatrix",
+  "viewMatrix",
+  "modelViewMatrix",
+  "projectionMatrix",
+  "normalMatrix",
+  "cameraPosition",
+  ...SHADERTOY_UNIFORMS,
+])
+
+const supportedTypes = new Set<string>(["float", "int", "bool", "vec2", "vec3", "vec4", "mat2", "mat3", "mat4"])
+
+const declarationPattern = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+([^;]+);(.*)$/
+
+interface Annotations {
+  range?: [number, number]
+  step?: number
+  defaultValue?: number[]
+}
+
+function parseNumbers(text: string) {
+  return text.trim().split(/[\s,]+/).filter(Boolean).map(Number).filter((value) => !Number.isNaN(value))
+}
+
+/**
+ * Reads `@range min max`, `@step s` and `@default v...` hints from a
+ * comment, e.g. `uniform float speed; // @range 0 10 @default 2`.
+ */
+function parseAnnotations(comment: string): Annotations {
+  const annotations: Annotations = {}
+  for (const [, tag, args] of comment.matchAll(/@(\w+)([^@]*)/g)) {
+    const numbers = parseNumbers(args)
+    if (tag === "range" && numbers.length >= 2) annotations.range = [numbers[0], numbers[1]]
+    else if (tag === "step" && numbers.length >= 1) annotations.step = numbers[0]
+    else if (tag === "default" && numbers.length >= 1) annotations.defaultValue = numbers
+  }
+  return annotations
+}
+
+function componentCount(type: UniformType) {
+  switch (type) {
+    case "vec2": return 2
+    case "vec3": return 3
+    case "vec4": return 4
+    case "mat2": return 4
+    case "mat3": return 9
+    case "mat4": return 16
+    default: return 1
+  }
+}
+
+export function isMatrix(type: UniformType) {
+  return type === "mat2" || type === "mat3" || type === "mat4"
+}
+
+function identity(size: number) {
+  return Array.from({ length: size * size }, (_, index) => (index % (size + 1) === 0 ? 1 : 0))
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
+
+function defaultValueFor(type: UniformType, min: number, max: number, hint?: number[]): UniformValue {
+  const count = componentCount(type)
+
+  if (hint) {
+    if (type === "bool") return hint[0] !== 0
+    if (count === 1) return hint[0]
+    // A single number fills every component ("@default 0.5" on a vec3)
+    return Array.from({ length: count }, (_, index) => hint[index] ?? hint[hint.length - 1])
+  }
+
+  switch (type) {
+    case "bool": return false
+    case "float":
+    case "int": return clamp(0, min, max)
+    case "vec2": return [(min + max) / 2, (min + max) / 2]
+    case "vec3": return [1, 1, 1]
+    case "vec4": return [1, 1, 1, 1]
+    default: return identity(Math.sqrt(count))
+  }
+}
+
+function parseStage(source: string, stage: ShaderStage) {
+  const declarations: UniformDeclaration[] = []
+  const lines = source.split("\n")
+
+  lines.forEach((line, index) => {
+    const match = line.match(declarationPattern)
+    if (!match || !supportedTypes.has(match[1])) return
+
+    const type = match[1] as UniformType
+    // Hints may trail the declaration or sit in a comment on the line above
+    const trailing = match[3].match(/\/\/(.*)$/)?.[1] ?? ""
+    const previous = lines[index - 1]?.match(/^\s*\/\/(.*)$/)?.[1] ?? ""
+    const annotations = { ...parseAnnotations(previous), ...parseAnnotations(trailing) }
+
+    const [min, max] = annotations.range ?? (type === "int" ? [0, 10] : [0, 1])
+    const step = annotations.step ?? (type === "int" ? 1 : (max - min) / 100)
+
+    for (const part of match[2].split(",")) {
+      const name = part.trim()
+      // Arrays are left to the sketch
+      if (!/^[A-Za-z_]\w*$/.test(name) || RUNTIME_UNIFORMS.has(name)) continue
+      declarations.push({
+        name,
+        type,
+        stages: [stage],
+        min,
+        max,
+        step,
+        defaultValue: defaultValueFor(type, min, max, annotations.defaultValue),
+      })
+    }
+  })
+
+  return declarations
+}
+
+/**
+ * Collects the user-controllable uniforms from both stages and any buffer
+ * passes (which count as fragment). A uniform declared more than once is
+ * listed once; the first declaration's hints win, vertex first.
+ */
+export function parseUniforms(vertexSource: string, fragmentSource: string, bufferSources: string[] = []): UniformDeclaration[] {
+  const byName = new Map<string, UniformDeclaration>()
+  const declarations = [
+    ...parseStage(vertexSource, "vertex"),
+    ...[fragmentSource, ...bufferSources].flatMap((source) => parseStage(source, "fragment")),
+  ]
+
+  for (const declaration of declarations) {
+    const existing = byName.get(declaration.name)
+    if (existing) {
+      if (!existing.stages.includes(declaration.stages[0])) existing.stages.push(declaration.stages[0])
+    } else {
+      byName.set(declaration.name, declaration)
+    }
+  }
+
+  return [...byName.values()]
+}
+
+export interface SamplerDeclaration {
+  name: string
+  type: "sampler2D" | "samplerCube"
+}
+
+/** Sampler uniforms declared in `sources` that an asset can be bound to (iChannels excluded). */
+export function parseSamplers(sources: string[]): SamplerDeclaration[] {
+  const byName = new Map<string, SamplerDeclaration>()
+  for (const line of sources.flatMap((source) => source.split("\n"))) {
+    const match = line.match(declarationPattern)
+    if (!match || (match[1] !== "sampler2D" && match[1] !== "samplerCube")) continue
+    for (const part of match[2].split(",")) {
+      const name = part.trim()
+      if (/^[A-Za-z_]\w*$/.test(name) && !RUNTIME_UNIFORMS.has(name) && !byName.has(name)) {
+        byName.set(name, { name, type: match[1] })
+      }
+    }
+  }
+  return [...byName.values()]
+}
+
+function fits(declaration: UniformDeclaration, value: UniformValue | undefined) {
+  if (value === undefined) return false
+  if (declaration.type === "bool") return typeof value === "boolean"
+  const count = componentCount(declaration.type)
+  if (count === 1) return typeof value === "number"
+  return Array.isArray(value) && value.length === count
+}
+
+/**
+ * Values for every declared uniform: the user's edit when it still fits the
+ * declaration's type, otherwise the declaration's default.
+ */
+export function resolveUniformValues(declarations: UniformDeclaration[], edits: UniformValues): UniformValues {
+  const values: UniformValues = {}
+  for (const declaration of declarations) {
+    const edited = edits[declaration.name]
+    values[declaration.name] = fits(declaration, edited) ? edited : declaration.defaultValue
+  }
+  return values
+}
@@ -0,0 +1,123 @@
+/**
+ * Local project library, kept in IndexedDB. Entries (name, dates,
+ * thumbnail) and project bodies live in separate stores, so listing the
+ * library doesn't load every project's assets.
+ */
+import { readProject, type Project } from "@/lib/project"
+
+export interface LibraryEntry {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  /** JPEG data URL captured from the preview, if it was running. */
+  thumbnail: string | null
+}
+
+const DATABASE_NAME = "ogl-editor"
+const DATABASE_VERSION = 1
+const ENTRIES = "entries"
+const PROJECTS = "projects"
+
+// The project the editor reopens on load
+const LAST_PROJECT_KEY = "ogl-editor:last-project"
+
+let opening: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ENTRIES, { keyPath: "id" })
+      request.result.createObjectStore(PROJECTS)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      opening = null
+      reject(request.error ?? new Error("Could not open the project library"))
+    }
+  })
+  return opening
+}
+
+function settle<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Runs `body` in a transaction and resolves with its result once the transaction commits. */
+async function transact<T>(mode: IDBTransactionMode, body: (entries: IDBObjectStore, projects: IDBObjectStore) => Promise<T>) {
+  const database = await openDatabase()
+  const transaction = database.transaction([ENTRIES, PROJECTS], mode)
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("The library transaction was aborted"))
+  })
+  // Awaited together, so a failing body doesn't leave the transaction's own rejection unhandled
+  const [result] = await Promise.all([body(transaction.objectStore(ENTRIES), transaction.objectStore(PROJECTS)), done])
+  return result
+}
+
+/** Every saved project, most recently changed first. */
+export async function listEntries() {
+  const entries = await transact("readonly", (entries) => settle<LibraryEntry[]>(entries.getAll()))
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/** Loads a saved project, migrating it if it was saved in an older format. */
+export async function loadProject(id: string) {
+  const data = await transact("readonly", (_, projects) => settle(projects.get(id)))
+  if (data === undefined) throw new Error("The project is no longer in the library")
+  return readProject(data)
+}
+
+export function createEntry(name: string): LibraryEntry {
+  const now = new Date().toISOString()
+  return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, thumbnail: null }
+}
+
+export function saveProject(entry: LibraryEntry, project: Project) {
+  return transact("readwrite", async (entries, projects) => {
+    await settle(entries.put(entry))
+    await settle(projects.put(project, entry.id))
+  })
+}
+
+export function renameEntry(id: string, name: string) {
+  return transact("readwrite", async (entries) => {
+    const entry = await settle<LibraryEntry | undefined>(entries.get(id))
+    if (entry) await settle(entries.put({ ...entry, name }))
+  })
+}
+
+/** Copies a project under a new entry named "<name> copy". */
+export function duplicateEntry(id: string) {
+  return transact("readwrite", async (entries, projects) => {
+    const entry = await settle<LibraryEntry | undefined>(entries.get(id))
+    const project = await settle(projects.get(id))
+    if (!entry || project === undefined) throw new Error("The project is no longer in the library")
+
+    const copy = { ...createEntry(`${entry.name} copy`), thumbnail: entry.thumbnail }
+    await settle(entries.put(copy))
+    await settle(projects.put(project, copy.id))
+    return copy
+  })
+}
+
+export function deleteEntry(id: string) {
+  return transact("readwrite", async (entries, projects) => {
+    await settle(entries.delete(id))
+    await settle(projects.delete(id))
+  })
+}
+
+export function lastProjectId() {
+  return localStorage.getItem(LAST_PROJECT_KEY)
+}
+
+export function rememberLastProject(id: string) {
+  localStorage.setItem(LAST_PROJECT_KEY, id)
+}
@@ -0,0 +1,88 @@
+import type { Asset, BufferId, ChannelInput } from "@/lib/runtime/protocol"
+
+export const BUFFER_IDS: BufferId[] = ["A", "B", "C", "D"]
+
+export const CHANNEL_COUNT = 4
+
+/** Editor tab (and model path stem) of a buffer pass. */
+export type BufferTab = `buffer${BufferId}`
+
+export interface BufferPass {
+  id: BufferId
+  source: string
+  channels: ChannelInput[]
+}
+
+/**
+ * Vertex shader the runtime draws buffer passes with: a full-screen quad
+ * providing the same `vUv` varying as the default vertex shader.
+ */
+export const PASS_VERTEX_SHADER = `attribute vec2 position;
+attribute vec2 uv;
+
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`
+
+export function bufferTab(id: BufferId): BufferTab {
+  return `buffer${id}`
+}
+
+export function emptyChannels(): ChannelInput[] {
+  return Array.from({ length: CHANNEL_COUNT }, () => ({ type: "none" }))
+}
+
+export function describeChannel(channel: ChannelInput, assets: Asset[] = []) {
+  if (channel.type === "buffer") return `Buffer ${channel.buffer}`
+  if (channel.type === "asset") return assets.find((asset) => asset.id === channel.asset)?.name ?? "Missing texture"
+  return "None"
+}
+
+/** First buffer id not used yet, or `undefined` when all four exist. */
+export function nextBufferId(buffers: BufferPass[]) {
+  return BUFFER_IDS.find((id) => !buffers.some((buffer) => buffer.id === id))
+}
+
+/** A new buffer that feeds back into itself through iChannel0. */
+export function createBufferPass(id: BufferId, shadertoy: boolean): BufferPass {
+  const channels = emptyChannels()
+  channels[0] = { type: "buffer", buffer: id }
+
+  const source = shadertoy
+    ? `// Buffer ${id}: iChannel0 is this buffer's previous frame
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+  vec2 uv = fragCoord / iResolution.xy;
+  vec4 previous = texture(iChannel0, uv);
+  float spot = smoothstep(0.05, 0.0, distance(uv, iMouse.xy / iResolution.xy));
+  fragColor = vec4(max(previous.rgb * 0.98, vec3(spot)), 1.0);
+}`
+    : `precision mediump float;
+
+// Buffer ${id}: iChannel0 is this buffer's previous frame
+uniform sampler2D iChannel0;
+uniform float time;
+
+varying vec2 vUv;
+
+void main() {
+  vec4 previous = texture2D(iChannel0, vUv);
+  vec2 center = vec2(0.5) + 0.3 * vec2(cos(time), sin(time));
+  float spot = smoothstep(0.05, 0.0, distance(vUv, center));
+  gl_FragColor = vec4(max(previous.rgb * 0.98, vec3(spot)), 1.0);
+}`
+
+  return { id, source, channels }
+}
+
+/** Drops channel references to a buffer that no longer exists. */
+export function withoutBuffer(channels: ChannelInput[], id: BufferId): ChannelInput[] {
+  return channels.map((channel) => (channel.type === "buffer" && channel.buffer === id ? { type: "none" } : channel))
+}
+
+/** Drops channel references to a removed asset. */
+export function withoutAsset(channels: ChannelInput[], id: string): ChannelInput[] {
+  return channels.map((channel) => (channel.type === "asset" && channel.asset === id ? { type: "none" } : channel))
+}
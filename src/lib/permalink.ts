@@ -0,0 +1,60 @@
+/**
+ * Permalinks: the whole project, deflated and base64url-encoded into the
+ * URL hash (`#project=...`), so sharing needs no server.
+ */
+import { ProjectError, readProject, type Project } from "@/lib/project"
+
+const HASH_KEY = "project"
+
+/** Links longer than this get truncated by some chat apps and mail clients. */
+export const LINK_WARNING_LENGTH = 8_000
+
+/**
+ * Beyond this, links rarely survive being pasted, stored or opened (chat
+ * apps, link previews, URL bars); the project is exported as a file instead.
+ */
+export const LINK_MAX_LENGTH = 32_000
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const buffer = await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer()
+  return new Uint8Array(buffer)
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  // Chunked, since String.fromCharCode can't take megabytes of arguments
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/** The current page's URL with `project` encoded in its hash. */
+export async function createPermalink(project: Project) {
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(project)), new CompressionStream("deflate-raw"))
+  const url = new URL(location.href)
+  url.hash = `${HASH_KEY}=${toBase64Url(compressed)}`
+  return url.toString()
+}
+
+/** Whether `hash` (as in `location.hash`) carries a project. */
+export function hasPermalink(hash: string) {
+  return new URLSearchParams(hash.slice(1)).has(HASH_KEY)
+}
+
+/** Decodes the project in a permalink hash; throws a `ProjectError` if it isn't valid. */
+export async function readPermalink(hash: string): Promise<Project> {
+  const encoded = new URLSearchParams(hash.slice(1)).get(HASH_KEY) ?? ""
+  try {
+    const text = new TextDecoder().decode(await transform(fromBase64Url(encoded), new DecompressionStream("deflate-raw")))
+    return readProject(JSON.parse(text))
+  } catch (error) {
+    if (error instanceof ProjectError) throw error
+    throw new ProjectError("The link is damaged or incomplete")
+  }
+}
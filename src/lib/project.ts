@@ -0,0 +1,291 @@
+/**
+ * Project files: what Export writes and Import reads.
+ *
+ * A project is a JSON object tagged with `format` and `version`:
+ *
+ *   {
+ *     "format": "ogl-editor-project",
+ *     "version": 2,
+ *     "savedAt": "2026-01-01T00:00:00.000Z",
+ *     "shaders": {
+ *       "vertex": "...", "fragment": "...",
+ *       "fragmentMode": "glsl" | "shadertoy",
+ *       "imageChannels": [ChannelInput x 4],
+ *       "buffers": [{ "id": "A", "source": "...", "channels": [ChannelInput x 4] }]
+ *     },
+ *     "script": { "template": "ogl" | "raw", "code": "..." },
+ *     "uniforms": { "name": number | boolean | number[] },
+ *     "assets": [Asset],
+ *     "geometry": GeometrySource,
+ *     "settings": { "liveReload": true }
+ *   }
+ *
+ * `uniforms` holds the panel values the user changed; the rest come from the
+ * shaders' declarations. Files without a `version` are the loose format
+ * earlier exports wrote (`{vertexShader, fragmentShader, jsCode, ...}`) and
+ * count as version 1. Older versions are migrated step by step to the
+ * current one before validation, so readers only deal with `Project`.
+ */
+import { defaultFragmentShader, defaultJavaScript, defaultVertexShader, type SketchTemplate } from "@/lib/examples"
+import { DEFAULT_GEOMETRY } from "@/lib/geometry"
+import { BUFFER_IDS, CHANNEL_COUNT, emptyChannels, type BufferPass } from "@/lib/passes"
+import type { Asset, ChannelInput, GeometrySource, TextureSettings, UniformValues } from "@/lib/runtime/protocol"
+
+export const PROJECT_FORMAT = "ogl-editor-project"
+
+export const PROJECT_VERSION = 2
+
+/** How the fragment tab is compiled: plain GLSL, or a Shadertoy `mainImage`. */
+export type FragmentMode = "glsl" | "shadertoy"
+
+export interface ProjectShaders {
+  vertex: string
+  fragment: string
+  fragmentMode: FragmentMode
+  /** Channel inputs of the Image pass. */
+  imageChannels: ChannelInput[]
+  buffers: BufferPass[]
+}
+
+export interface ProjectSettings {
+  liveReload: boolean
+}
+
+/** Everything the editor saves, without the file's envelope. */
+export interface ProjectState {
+  shaders: ProjectShaders
+  script: { template: SketchTemplate; code: string }
+  /** Uniform panel values changed from the shaders' defaults. */
+  uniforms: UniformValues
+  assets: Asset[]
+  geometry: GeometrySource
+  settings: ProjectSettings
+}
+
+export interface Project extends ProjectState {
+  format: typeof PROJECT_FORMAT
+  version: typeof PROJECT_VERSION
+  savedAt: string
+}
+
+/** A file that can't be read as a project; `issues` lists every problem found. */
+export class ProjectError extends Error {
+  issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = "ProjectError"
+    this.issues = issues
+  }
+}
+
+export function createProject(state: ProjectState): Project {
+  return { format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...state }
+}
+
+/** The editor state a project holds, without the file's envelope. */
+export function projectStateOf({ format: _format, version: _version, savedAt: _savedAt, ...state }: Project): ProjectState {
+  return state
+}
+
+type Json = Record<string, unknown>
+
+function isRecord(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Migrations by the version they upgrade from; each returns the next version
+const migrations: Record<number, (data: Json) => Json> = {
+  // The loose format: flat fields, each optional
+  1: (data) => ({
+    format: PROJECT_FORMAT,
+    version: 2,
+    savedAt: data.timestamp ?? new Date().toISOString(),
+    shaders: {
+      vertex: data.vertexShader ?? defaultVertexShader,
+      fragment: data.fragmentShader ?? defaultFragmentShader,
+      fragmentMode: data.fragmentMode ?? "glsl",
+      imageChannels: data.imageChannels ?? emptyChannels(),
+      buffers: data.buffers ?? [],
+    },
+    script: {
+      // Projects from before the OGL template ran raw WebGL
+      template: data.template ?? (data.jsCode === undefined ? "ogl" : "raw"),
+      code: data.jsCode ?? defaultJavaScript,
+    },
+    uniforms: {},
+    assets: data.assets ?? [],
+    geometry: data.geometry ?? DEFAULT_GEOMETRY,
+    settings: { liveReload: true },
+  }),
+}
+
+function detectVersion(data: Json) {
+  if (data.format === undefined && data.version === undefined) {
+    const legacy = ["vertexShader", "fragmentShader", "jsCode"].some((key) => key in data)
+    if (!legacy) throw new ProjectError("This file is not an ogl-editor project")
+    return 1
+  }
+  if (data.format !== PROJECT_FORMAT) throw new ProjectError(`Unknown file format "${String(data.format)}"`)
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    throw new ProjectError(`Invalid project version "${String(data.version)}"`)
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new ProjectError(
+      `This project was saved by a newer version of the editor (format version ${data.version}, this editor reads up to ${PROJECT_VERSION})`
+    )
+  }
+  return data.version
+}
+
+/** Collects "path: problem" messages while walking a value. */
+class Validator {
+  issues: string[] = []
+
+  fail(path: string, problem: string) {
+    this.issues.push(`${path}: ${problem}`)
+  }
+
+  record(value: unknown, path: string): value is Json {
+    if (isRecord(value)) return true
+    this.fail(path, "expected an object")
+    return false
+  }
+
+  string(value: unknown, path: string) {
+    if (typeof value !== "string") this.fail(path, "expected a string")
+  }
+
+  boolean(value: unknown, path: string) {
+    if (typeof value !== "boolean") this.fail(path, "expected true or false")
+  }
+
+  oneOf(value: unknown, options: readonly string[], path: string) {
+    if (typeof value !== "string" || !options.includes(value)) {
+      this.fail(path, `expected one of ${options.map((option) => `"${option}"`).join(", ")}`)
+    }
+  }
+
+  array(value: unknown, path: string, each: (item: unknown, path: string) => void) {
+    if (!Array.isArray(value)) {
+      this.fail(path, "expected an array")
+      return
+    }
+    value.forEach((item, index) => each(item, `${path}[${index}]`))
+  }
+
+  numbers(value: unknown, path: string) {
+    if (!Array.isArray(value) || !value.every((item) => typeof item === "number" && Number.isFinite(item))) {
+      this.fail(path, "expected an array of numbers")
+    }
+  }
+}
+
+function validateChannels(v: Validator, value: unknown, path: string, buffers: Set<unknown>, assets: Set<unknown>) {
+  if (Array.isArray(value) && value.length !== CHANNEL_COUNT) v.fail(path, `expected ${CHANNEL_COUNT} channels`)
+  v.array(value, path, (channel, channelPath) => {
+    if (!v.record(channel, channelPath)) return
+    v.oneOf(channel.type, ["none", "buffer", "asset"], `${channelPath}.type`)
+    if (channel.type === "buffer" && !buffers.has(channel.buffer)) {
+      v.fail(`${channelPath}.buffer`, `Buffer ${String(channel.buffer)} does not exist`)
+    }
+    if (channel.type === "asset" && !assets.has(channel.asset)) {
+      v.fail(`${channelPath}.asset`, `texture "${String(channel.asset)}" does not exist`)
+    }
+  })
+}
+
+function validateSettings(v: Validator, value: unknown, path: string) {
+  if (!v.record(value, path)) return
+  const settings = value as Partial<Record<keyof TextureSettings, unknown>>
+  v.oneOf(settings.wrap, ["repeat", "clamp", "mirror"], `${path}.wrap`)
+  v.oneOf(settings.filter, ["linear", "nearest"], `${path}.filter`)
+  v.boolean(settings.mipmap, `${path}.mipmap`)
+  v.boolean(settings.flipY, `${path}.flipY`)
+}
+
+function validateAsset(v: Validator, value: unknown, path: string) {
+  if (!v.record(value, path)) return
+  v.string(value.id, `${path}.id`)
+  v.string(value.name, `${path}.name`)
+  v.oneOf(value.kind, ["image", "video", "webcam", "cubemap"], `${path}.kind`)
+  v.string(value.uniform, `${path}.uniform`)
+  validateSettings(v, value.settings, `${path}.settings`)
+  v.array(value.urls, `${path}.urls`, (url, urlPath) => v.string(url, urlPath))
+  const expected = value.kind === "cubemap" ? 6 : value.kind === "webcam" ? 0 : 1
+  if (Array.isArray(value.urls) && value.urls.length !== expected) v.fail(`${path}.urls`, `expected ${expected} URLs`)
+}
+
+function validateGeometry(v: Validator, value: unknown, path: string) {
+  if (!v.record(value, path)) return
+  v.oneOf(value.type, ["plane", "cube", "sphere", "torus", "model"], `${path}.type`)
+  if (value.type !== "model") return
+  v.string(value.name, `${path}.name`)
+  if (!v.record(value.attributes, `${path}.attributes`)) return
+  for (const name of ["position", "normal", "uv", "index"]) v.numbers(value.attributes[name], `${path}.attributes.${name}`)
+}
+
+function validateUniforms(v: Validator, value: unknown, path: string) {
+  if (!v.record(value, path)) return
+  for (const [name, uniform] of Object.entries(value)) {
+    if (typeof uniform === "number" || typeof uniform === "boolean") continue
+    v.numbers(uniform, `${path}.${name}`)
+  }
+}
+
+function validate(data: Json): Project {
+  const v = new Validator()
+  v.string(data.savedAt, "savedAt")
+
+  const assets = Array.isArray(data.assets) ? data.assets : []
+  v.array(data.assets, "assets", (asset, path) => validateAsset(v, asset, path))
+  const assetIds = new Set(assets.map((asset) => (isRecord(asset) ? asset.id : undefined)))
+
+  if (v.record(data.shaders, "shaders")) {
+    const shaders = data.shaders
+    v.string(shaders.vertex, "shaders.vertex")
+    v.string(shaders.fragment, "shaders.fragment")
+    v.oneOf(shaders.fragmentMode, ["glsl", "shadertoy"], "shaders.fragmentMode")
+
+    const buffers = Array.isArray(shaders.buffers) ? shaders.buffers : []
+    const bufferIds = new Set(buffers.map((buffer) => (isRecord(buffer) ? buffer.id : undefined)))
+    v.array(shaders.buffers, "shaders.buffers", (buffer, path) => {
+      if (!v.record(buffer, path)) return
+      v.oneOf(buffer.id, BUFFER_IDS, `${path}.id`)
+      if (buffers.filter((other) => isRecord(other) && other.id === buffer.id).length > 1) {
+        v.fail(`${path}.id`, `Buffer ${String(buffer.id)} appears more than once`)
+      }
+      v.string(buffer.source, `${path}.source`)
+      validateChannels(v, buffer.channels, `${path}.channels`, bufferIds, assetIds)
+    })
+    validateChannels(v, shaders.imageChannels, "shaders.imageChannels", bufferIds, assetIds)
+  }
+
+  if (v.record(data.script, "script")) {
+    v.oneOf(data.script.template, ["ogl", "raw"], "script.template")
+    v.string(data.script.code, "script.code")
+  }
+
+  validateUniforms(v, data.uniforms, "uniforms")
+  validateGeometry(v, data.geometry, "geometry")
+  if (v.record(data.settings, "settings")) v.boolean(data.settings.liveReload, "settings.liveReload")
+
+  if (v.issues.length > 0) {
+    throw new ProjectError(`The project file has ${v.issues.length === 1 ? "an error" : `${v.issues.length} errors`}`, v.issues)
+  }
+  return data as unknown as Project
+}
+
+/**
+ * Reads a parsed project file of any version, migrating it to the current
+ * one. Throws a `ProjectError` describing what is wrong with it otherwise.
+ */
+export function readProject(data: unknown): Project {
+  if (!isRecord(data)) throw new ProjectError("This file is not an ogl-editor project")
+
+  let project = data
+  for (let version = detectVersion(data); version < PROJECT_VERSION; version++) {
+    project = migrations[version](project)
+  }
+  return validate(project)
+}
@@ -0,0 +1,257 @@
+/**
+ * Animated GIF encoder. Each frame gets its own 256-colour palette, built by
+ * median cut over a 15-bit colour histogram, and is LZW-compressed as the
+ * GIF89a spec describes. Alpha is ignored; frames should be opaque.
+ */
+
+// GIF delays are in hundredths of a second
+const TICKS_PER_SECOND = 100
+
+function quantize(pixels: Uint8ClampedArray) {
+  const histogram = new Uint32Array(1 << 15)
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3)]++
+  }
+  const colors: number[] = []
+  histogram.forEach((count, color) => {
+    if (count) colors.push(color)
+  })
+
+  const channel = (color: number, shift: number) => (color >> shift) & 31
+  // Boxes of histogram colours; the most populous box that can be split is
+  // halved across its widest channel at the pixel median
+  let boxes = [{ colors, pixels: pixels.length / 4 }]
+  while (boxes.length < 256) {
+    let index = -1
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].colors.length > 1 && (index < 0 || boxes[i].pixels > boxes[index].pixels)) index = i
+    }
+    if (index < 0) break
+
+    const box = boxes[index]
+    let shift = 0
+    let widest = -1
+    for (const candidate of [10, 5, 0]) {
+      let min = 31
+      let max = 0
+      for (const color of box.colors) {
+        min = Math.min(min, channel(color, candidate))
+        max = Math.max(max, channel(color, candidate))
+      }
+      if (max - min > widest) {
+        widest = max - min
+        shift = candidate
+      }
+    }
+    box.colors.sort((a, b) => channel(a, shift) - channel(b, shift))
+
+    let split = 1
+    let count = 0
+    for (; split < box.colors.length; split++) {
+      count += histogram[box.colors[split - 1]]
+      if (count * 2 >= box.pixels) break
+    }
+    split = Math.min(split, box.colors.length - 1)
+    const low = box.colors.slice(0, split)
+    const high = box.colors.slice(split)
+    const lowPixels = low.reduce((sum, color) => sum + histogram[color], 0)
+    boxes = [...boxes.slice(0, index), { colors: low, pixels: lowPixels }, { colors: high, pixels: box.pixels - lowPixels }, ...boxes.slice(index + 1)]
+  }
+
+  // Each box becomes its pixel-weighted average colour
+  const palette = new Uint8Array(256 * 3)
+  const lookup = new Uint8Array(1 << 15)
+  boxes.forEach((box, index) => {
+    let r = 0
+    let g = 0
+    let b = 0
+    for (const color of box.colors) {
+      const count = histogram[color]
+      r += channel(color, 10) * count
+      g += channel(color, 5) * count
+      b += channel(color, 0) * count
+      lookup[color] = index
+    }
+    const total = Math.max(box.pixels, 1)
+    palette[index * 3] = Math.round(((r / total) * 255) / 31)
+    palette[index * 3 + 1] = Math.round(((g / total) * 255) / 31)
+    palette[index * 3 + 2] = Math.round(((b / total) * 255) / 31)
+  })
+
+  const indices = new Uint8Array(pixels.length / 4)
+  for (let i = 0, p = 0; p < pixels.length; i++, p += 4) {
+    indices[i] = lookup[((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3)]
+  }
+  return { palette, indices }
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = []
+  private buffer = new Uint8Array(1 << 16)
+  private length = 0
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush()
+    this.buffer[this.length++] = value
+  }
+
+  short(value: number) {
+    this.byte(value & 0xff)
+    this.byte((value >> 8) & 0xff)
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i])
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length))
+    this.length = 0
+  }
+
+  /** Everything written so far; the writer starts over empty. */
+  take() {
+    this.flush()
+    return this.chunks.splice(0)
+  }
+}
+
+// Open-addressing table of (prefix code, next index) -> code, as in the
+// classic compress(1)-derived GIF encoders
+const HASH_SIZE = 5003
+const HASH_SHIFT = 4
+const MAX_CODE = 4096
+
+function lzw(indices: Uint8Array, out: ByteWriter) {
+  const minCodeSize = 8
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const hashes = new Int32Array(HASH_SIZE).fill(-1)
+  const codes = new Int32Array(HASH_SIZE)
+
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let bits = 0
+  let bitCount = 0
+  const block = new Uint8Array(255)
+  let blockLength = 0
+
+  const emitByte = (value: number) => {
+    block[blockLength++] = value
+    if (blockLength === 255) {
+      out.byte(255)
+      out.bytes(block)
+      blockLength = 0
+    }
+  }
+  const emit = (code: number) => {
+    bits |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      emitByte(bits & 0xff)
+      bits >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  out.byte(minCodeSize)
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i]
+    const key = (next << 12) | prefix
+    let slot = (next << HASH_SHIFT) ^ prefix
+    let found = -1
+    if (hashes[slot] === key) {
+      found = codes[slot]
+    } else if (hashes[slot] >= 0) {
+      const step = slot === 0 ? 1 : HASH_SIZE - slot
+      do {
+        slot -= step
+        if (slot < 0) slot += HASH_SIZE
+        if (hashes[slot] === key) {
+          found = codes[slot]
+          break
+        }
+      } while (hashes[slot] >= 0)
+    }
+    if (found >= 0) {
+      prefix = found
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === MAX_CODE) {
+      emit(clearCode)
+      hashes.fill(-1)
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      // The decoder widens its codes one entry behind the encoder
+      if (nextCode >= 1 << codeSize) codeSize++
+      codes[slot] = nextCode++
+      hashes[slot] = key
+    }
+    prefix = next
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) emitByte(bits & 0xff)
+  if (blockLength) {
+    out.byte(blockLength)
+    out.bytes(block.subarray(0, blockLength))
+  }
+  out.byte(0)
+}
+
+export class GifEncoder {
+  private out = new ByteWriter()
+  private parts: BlobPart[] = []
+  private frames = 0
+  private width: number
+  private height: number
+  private fps: number
+
+  constructor(width: number, height: number, fps: number) {
+    if (width > 0xffff || height > 0xffff) throw new Error("GIFs can be at most 65535 pixels wide and high")
+    this.width = width
+    this.height = height
+    this.fps = fps
+
+    this.out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]) // GIF89a
+    this.out.short(width)
+    this.out.short(height)
+    this.out.bytes([0, 0, 0]) // no global colour table
+    // NETSCAPE2.0 extension: loop forever
+    this.out.bytes([0x21, 0xff, 0x0b, ...new TextEncoder().encode("NETSCAPE2.0"), 0x03, 0x01, 0x00, 0x00, 0x00])
+  }
+
+  /** Adds a frame; `pixels` is RGBA at the encoder's size. */
+  addFrame(pixels: Uint8ClampedArray) {
+    const { palette, indices } = quantize(pixels)
+    // Delays are rounded per frame so they add up to the real duration
+    const delay =
+      Math.round(((this.frames + 1) * TICKS_PER_SECOND) / this.fps) - Math.round((this.frames * TICKS_PER_SECOND) / this.fps)
+
+    this.out.bytes([0x21, 0xf9, 0x04, 0x04]) // graphic control: keep the previous frame underneath
+    this.out.short(delay)
+    this.out.bytes([0, 0])
+    this.out.byte(0x2c) // image descriptor
+    this.out.short(0)
+    this.out.short(0)
+    this.out.short(this.width)
+    this.out.short(this.height)
+    this.out.byte(0x87) // local colour table of 256 entries
+    this.out.bytes(palette)
+    lzw(indices, this.out)
+
+    this.parts.push(...this.out.take())
+    this.frames++
+  }
+
+  finish() {
+    this.out.byte(0x3b)
+    this.parts.push(...this.out.take())
+    return new Blob(this.parts, { type: "image/gif" })
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Offline recording: steps the sketch's clock at a fixed frame rate and
+ * encodes every frame, so the result doesn't depend on how fast the page
+ * renders. The preview runtime renders the frames one at a time.
+ */
+import type { PreviewRuntime } from "@/lib/runtime/host"
+import { GifEncoder } from "./gif"
+import { createWebmSink } from "./webm"
+import { ZipWriter } from "./zip"
+
+export type RecordingFormat = "webm" | "gif" | "png"
+
+export interface RecordingSettings {
+  format: RecordingFormat
+  width: number
+  height: number
+  fps: number
+  /** Length in seconds, starting from time 0. */
+  duration: number
+}
+
+/** Encodes rendered frames into one format's file. */
+export interface FrameSink {
+  addFrame(image: ImageBitmap, index: number): Promise<void>
+  finish(): Promise<Blob>
+  /** Releases the encoder when the recording is abandoned. */
+  close(): void
+}
+
+/** File extension of each format's download (PNG frames come zipped). */
+export const RECORDING_EXTENSIONS: Record<RecordingFormat, string> = { webm: "webm", gif: "gif", png: "zip" }
+
+export function frameCount({ fps, duration }: Pick<RecordingSettings, "fps" | "duration">) {
+  return Math.max(1, Math.round(fps * duration))
+}
+
+function gifSink(width: number, height: number, fps: number): FrameSink {
+  const encoder = new GifEncoder(width, height, fps)
+  const canvas = new OffscreenCanvas(width, height)
+  const context = canvas.getContext("2d", { willReadFrequently: true })!
+  return {
+    async addFrame(image) {
+      // GIFs are opaque here; transparent pixels show the preview's black
+      context.fillStyle = "#000"
+      context.fillRect(0, 0, width, height)
+      context.drawImage(image, 0, 0)
+      encoder.addFrame(context.getImageData(0, 0, width, height).data)
+    },
+    async finish() {
+      return encoder.finish()
+    },
+    close() {},
+  }
+}
+
+function pngSink(width: number, height: number, total: number): FrameSink {
+  const zip = new ZipWriter()
+  const canvas = new OffscreenCanvas(width, height)
+  const context = canvas.getContext("2d")!
+  const digits = Math.max(4, String(total - 1).length)
+  return {
+    async addFrame(image, index) {
+      context.clearRect(0, 0, width, height)
+      context.drawImage(image, 0, 0)
+      const png = await canvas.convertToBlob({ type: "image/png" })
+      await zip.add(`frame-${String(index).padStart(digits, "0")}.png`, png)
+    },
+    async finish() {
+      return zip.finish()
+    },
+    close() {},
+  }
+}
+
+async function createSink({ format, width, height, fps }: RecordingSettings, total: number) {
+  switch (format) {
+    case "webm":
+      return createWebmSink(width, height, fps)
+    case "gif":
+      return gifSink(width, height, fps)
+    case "png":
+      return pngSink(width, height, total)
+  }
+}
+
+/**
+ * Records the running sketch: `duration` seconds at `fps`, each frame
+ * rendered with `time` and iTime stepped by exactly 1 / fps. Rejects with an
+ * AbortError if `signal` aborts, or with the runtime's or encoder's error.
+ */
+export async function recordSketch(
+  runtime: PreviewRuntime,
+  settings: RecordingSettings,
+  onProgress: (done: number, total: number) => void,
+  signal: AbortSignal
+) {
+  const total = frameCount(settings)
+  const sink = await createSink(settings, total)
+  try {
+    runtime.beginRecording({ width: settings.width, height: settings.height })
+    try {
+      for (let index = 0; index < total; index++) {
+        signal.throwIfAborted()
+        const image = await runtime.recordFrame({ frame: index, time: index / settings.fps, delta: 1 / settings.fps })
+        try {
+          await sink.addFrame(image, index)
+        } finally {
+          image.close()
+        }
+        onProgress(index + 1, total)
+      }
+    } finally {
+      // The preview carries on while the file is finished
+      runtime.endRecording()
+    }
+    signal.throwIfAborted()
+    return await sink.finish()
+  } catch (error) {
+    sink.close()
+    throw error
+  }
+}
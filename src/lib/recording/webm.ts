@@ -0,0 +1,263 @@
+/**
+ * WebM video from rendered frames: WebCodecs encodes VP9 (or VP8) with the
+ * frames' own timestamps, and a small Matroska muxer writes the file. Where
+ * WebCodecs is missing, MediaRecorder records the frames played back at
+ * their real rate instead.
+ */
+import type { FrameSink } from "./recorder"
+
+// Keyframe interval, so players can seek without decoding from the start
+const KEYFRAME_SECONDS = 2
+
+const codecs = [
+  { codec: "vp09.00.10.08", id: "V_VP9" },
+  { codec: "vp8", id: "V_VP8" },
+]
+
+// EBML element IDs used below
+const EBML = 0x1a45dfa3
+const EBML_VERSION = 0x4286
+const EBML_READ_VERSION = 0x42f7
+const EBML_MAX_ID_LENGTH = 0x42f2
+const EBML_MAX_SIZE_LENGTH = 0x42f3
+const DOC_TYPE = 0x4282
+const DOC_TYPE_VERSION = 0x4287
+const DOC_TYPE_READ_VERSION = 0x4285
+const SEGMENT = 0x18538067
+const INFO = 0x1549a966
+const TIMECODE_SCALE = 0x2ad7b1
+const DURATION = 0x4489
+const MUXING_APP = 0x4d80
+const WRITING_APP = 0x5741
+const TRACKS = 0x1654ae6b
+const TRACK_ENTRY = 0xae
+const TRACK_NUMBER = 0xd7
+const TRACK_UID = 0x73c5
+const TRACK_TYPE = 0x83
+const CODEC_ID = 0x86
+const VIDEO = 0xe0
+const PIXEL_WIDTH = 0xb0
+const PIXEL_HEIGHT = 0xba
+const CLUSTER = 0x1f43b675
+const TIMECODE = 0xe7
+const SIMPLE_BLOCK = 0xa3
+
+type Element = Uint8Array
+
+function idBytes(id: number) {
+  const bytes: number[] = []
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256)
+  return bytes
+}
+
+// Variable-length size: the leading bit's position gives the byte count
+function sizeBytes(size: number) {
+  let length = 1
+  while (size >= 2 ** (7 * length) - 1) length++
+  const bytes = new Array<number>(length)
+  for (let i = length - 1, value = size; i >= 0; i--, value = Math.floor(value / 256)) bytes[i] = value % 256
+  bytes[0] |= 1 << (8 - length)
+  return bytes
+}
+
+function element(id: number, body: Element | Element[]): Element {
+  const parts = Array.isArray(body) ? body : [body]
+  const length = parts.reduce((sum, part) => sum + part.length, 0)
+  const head = [...idBytes(id), ...sizeBytes(length)]
+  const out = new Uint8Array(head.length + length)
+  out.set(head)
+  let offset = head.length
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+function uint(id: number, value: number) {
+  const bytes = idBytes(value)
+  return element(id, Uint8Array.from(bytes.length ? bytes : [0]))
+}
+
+function float(id: number, value: number) {
+  const body = new Uint8Array(8)
+  new DataView(body.buffer).setFloat64(0, value)
+  return element(id, body)
+}
+
+function string(id: number, value: string) {
+  return element(id, new TextEncoder().encode(value))
+}
+
+interface Chunk {
+  /** Milliseconds from the start. */
+  time: number
+  key: boolean
+  data: Uint8Array
+}
+
+function simpleBlock(chunk: Chunk, clusterTime: number) {
+  const body = new Uint8Array(4 + chunk.data.length)
+  body[0] = 0x81 // track 1
+  new DataView(body.buffer).setInt16(1, chunk.time - clusterTime)
+  body[3] = chunk.key ? 0x80 : 0
+  body.set(chunk.data, 4)
+  return element(SIMPLE_BLOCK, body)
+}
+
+function mux(chunks: Chunk[], codecId: string, width: number, height: number, duration: number) {
+  const header = element(EBML, [
+    uint(EBML_VERSION, 1),
+    uint(EBML_READ_VERSION, 1),
+    uint(EBML_MAX_ID_LENGTH, 4),
+    uint(EBML_MAX_SIZE_LENGTH, 8),
+    string(DOC_TYPE, "webm"),
+    uint(DOC_TYPE_VERSION, 2),
+    uint(DOC_TYPE_READ_VERSION, 2),
+  ])
+  const info = element(INFO, [
+    uint(TIMECODE_SCALE, 1_000_000), // timestamps in milliseconds
+    float(DURATION, duration),
+    string(MUXING_APP, "ogl-editor"),
+    string(WRITING_APP, "ogl-editor"),
+  ])
+  const tracks = element(TRACKS, [
+    element(TRACK_ENTRY, [
+      uint(TRACK_NUMBER, 1),
+      uint(TRACK_UID, 1),
+      uint(TRACK_TYPE, 1), // video
+      string(CODEC_ID, codecId),
+      element(VIDEO, [uint(PIXEL_WIDTH, width), uint(PIXEL_HEIGHT, height)]),
+    ]),
+  ])
+
+  // A cluster starts at each keyframe, or when block offsets would overflow
+  const clusters: Element[] = []
+  let blocks: Element[] = []
+  let clusterTime = 0
+  const close = () => {
+    if (blocks.length) clusters.push(element(CLUSTER, [uint(TIMECODE, clusterTime), ...blocks]))
+    blocks = []
+  }
+  for (const chunk of chunks) {
+    if (chunk.key || chunk.time - clusterTime > 0x7fff) {
+      close()
+      clusterTime = chunk.time
+    }
+    blocks.push(simpleBlock(chunk, clusterTime))
+  }
+  close()
+
+  return new Blob([header, element(SEGMENT, [info, tracks, ...clusters])], { type: "video/webm" })
+}
+
+async function supportedCodec(width: number, height: number, fps: number) {
+  if (typeof VideoEncoder === "undefined") return null
+  for (const candidate of codecs) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      framerate: fps,
+      // Generous, since recordings are usually shared after re-encoding
+      bitrate: Math.round(width * height * fps * 0.2),
+    }
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null)
+    if (support?.supported) return { config, id: candidate.id }
+  }
+  return null
+}
+
+function webCodecsSink(codec: { config: VideoEncoderConfig; id: string }, fps: number): FrameSink {
+  const chunks: Chunk[] = []
+  let failure: Error | null = null
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      chunks.push({ time: Math.round(chunk.timestamp / 1000), key: chunk.type === "key", data })
+    },
+    error: (error) => {
+      failure = error
+    },
+  })
+  encoder.configure(codec.config)
+
+  const frameMicros = 1_000_000 / fps
+  return {
+    async addFrame(image, index) {
+      if (failure) throw failure
+      const frame = new VideoFrame(image, { timestamp: Math.round(index * frameMicros), duration: Math.round(frameMicros) })
+      encoder.encode(frame, { keyFrame: index % Math.max(1, Math.round(fps * KEYFRAME_SECONDS)) === 0 })
+      frame.close()
+      // Let the encoder catch up rather than queueing the whole recording
+      while (encoder.encodeQueueSize > 2) {
+        await new Promise((resolve) => encoder.addEventListener("dequeue", resolve, { once: true }))
+      }
+    },
+    async finish() {
+      await encoder.flush()
+      encoder.close()
+      if (failure) throw failure
+      const { width = 0, height = 0 } = codec.config
+      const end = chunks.length ? chunks[chunks.length - 1].time + 1000 / fps : 0
+      return mux(chunks, codec.id, width, height, end)
+    },
+    close() {
+      if (encoder.state !== "closed") encoder.close()
+    },
+  }
+}
+
+// Fallback: draw each frame onto a canvas stream, holding it for its
+// duration so MediaRecorder's wall-clock timestamps come out right
+function mediaRecorderSink(width: number, height: number, fps: number): FrameSink {
+  const mimeType =
+    typeof MediaRecorder !== "undefined" &&
+    ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((type) => MediaRecorder.isTypeSupported(type))
+  if (!mimeType) throw new Error("This browser can't encode WebM video; try GIF or PNG frames")
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d")!
+  const stream = canvas.captureStream(0)
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: Math.round(width * height * fps * 0.2) })
+  const data: Blob[] = []
+  recorder.ondataavailable = (event) => data.push(event.data)
+  recorder.start()
+  let shownAt = 0
+
+  const hold = async () => {
+    const wait = shownAt + 1000 / fps - performance.now()
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait))
+  }
+  return {
+    async addFrame(image, index) {
+      if (index > 0) await hold()
+      context.drawImage(image, 0, 0)
+      track.requestFrame()
+      shownAt = performance.now()
+    },
+    async finish() {
+      await hold()
+      const stopped = new Promise((resolve) => (recorder.onstop = resolve))
+      recorder.stop()
+      await stopped
+      stream.getTracks().forEach((track) => track.stop())
+      return new Blob(data, { type: "video/webm" })
+    },
+    close() {
+      if (recorder.state !== "inactive") recorder.stop()
+      stream.getTracks().forEach((track) => track.stop())
+    },
+  }
+}
+
+/** A WebM encoder for frames of `width` x `height` at `fps`. */
+export async function createWebmSink(width: number, height: number, fps: number): Promise<FrameSink> {
+  const codec = await supportedCodec(width, height, fps)
+  return codec ? webCodecsSink(codec, fps) : mediaRecorderSink(width, height, fps)
+}
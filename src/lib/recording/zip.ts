@@ -0,0 +1,98 @@
+/**
+ * Minimal ZIP writer for frame sequences. Entries are stored uncompressed:
+ * PNGs are compressed already, and deflating them again gains nothing.
+ */
+
+const crcTable = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Date and time in the MS-DOS format ZIP headers use
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return { time, day }
+}
+
+interface Entry {
+  name: Uint8Array
+  crc: number
+  size: number
+  offset: number
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = []
+  private entries: Entry[] = []
+  private offset = 0
+  private stamp = dosDateTime(new Date())
+
+  /** Appends a file; `name` may contain "/" for folders. */
+  async add(name: string, data: Blob) {
+    const bytes = new Uint8Array(await data.arrayBuffer())
+    const entry = { name: new TextEncoder().encode(name), crc: crc32(bytes), size: bytes.length, offset: this.offset }
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true) // version needed: 2.0
+    header.setUint16(6, 0x0800, true) // UTF-8 names
+    header.setUint16(8, 0, true) // stored
+    header.setUint16(10, this.stamp.time, true)
+    header.setUint16(12, this.stamp.day, true)
+    header.setUint32(14, entry.crc, true)
+    header.setUint32(18, entry.size, true)
+    header.setUint32(22, entry.size, true)
+    header.setUint16(26, entry.name.length, true)
+    header.setUint16(28, 0, true)
+
+    this.parts.push(header.buffer, entry.name, bytes)
+    this.offset += 30 + entry.name.length + bytes.length
+    this.entries.push(entry)
+  }
+
+  /** The archive, with its central directory. */
+  finish() {
+    const directoryStart = this.offset
+    let directorySize = 0
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46))
+      header.setUint32(0, 0x02014b50, true)
+      header.setUint16(4, 20, true) // made by
+      header.setUint16(6, 20, true) // version needed
+      header.setUint16(8, 0x0800, true)
+      header.setUint16(10, 0, true)
+      header.setUint16(12, this.stamp.time, true)
+      header.setUint16(14, this.stamp.day, true)
+      header.setUint32(16, entry.crc, true)
+      header.setUint32(20, entry.size, true)
+      header.setUint32(24, entry.size, true)
+      header.setUint16(28, entry.name.length, true)
+      // Extra field, comment, disk number, attributes: all zero
+      header.setUint32(42, entry.offset, true)
+      this.parts.push(header.buffer, entry.name)
+      directorySize += 46 + entry.name.length
+    }
+
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054b50, true)
+    end.setUint16(8, this.entries.length, true)
+    end.setUint16(10, this.entries.length, true)
+    end.setUint32(12, directorySize, true)
+    end.setUint32(16, directoryStart, true)
+    this.parts.push(end.buffer)
+
+    return new Blob(this.parts, { type: "application/zip" })
+  }
+}
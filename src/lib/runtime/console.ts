@@ -0,0 +1,94 @@
+import type { ShaderStage } from "@/lib/glsl/diagnostics"
+import { bufferTab, type BufferTab } from "@/lib/passes"
+import type { BufferId, ConsoleLevel, FrameMessage } from "./protocol"
+
+/** Editor tabs holding shader code. */
+export type ShaderTab = ShaderStage | BufferTab
+
+export interface SourceLocation {
+  tab: ShaderTab | "javascript"
+  line: number
+  column?: number
+}
+
+export interface ConsoleEntry {
+  id: number
+  level: ConsoleLevel
+  timestamp: number
+  text: string
+  location?: SourceLocation
+}
+
+/** Entries kept before the oldest ones are dropped. */
+export const CONSOLE_LIMIT = 500
+
+let nextId = 0
+
+// "ERROR: 0:12:" (ANGLE, Mesa) or "0(12) :" (NVIDIA)
+const shaderLinePatterns = [/\bERROR:\s*\d+:(\d+)/i, /\b\d+\((\d+)\)\s*:/]
+
+/**
+ * Shader info logs echoed by the sketch point at the shader tabs rather than
+ * at the sketch. The tab is taken from the message text ("Vertex shader
+ * compilation error: ...", "Buffer A fragment shader ..."), so logs that
+ * don't name one stay unlinked.
+ */
+export function locateShaderMessage(text: string): SourceLocation | undefined {
+  const buffer = text.match(/\bbuffer ([A-D])\b/i)?.[1].toUpperCase() as BufferId | undefined
+  const stage = text.match(/\b(vertex|fragment)\b/i)?.[1].toLowerCase() as ShaderStage | undefined
+  const tab = buffer ? bufferTab(buffer) : stage
+  if (!tab) return undefined
+
+  for (const pattern of shaderLinePatterns) {
+    const match = text.match(pattern)
+    if (match) return { tab, line: Number(match[1]) }
+  }
+  return undefined
+}
+
+function sketchLocation(line?: number, column?: number): SourceLocation | undefined {
+  return line ? { tab: "javascript", line, column } : undefined
+}
+
+export function createConsoleEntry(level: ConsoleLevel, text: string, location?: SourceLocation): ConsoleEntry {
+  return { id: nextId++, level, timestamp: Date.now(), text, location }
+}
+
+/**
+ * Builds the console entry for a frame message, or `null` if it isn't
+ * console output. `lineOffsets` undo generated headers (see `wrapShadertoy`)
+ * so shader locations point at the editor's lines.
+ */
+export function consoleEntryFromMessage(
+  message: FrameMessage,
+  lineOffsets: Partial<Record<ShaderTab, number>> = {},
+): ConsoleEntry | null {
+  switch (message.type) {
+    case "console": {
+      const shaderLocation = locateShaderMessage(message.text)
+      if (shaderLocation && shaderLocation.tab !== "javascript") {
+        shaderLocation.line = Math.max(1, shaderLocation.line - (lineOffsets[shaderLocation.tab] ?? 0))
+      }
+      return createConsoleEntry(
+        message.level,
+        message.text,
+        shaderLocation ?? sketchLocation(message.line, message.column),
+      )
+    }
+    case "error": {
+      const prefix = message.rejection ? "Unhandled promise rejection" : "Uncaught"
+      const { error } = message
+      return createConsoleEntry("error", `${prefix}: ${error.message}`, sketchLocation(error.line, error.column))
+    }
+    case "shaderUpdate":
+      if (message.status === "rejected") {
+        return createConsoleEntry("warn", "Shader update failed; the last working program is still running")
+      }
+      if (message.status === "unsupported") {
+        return createConsoleEntry("warn", "This sketch does not handle live shader updates (runtime.onShaderUpdate); restart it to apply changes")
+      }
+      return null
+    default:
+      return null
+  }
+}
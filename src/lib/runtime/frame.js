@@ -0,0 +1,1547 @@
+// Bootstrap for the sandboxed preview frame. This file is inlined into the
+// frame's srcdoc as a classic script (see host.ts), so it must not import
+// anything and only talks to the editor through postMessage.
+(function() {
+  'use strict';
+
+  var CHANNEL = 'ogl-editor-runtime';
+  var SKETCH_URL = 'sketch.js';
+
+  var cleanups = [];
+  var shaderListeners = [];
+  var geometryListeners = [];
+  var thumbnailRequests = [];
+  // The sketch's runtime.loop: its render callback (which captures and
+  // recordings call directly) and the rAF timestamps its clock counts from
+  var loop = null;
+  var uniformCache = new WeakMap();
+  var canvas = document.getElementById('glCanvas');
+  var clock = { time: 0, delta: 0, frame: 0 };
+  // The editor's transport owns time: whether it advances, how fast, and
+  // the range it loops over ({ start, end } in seconds, or null)
+  var transport = { playing: true, speed: 1, loop: null };
+  // Length of a frame step, in seconds
+  var STEP_SECONDS = 1 / 60;
+  // While paused, frames are only drawn when something changed; back steps
+  // and redraws keep the buffer passes' output rather than advancing them
+  var redraw = true;
+  var pendingSteps = 0;
+  var holdBuffers = false;
+  // The editor's preview settings: render scale, whether to follow the
+  // device pixel ratio, and a fixed canvas size in pixels (or null)
+  var display = { scale: 1, devicePixelRatio: true, size: null };
+  var loopHandle = null;
+  var started = false;
+  var stopped = false;
+  // Sketches without live shader updates are told once per run, not on every edit
+  var reportedUnsupported = false;
+
+  function post(message, transfer) {
+    message.channel = CHANNEL;
+    parent.postMessage(message, '*', transfer || []);
+  }
+
+  // Pull the sketch line/column out of a stack trace, if it has one
+  function locate(stack) {
+    var match = stack && stack.match(new RegExp(SKETCH_URL.replace('.', '\\.') + ':(\\d+):(\\d+)'));
+    return match ? { line: Number(match[1]), column: Number(match[2]) } : {};
+  }
+
+  function serializeError(error, fallback) {
+    var stack = error && error.stack ? String(error.stack) : undefined;
+    var location = locate(stack);
+    return {
+      message: error && error.message ? String(error.message) : String(error),
+      stack: stack,
+      line: location.line || (fallback && fallback.line),
+      column: location.column || (fallback && fallback.column)
+    };
+  }
+
+  function reportError(error, fallback, rejection) {
+    post({ type: 'error', error: serializeError(error, fallback), rejection: !!rejection });
+  }
+
+  window.addEventListener('error', function(event) {
+    // Only trust the event's position for errors raised in the sketch itself
+    var fromSketch = event.filename && event.filename.indexOf(SKETCH_URL) !== -1;
+    reportError(event.error || event.message, fromSketch ? { line: event.lineno, column: event.colno } : null);
+  });
+
+  window.addEventListener('unhandledrejection', function(event) {
+    reportError(event.reason, null, true);
+  });
+
+  function formatValue(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || value.message;
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return String(value);
+    try {
+      return JSON.stringify(value);
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  // Mirror console output to the editor; the original methods still run
+  var consoleLevels = { log: 'log', info: 'log', debug: 'log', warn: 'warn', error: 'error' };
+  Object.keys(consoleLevels).forEach(function(method) {
+    var original = console[method];
+    console[method] = function() {
+      var args = Array.prototype.slice.call(arguments);
+      var location = locate(new Error().stack);
+      post({
+        type: 'console',
+        level: consoleLevels[method],
+        text: args.map(formatValue).join(' '),
+        line: location.line,
+        column: location.column
+      });
+      original.apply(console, args);
+    };
+  });
+
+  function activeUniforms(gl, program) {
+    var uniforms = uniformCache.get(program);
+    if (uniforms) return uniforms;
+
+    uniforms = [];
+    var count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+    for (var i = 0; i < count; i++) {
+      var info = gl.getActiveUniform(program, i);
+      // Arrays are reported as "name[0]"; they are set as a whole under "name"
+      var name = info.name.replace(/\[0\]$/, '');
+      uniforms.push({ name: name, type: info.type, location: gl.getUniformLocation(program, info.name) });
+    }
+    uniformCache.set(program, uniforms);
+    return uniforms;
+  }
+
+  function setUniform(gl, uniform, value) {
+    var location = uniform.location;
+    switch (uniform.type) {
+      case gl.FLOAT: gl.uniform1f(location, value); break;
+      case gl.FLOAT_VEC2: gl.uniform2fv(location, value); break;
+      case gl.FLOAT_VEC3: gl.uniform3fv(location, value); break;
+      case gl.FLOAT_VEC4: gl.uniform4fv(location, value); break;
+      case gl.INT:
+      case gl.BOOL: gl.uniform1i(location, Number(value)); break;
+      case gl.FLOAT_MAT2: gl.uniformMatrix2fv(location, false, value); break;
+      case gl.FLOAT_MAT3: gl.uniformMatrix3fv(location, false, value); break;
+      case gl.FLOAT_MAT4: gl.uniformMatrix4fv(location, false, value); break;
+    }
+  }
+
+  // Shadertoy mouse: xy follows the pointer while a button is down, zw holds
+  // the click position. z is negative once released, w only on the click frame.
+  // `mouse` (hoverX/hoverY) follows the pointer whether or not a button is down.
+  var pointer = { x: 0, y: 0, clickX: 0, clickY: 0, hoverX: 0, hoverY: 0, down: false, clicked: false };
+
+  function pointerPosition(event) {
+    var rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * canvas.width / rect.width,
+      y: (rect.bottom - event.clientY) * canvas.height / rect.height
+    };
+  }
+
+  canvas.addEventListener('pointerdown', function(event) {
+    var position = pointerPosition(event);
+    pointer.x = pointer.clickX = position.x;
+    pointer.y = pointer.clickY = position.y;
+    pointer.down = true;
+    pointer.clicked = true;
+  });
+  canvas.addEventListener('pointermove', function(event) {
+    var position = pointerPosition(event);
+    pointer.hoverX = position.x;
+    pointer.hoverY = position.y;
+    if (!pointer.down) return;
+    pointer.x = position.x;
+    pointer.y = position.y;
+  });
+  ['pointerup', 'pointercancel', 'pointerleave'].forEach(function(type) {
+    canvas.addEventListener(type, function() {
+      pointer.down = false;
+    });
+  });
+
+  // A paused sketch still follows resizes and camera controls
+  window.addEventListener('resize', function() {
+    redraw = true;
+  });
+  ['pointerdown', 'pointermove', 'wheel'].forEach(function(type) {
+    canvas.addEventListener(type, function() {
+      redraw = true;
+    }, { passive: true });
+  });
+
+  // Values for the uniforms the runtime provides itself, for a pass reading `channels`
+  function builtinUniforms(channels) {
+    var now = new Date();
+    var channelResolution = [];
+    for (var i = 0; i < 4; i++) {
+      var size = channelSize(channels[i]);
+      channelResolution.push(size.width, size.height, 1);
+    }
+    // A capture renders the whole image's resolution one tile at a time
+    var capture = window.runtime.capture;
+    var width = capture ? capture.width : canvas.width;
+    var height = capture ? capture.height : canvas.height;
+    var scale = capture ? capture.width / capture.sourceWidth : 1;
+    return {
+      time: clock.time,
+      resolution: [width, height],
+      mouse: [pointer.hoverX * scale, pointer.hoverY * scale],
+      iResolution: [width, height, 1],
+      iTime: clock.time,
+      iTimeDelta: clock.delta,
+      iFrame: clock.frame,
+      iFrameRate: clock.delta > 0 ? 1 / clock.delta : 60,
+      iMouse: [
+        pointer.x * scale,
+        pointer.y * scale,
+        (pointer.down ? pointer.clickX : -pointer.clickX) * scale,
+        (pointer.clicked ? pointer.clickY : -pointer.clickY) * scale
+      ],
+      iTileOffset: capture ? [capture.x, capture.y] : [0, 0],
+      iDate: [
+        now.getFullYear(),
+        now.getMonth(),
+        now.getDate(),
+        now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds() + now.getMilliseconds() / 1000
+      ],
+      iChannelResolution: channelResolution
+    };
+  }
+
+  // Samplers get texture units in declaration order: iChannels read the
+  // pass's channel inputs, any other sampler the asset bound to its name
+  function applyUniforms(gl, program, channels) {
+    var builtins = builtinUniforms(channels);
+    var values = window.runtime.uniforms;
+    var unit = 0;
+    activeUniforms(gl, program).forEach(function(uniform) {
+      if (uniform.type === gl.SAMPLER_2D || uniform.type === gl.SAMPLER_CUBE) {
+        var channel = /^iChannel([0-3])$/.exec(uniform.name);
+        var input = channel ? channels[Number(channel[1])] : { type: 'asset', asset: assetIdForUniform(uniform.name) };
+        bindSampler(gl, uniform, unit++, input);
+      } else if (Object.prototype.hasOwnProperty.call(builtins, uniform.name)) {
+        setUniform(gl, uniform, builtins[uniform.name]);
+      } else if (Object.prototype.hasOwnProperty.call(values, uniform.name)) {
+        setUniform(gl, uniform, values[uniform.name]);
+      }
+    });
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  // Multipass: buffer passes render into ping-ponged framebuffers. Reading a
+  // buffer gives its latest output, so a pass reading itself (or a buffer
+  // rendered after it) sees the previous frame. The vertex shader matches
+  // PASS_VERTEX_SHADER in src/lib/passes.ts, which the editor compiles against.
+  var PASS_VERTEX_SHADER = [
+    'attribute vec2 position;',
+    'attribute vec2 uv;',
+    'varying vec2 vUv;',
+    'void main() {',
+    '  vUv = uv;',
+    '  gl_Position = vec4(position, 0.0, 1.0);',
+    '}'
+  ].join('\n');
+
+  var passes = {
+    gl: null,
+    buffers: [],
+    channels: [],
+    programs: {},
+    targets: {},
+    quad: null,
+    blank: null,
+    blankCube: null,
+    format: null
+  };
+
+  function resetPassResources(gl) {
+    passes.gl = gl;
+    passes.programs = {};
+    passes.targets = {};
+    passes.quad = null;
+    passes.blank = null;
+    passes.blankCube = null;
+    passes.format = null;
+  }
+
+  function compilePassShader(gl, type, source, label) {
+    var shader = gl.createShader(type);
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error(label + ' shader compilation error:', gl.getShaderInfoLog(shader));
+      gl.deleteShader(shader);
+      return null;
+    }
+    return shader;
+  }
+
+  // Compiles a buffer pass. If its new source fails, the previous program is
+  // kept; the failed source is remembered so it is not retried every frame.
+  function passProgram(gl, pass) {
+    var entry = passes.programs[pass.id] || (passes.programs[pass.id] = { source: null, failed: null, program: null });
+    if (entry.source === pass.fragment || entry.failed === pass.fragment) return entry.program;
+
+    var label = 'Buffer ' + pass.id;
+    var vertexShader = compilePassShader(gl, gl.VERTEX_SHADER, PASS_VERTEX_SHADER, label + ' vertex');
+    var fragmentShader = compilePassShader(gl, gl.FRAGMENT_SHADER, pass.fragment, label + ' fragment');
+    var program = null;
+
+    if (vertexShader && fragmentShader) {
+      program = gl.createProgram();
+      gl.attachShader(program, vertexShader);
+      gl.attachShader(program, fragmentShader);
+      gl.linkProgram(program);
+      if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        console.error(label + ' program linking error:', gl.getProgramInfoLog(program));
+        gl.deleteProgram(program);
+        program = null;
+      }
+    }
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+
+    if (!program) {
+      entry.failed = pass.fragment;
+      return entry.program;
+    }
+    if (entry.program) gl.deleteProgram(entry.program);
+    entry.source = pass.fragment;
+    entry.failed = null;
+    entry.program = program;
+    return program;
+  }
+
+  // Best texture format the context can render into: float, half float, bytes
+  function targetFormat(gl) {
+    if (passes.format) return passes.format;
+
+    var candidates = [];
+    if (gl.getExtension('OES_texture_float')) {
+      candidates.push({ type: gl.FLOAT, linear: !!gl.getExtension('OES_texture_float_linear') });
+    }
+    var halfFloat = gl.getExtension('OES_texture_half_float');
+    if (halfFloat) {
+      candidates.push({ type: halfFloat.HALF_FLOAT_OES, linear: !!gl.getExtension('OES_texture_half_float_linear') });
+    }
+    candidates.push({ type: gl.UNSIGNED_BYTE, linear: true });
+
+    passes.format = candidates.filter(function(format) {
+      var surface = createSurface(gl, 1, 1, format);
+      var complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+      deleteSurface(gl, surface);
+      return complete;
+    })[0] || candidates[candidates.length - 1];
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return passes.format;
+  }
+
+  function createSurface(gl, width, height, format) {
+    var texture = gl.createTexture();
+    var filter = format.linear ? gl.LINEAR : gl.NEAREST;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, format.type, null);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    var framebuffer = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    return { texture: texture, framebuffer: framebuffer };
+  }
+
+  function deleteSurface(gl, surface) {
+    gl.deleteFramebuffer(surface.framebuffer);
+    gl.deleteTexture(surface.texture);
+  }
+
+  // Read/write surface pair for a buffer, recreated (cleared) when the canvas is resized
+  function passTarget(gl, id, width, height) {
+    var target = passes.targets[id];
+    if (target && target.width === width && target.height === height) return target;
+
+    if (target) {
+      deleteSurface(gl, target.read);
+      deleteSurface(gl, target.write);
+    }
+    var format = targetFormat(gl);
+    target = passes.targets[id] = {
+      width: width,
+      height: height,
+      read: createSurface(gl, width, height, format),
+      write: createSurface(gl, width, height, format)
+    };
+    return target;
+  }
+
+  // Drops the buffers' contents, so the next frame starts them from scratch
+  function clearPassTargets() {
+    if (!passes.gl) return;
+    Object.keys(passes.targets).forEach(function(id) {
+      deleteSurface(passes.gl, passes.targets[id].read);
+      deleteSurface(passes.gl, passes.targets[id].write);
+    });
+    passes.targets = {};
+  }
+
+  // Texture (and its size) behind a channel input, or null while it has none
+  function inputTexture(gl, input) {
+    if (!input) return null;
+    if (input.type === 'buffer') {
+      var target = passes.targets[input.buffer];
+      return target ? { texture: target.read.texture, width: target.width, height: target.height } : null;
+    }
+    if (input.type === 'asset') {
+      var entry = assetTexture(gl, input.asset);
+      return entry && entry.ready ? entry : null;
+    }
+    return null;
+  }
+
+  // Size of a channel's current texture; never uploads, unlike inputTexture
+  function channelSize(channel) {
+    if (channel && channel.type === 'buffer' && passes.targets[channel.buffer]) {
+      return passes.targets[channel.buffer];
+    }
+    var entry = channel && channel.type === 'asset' ? assets.entries[channel.asset] : null;
+    return entry && entry.ready ? entry : { width: 0, height: 0 };
+  }
+
+  // 1x1 transparent black textures for samplers without an input
+  function blankTexture(gl, cube) {
+    var key = cube ? 'blankCube' : 'blank';
+    if (!passes[key]) {
+      passes[key] = gl.createTexture();
+      var target = cube ? gl.TEXTURE_CUBE_MAP : gl.TEXTURE_2D;
+      var faces = cube ? cubeFaces(gl) : [gl.TEXTURE_2D];
+      gl.bindTexture(target, passes[key]);
+      faces.forEach(function(face) {
+        gl.texImage2D(face, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(4));
+      });
+    }
+    return passes[key];
+  }
+
+  function bindSampler(gl, uniform, unit, input) {
+    if (passes.gl !== gl) resetPassResources(gl);
+    var cube = uniform.type === gl.SAMPLER_CUBE;
+    var source = inputTexture(gl, input);
+    // A 2D input on a cube sampler (or the other way round) reads as black
+    if (source && Boolean(source.cube) !== cube) source = null;
+
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(cube ? gl.TEXTURE_CUBE_MAP : gl.TEXTURE_2D, source ? source.texture : blankTexture(gl, cube));
+    gl.uniform1i(uniform.location, unit);
+  }
+
+  // Texture inputs (images, videos, cubemaps, the webcam). Textures are
+  // created and updated lazily while binding, so uploads never disturb the
+  // sketch's own GL state between frames.
+  var assets = {
+    list: [],
+    signatures: {},
+    entries: {},
+    // Latest streamed frame per asset id, uploaded on the next bind
+    frames: {},
+    warned: {}
+  };
+
+  function cubeFaces(gl) {
+    return [
+      gl.TEXTURE_CUBE_MAP_POSITIVE_X, gl.TEXTURE_CUBE_MAP_NEGATIVE_X,
+      gl.TEXTURE_CUBE_MAP_POSITIVE_Y, gl.TEXTURE_CUBE_MAP_NEGATIVE_Y,
+      gl.TEXTURE_CUBE_MAP_POSITIVE_Z, gl.TEXTURE_CUBE_MAP_NEGATIVE_Z
+    ];
+  }
+
+  function assetIdForUniform(name) {
+    var asset = assets.list.filter(function(candidate) { return candidate.uniform === name; })[0];
+    return asset ? asset.id : null;
+  }
+
+  function setAssets(list) {
+    assets.list = list || [];
+    var signatures = {};
+    assets.list.forEach(function(asset) {
+      signatures[asset.id] = JSON.stringify(asset);
+    });
+    // Changed or removed assets are rebuilt (or dropped) on their next bind
+    Object.keys(assets.entries).forEach(function(id) {
+      if (signatures[id] !== assets.signatures[id]) disposeAsset(id);
+    });
+    assets.signatures = signatures;
+    redraw = true;
+  }
+
+  // Updates name every asset but only carry the new and changed ones
+  function updateAssets(ids, changed) {
+    var byId = {};
+    assets.list.concat(changed).forEach(function(asset) { byId[asset.id] = asset; });
+    setAssets(ids.map(function(id) { return byId[id]; }).filter(Boolean));
+  }
+
+  function disposeAsset(id) {
+    var entry = assets.entries[id];
+    if (!entry) return;
+    if (entry.video) {
+      entry.video.pause();
+      entry.video.removeAttribute('src');
+    }
+    entry.gl.deleteTexture(entry.texture);
+    delete assets.entries[id];
+  }
+
+  function loadImage(url, onLoad) {
+    var image = new Image();
+    image.onload = function() { onLoad(image); };
+    image.onerror = function() { console.warn('Could not load texture image'); };
+    image.src = url;
+  }
+
+  function createAssetEntry(gl, asset) {
+    var entry = {
+      gl: gl,
+      asset: asset,
+      cube: asset.kind === 'cubemap',
+      texture: gl.createTexture(),
+      width: 0,
+      height: 0,
+      ready: false,
+      // Sources waiting to be uploaded: one image, or six cube faces
+      pending: null,
+      video: null,
+      uploadedFrame: -1
+    };
+
+    if (asset.kind === 'image' && asset.urls[0]) {
+      loadImage(asset.urls[0], function(image) { entry.pending = [image]; });
+    } else if (asset.kind === 'cubemap' && asset.urls.length === 6) {
+      var faces = [];
+      var loaded = 0;
+      asset.urls.forEach(function(url, index) {
+        loadImage(url, function(image) {
+          faces[index] = image;
+          if (++loaded === 6) entry.pending = faces;
+        });
+      });
+    } else if (asset.kind === 'video' && asset.urls[0]) {
+      var video = document.createElement('video');
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.src = asset.urls[0];
+      video.play().catch(function() {});
+      entry.video = video;
+    }
+    return entry;
+  }
+
+  function isPowerOfTwo(value) {
+    return value > 0 && (value & (value - 1)) === 0;
+  }
+
+  function upload(gl, entry, sources, width, height) {
+    var settings = entry.asset.settings;
+    var target = entry.cube ? gl.TEXTURE_CUBE_MAP : gl.TEXTURE_2D;
+    var faces = entry.cube ? cubeFaces(gl) : [gl.TEXTURE_2D];
+
+    gl.bindTexture(target, entry.texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, settings.flipY);
+    faces.forEach(function(face, index) {
+      gl.texImage2D(face, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, sources[index]);
+    });
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    // WebGL 1 can only repeat and mipmap power-of-two textures
+    var wrap = { repeat: gl.REPEAT, clamp: gl.CLAMP_TO_EDGE, mirror: gl.MIRRORED_REPEAT }[settings.wrap];
+    var mipmap = settings.mipmap;
+    if (!isPowerOfTwo(width) || !isPowerOfTwo(height)) {
+      if ((wrap !== gl.CLAMP_TO_EDGE || mipmap) && !assets.warned[entry.asset.id]) {
+        assets.warned[entry.asset.id] = true;
+        console.warn(entry.asset.name + ' is ' + width + 'x' + height +
+          '; WebGL 1 only repeats and mipmaps power-of-two textures, so it is clamped without mipmaps');
+      }
+      wrap = gl.CLAMP_TO_EDGE;
+      mipmap = false;
+    }
+
+    var nearest = settings.filter === 'nearest';
+    if (mipmap) gl.generateMipmap(target);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, nearest ? gl.NEAREST : gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, mipmap
+      ? (nearest ? gl.NEAREST_MIPMAP_NEAREST : gl.LINEAR_MIPMAP_LINEAR)
+      : (nearest ? gl.NEAREST : gl.LINEAR));
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, wrap);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, wrap);
+
+    entry.width = width;
+    entry.height = height;
+    entry.ready = true;
+  }
+
+  // The asset's texture, brought up to date for this frame
+  function assetTexture(gl, id) {
+    if (!gl || id === null) return null;
+    var asset = assets.list.filter(function(candidate) { return candidate.id === id; })[0];
+    if (!asset) return null;
+
+    var entry = assets.entries[id];
+    if (entry && entry.gl !== gl) {
+      disposeAsset(id);
+      entry = null;
+    }
+    if (!entry) entry = assets.entries[id] = createAssetEntry(gl, asset);
+
+    if (entry.pending) {
+      upload(gl, entry, entry.pending, entry.pending[0].width, entry.pending[0].height);
+      entry.pending = null;
+    } else if (entry.video && entry.video.readyState >= 2 && entry.uploadedFrame !== clock.frame) {
+      upload(gl, entry, [entry.video], entry.video.videoWidth, entry.video.videoHeight);
+      entry.uploadedFrame = clock.frame;
+    } else if (assets.frames[id]) {
+      // Streamed frames arrive already flipped (see the host's webcam feed)
+      var frame = assets.frames[id];
+      delete assets.frames[id];
+      upload(gl, entry, [frame], frame.width, frame.height);
+      frame.close();
+    }
+    return entry;
+  }
+
+  function receiveAssetFrame(id, frame) {
+    if (assets.frames[id]) assets.frames[id].close();
+    assets.frames[id] = frame;
+  }
+
+  function drawQuad(gl, program) {
+    if (!passes.quad) {
+      passes.quad = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, passes.quad);
+      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
+        -1, -1, 0, 0,
+         1, -1, 1, 0,
+        -1,  1, 0, 1,
+         1,  1, 1, 1
+      ]), gl.STATIC_DRAW);
+    }
+    gl.bindBuffer(gl.ARRAY_BUFFER, passes.quad);
+
+    var position = gl.getAttribLocation(program, 'position');
+    var uv = gl.getAttribLocation(program, 'uv');
+    if (position >= 0) {
+      gl.enableVertexAttribArray(position);
+      gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 16, 0);
+    }
+    if (uv >= 0) {
+      gl.enableVertexAttribArray(uv);
+      gl.vertexAttribPointer(uv, 2, gl.FLOAT, false, 16, 8);
+    }
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  // Capabilities that would change how a pass draws; turned off for the
+  // buffer passes and restored afterwards
+  function passCapabilities(gl) {
+    return [gl.BLEND, gl.DEPTH_TEST, gl.CULL_FACE, gl.SCISSOR_TEST];
+  }
+
+  // OGL caches GL bindings on its renderer (gl.renderer). After drawing
+  // behind its back, drop the cached ones so it rebinds what it needs.
+  function forgetOGLBindings(gl) {
+    var renderer = gl.renderer;
+    if (!renderer || !renderer.state) return;
+    renderer.state.currentProgram = null;
+    renderer.state.boundBuffer = null;
+    renderer.state.textureUnits = [];
+    renderer.state.activeTextureUnit = 0;
+    renderer.state.framebuffer = null;
+    renderer.state.flipY = false;
+  }
+
+  function renderBuffers(gl) {
+    // Stills sample the buffers' latest output; rendering them at tile
+    // size would reallocate them and lose their history
+    var capture = window.runtime.capture;
+    if (!passes.buffers.length || holdBuffers || (capture && capture.still)) return;
+    if (passes.gl !== gl) resetPassResources(gl);
+
+    var width = gl.drawingBufferWidth;
+    var height = gl.drawingBufferHeight;
+    var capabilities = passCapabilities(gl);
+    var enabled = capabilities.map(function(capability) { return gl.isEnabled(capability); });
+    capabilities.forEach(function(capability) { gl.disable(capability); });
+
+    // Keep the quad's attributes out of whatever vertex array OGL left bound
+    if (gl.renderer && gl.renderer.bindVertexArray) {
+      gl.renderer.bindVertexArray(null);
+      gl.renderer.currentGeometry = null;
+    }
+
+    passes.buffers.forEach(function(pass) {
+      var program = passProgram(gl, pass);
+      if (!program) return;
+
+      statsSegment('Buffer ' + pass.id);
+      var target = passTarget(gl, pass.id, width, height);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.write.framebuffer);
+      gl.viewport(0, 0, width, height);
+      gl.useProgram(program);
+      applyUniforms(gl, program, pass.channels);
+      drawQuad(gl, program);
+
+      var written = target.write;
+      target.write = target.read;
+      target.read = written;
+    });
+    statsSegment('Image');
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.viewport(0, 0, width, height);
+    capabilities.forEach(function(capability, index) {
+      if (enabled[index]) gl.enable(capability);
+    });
+    forgetOGLBindings(gl);
+  }
+
+  // Texture uniform for OGL's Program: OGL calls update(unit) when binding
+  // it, and the input is looked up then, so it follows channel changes
+  function oglTexture(gl, input) {
+    return {
+      texture: true,
+      update: function(unit) {
+        if (passes.gl !== gl) resetPassResources(gl);
+        gl.renderer.activeTexture(unit);
+        var source = inputTexture(gl, input());
+        gl.bindTexture(gl.TEXTURE_2D, source && !source.cube ? source.texture : blankTexture(gl, false));
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, source && source.cube ? source.texture : blankTexture(gl, true));
+        gl.renderer.state.textureUnits[unit] = null;
+        gl.renderer.state.flipY = false;
+      }
+    };
+  }
+
+  var builtinCache = { frame: -1, values: null };
+
+  function frameBuiltins() {
+    if (builtinCache.frame !== clock.frame || !builtinCache.values) {
+      builtinCache.frame = clock.frame;
+      builtinCache.values = builtinUniforms(passes.channels);
+    }
+    return builtinCache.values;
+  }
+
+  // Uniforms object for an OGL Program: the program's own uniforms, plus
+  // every runtime-provided and panel uniform, looked up as OGL reads them
+  function oglUniforms(gl, own) {
+    var textures = {};
+    return new Proxy(own, {
+      get: function(target, name) {
+        if (typeof name !== 'string' || name in target) return target[name];
+
+        var channel = /^iChannel([0-3])$/.exec(name);
+        if (channel || assetIdForUniform(name) !== null) {
+          if (!textures[name]) {
+            textures[name] = {
+              value: oglTexture(gl, function() {
+                return channel ? passes.channels[Number(channel[1])] : { type: 'asset', asset: assetIdForUniform(name) };
+              })
+            };
+          }
+          return textures[name];
+        }
+
+        var builtins = frameBuiltins();
+        var values = window.runtime.uniforms;
+        if (Object.prototype.hasOwnProperty.call(builtins, name)) return { value: builtins[name] };
+        if (Object.prototype.hasOwnProperty.call(values, name)) return { value: values[name] };
+        return undefined;
+      }
+    });
+  }
+
+  // API available to sketches as `runtime`
+  window.runtime = {
+    canvas: canvas,
+    shaders: { vertex: '', fragment: '', channels: [], buffers: [] },
+    onCleanup: function(callback) {
+      cleanups.push(callback);
+    },
+    // `callback(shaders)` runs when the editor pushes edited shaders while
+    // the sketch is running. Return false to reject them and keep the
+    // current program.
+    onShaderUpdate: function(callback) {
+      shaderListeners.push(callback);
+    },
+    reportError: function(error) {
+      reportError(error);
+    },
+    // Geometry picked in the editor: { type: 'plane' | 'cube' | 'sphere' | 'torus' }
+    // or { type: 'model', name, attributes: { position, normal, uv, index } }
+    geometry: { type: 'plane' },
+    // `callback(geometry)` runs when the editor picks another geometry
+    onGeometryChange: function(callback) {
+      geometryListeners.push(callback);
+    },
+    // Values from the editor's uniform panel, by uniform name
+    uniforms: {},
+    // Sets every panel uniform and runtime-provided input (time, Shadertoy's
+    // iTime and iMouse, the Image pass's iChannels, ...) the currently bound
+    // program declares
+    applyUniforms: function(gl, program) {
+      applyUniforms(gl, program, passes.channels);
+    },
+    // Renders the buffer passes for this frame; call before drawing the Image pass
+    renderBuffers: function(gl) {
+      renderBuffers(gl);
+    },
+    // For OGL sketches: `new Program(gl, { uniforms: runtime.oglUniforms(gl, uniforms) })`
+    // gives the program the same runtime and panel uniforms as applyUniforms
+    oglUniforms: function(gl, uniforms) {
+      return oglUniforms(gl, uniforms || {});
+    },
+    // Canvas size in pixels for the preview's display settings, as
+    // { width, height, pixelRatio } with pixelRatio in canvas pixels per CSS
+    // pixel. Sketches size their canvas with it; settings changes fire a
+    // window resize event.
+    resolution: function() {
+      return resolution();
+    },
+    // Time in seconds (advanced, paused and scrubbed by the editor's
+    // transport), last frame's duration and frame count
+    clock: clock,
+    // While a still is captured: { width, height } of the whole image and
+    // the tile being rendered ({ x, y } from the bottom left, tileWidth,
+    // tileHeight). The canvas is sized to the tile. Recordings render each
+    // frame as a single tile, with `still` false. Null otherwise.
+    capture: null,
+    // Sets the viewport to the whole canvas, or during a capture to this
+    // tile's share of the image, so full-screen quads tile correctly
+    viewport: function(gl) {
+      var capture = window.runtime.capture;
+      if (capture) gl.viewport(-capture.x, -capture.y, capture.width, capture.height);
+      else gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    },
+    // Narrows a projection matrix (column-major, changed in place) to the
+    // tile being captured; does nothing outside captures
+    tileProjection: function(matrix) {
+      var capture = window.runtime.capture;
+      if (!capture) return matrix;
+      var scaleX = capture.width / capture.tileWidth;
+      var scaleY = capture.height / capture.tileHeight;
+      var offsetX = (capture.width - 2 * capture.x - capture.tileWidth) / capture.tileWidth;
+      var offsetY = (capture.height - 2 * capture.y - capture.tileHeight) / capture.tileHeight;
+      for (var column = 0; column < 16; column += 4) {
+        var w = matrix[column + 3];
+        matrix[column] = matrix[column] * scaleX + w * offsetX;
+        matrix[column + 1] = matrix[column + 1] * scaleY + w * offsetY;
+      }
+      return matrix;
+    },
+    // Runs `render(clock)` once per animation frame until the sketch stops,
+    // with the clock driven by the editor's transport (pause, step, seek,
+    // speed and loop range). A render that throws is reported once and
+    // ends the loop.
+    loop: function(render) {
+      loop = { render: render, last: null };
+      loopHandle = requestAnimationFrame(tick);
+    }
+  };
+
+  // Moves the clock on by `seconds`, wrapping around the loop range
+  function advance(seconds) {
+    clock.delta = seconds;
+    clock.time += seconds;
+    var range = transport.loop;
+    if (range && range.end > range.start) {
+      if (clock.time >= range.end) clock.time = range.start + (clock.time - range.start) % (range.end - range.start);
+      else if (clock.time < range.start) clock.time = range.start;
+    }
+  }
+
+  function tick(now) {
+    var elapsed = loop.last === null ? 0 : (now - loop.last) / 1000;
+    loop.last = now;
+    loopHandle = requestAnimationFrame(tick);
+
+    var steps = pendingSteps;
+    pendingSteps = 0;
+    var advancing = transport.playing || steps > 0;
+    if (transport.playing) {
+      advance(elapsed * transport.speed);
+    } else if (steps > 0) {
+      advance(steps * STEP_SECONDS);
+      clock.frame += steps - 1;
+    } else if (steps < 0) {
+      clock.time = Math.max(0, clock.time + steps * STEP_SECONDS);
+      clock.delta = 0;
+      clock.frame = Math.max(0, clock.frame + steps);
+    } else if (redraw) {
+      clock.delta = 0;
+    } else {
+      return;
+    }
+    redraw = false;
+
+    builtinCache.values = null;
+    holdBuffers = !advancing;
+    var renderStart = performance.now();
+    beginFrameStats(stats.enabled && sketchContext());
+    try {
+      loop.render(clock);
+    } catch (e) {
+      reportError(e);
+      cancelAnimationFrame(loopHandle);
+      loopHandle = null;
+      return;
+    } finally {
+      holdBuffers = false;
+      endFrameStats(performance.now() - renderStart);
+    }
+
+    post({ type: 'time', time: clock.time, frame: clock.frame });
+    if (advancing) clock.frame++;
+    pointer.clicked = false;
+    // The drawing buffer is only intact until this frame is composited
+    captureThumbnails();
+  }
+
+  // Performance stats for the editor's HUD, gathered only while it shows.
+  // Each frame is split into segments (one per buffer pass, the rest is
+  // the Image pass) with draw calls counted and, where the GPU supports
+  // timer queries, GPU time measured for each. Reports go out a few times
+  // a second.
+  var STATS_INTERVAL_MS = 250;
+  var stats = {
+    enabled: false,
+    timer: null,
+    // Segments of the frame being rendered: [{ label, query }]
+    frame: null,
+    label: 'Image',
+    // Rendered frames whose timer queries haven't resolved yet
+    pending: [],
+    report: null
+  };
+
+  function newReport(now) {
+    return { start: now, frames: 0, frameTimes: [], labels: [], draws: {}, gpu: {}, gpuFrames: 0 };
+  }
+
+  // GPU timer queries, over the WebGL 2 or WebGL 1 flavour of the extension
+  function createTimer(gl) {
+    var ext2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext &&
+      gl.getExtension('EXT_disjoint_timer_query_webgl2');
+    if (ext2) {
+      return {
+        gl: gl,
+        create: function() { return gl.createQuery(); },
+        begin: function(query) { gl.beginQuery(ext2.TIME_ELAPSED_EXT, query); },
+        end: function() { gl.endQuery(ext2.TIME_ELAPSED_EXT); },
+        available: function(query) { return gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE); },
+        result: function(query) { return gl.getQueryParameter(query, gl.QUERY_RESULT); },
+        remove: function(query) { gl.deleteQuery(query); },
+        disjoint: function() { return gl.getParameter(ext2.GPU_DISJOINT_EXT); }
+      };
+    }
+    var ext1 = gl.getExtension('EXT_disjoint_timer_query');
+    if (ext1) {
+      return {
+        gl: gl,
+        create: function() { return ext1.createQueryEXT(); },
+        begin: function(query) { ext1.beginQueryEXT(ext1.TIME_ELAPSED_EXT, query); },
+        end: function() { ext1.endQueryEXT(ext1.TIME_ELAPSED_EXT); },
+        available: function(query) { return ext1.getQueryObjectEXT(query, ext1.QUERY_RESULT_AVAILABLE_EXT); },
+        result: function(query) { return ext1.getQueryObjectEXT(query, ext1.QUERY_RESULT_EXT); },
+        remove: function(query) { ext1.deleteQueryEXT(query); },
+        disjoint: function() { return gl.getParameter(ext1.GPU_DISJOINT_EXT); }
+      };
+    }
+    return null;
+  }
+
+  // Starts a segment of the current frame; queries can't nest, so the
+  // previous segment's query ends here
+  function statsSegment(label) {
+    if (!stats.frame) return;
+    stats.label = label;
+    if (!stats.timer) return;
+    var segments = stats.frame;
+    if (segments.length) stats.timer.end();
+    var query = stats.timer.create();
+    stats.timer.begin(query);
+    segments.push({ label: label, query: query });
+  }
+
+  function countDraw() {
+    if (!stats.frame) return;
+    var report = stats.report;
+    if (!Object.prototype.hasOwnProperty.call(report.draws, stats.label)) {
+      report.draws[stats.label] = 0;
+      if (report.labels.indexOf(stats.label) === -1) report.labels.push(stats.label);
+    }
+    report.draws[stats.label]++;
+  }
+
+  // Every draw call goes through here while stats are on
+  [typeof WebGLRenderingContext !== 'undefined' && WebGLRenderingContext,
+    typeof WebGL2RenderingContext !== 'undefined' && WebGL2RenderingContext].forEach(function(type) {
+    if (!type) return;
+    ['drawArrays', 'drawElements', 'drawArraysInstanced', 'drawElementsInstanced', 'drawRangeElements'].forEach(function(name) {
+      var draw = type.prototype[name];
+      if (!draw) return;
+      type.prototype[name] = function() {
+        countDraw();
+        return draw.apply(this, arguments);
+      };
+    });
+  });
+
+  function dropPendingQueries() {
+    stats.pending.forEach(function(segments) {
+      segments.forEach(function(segment) { stats.timer.remove(segment.query); });
+    });
+    stats.pending = [];
+  }
+
+  // Adds up frames whose queries have resolved, oldest first
+  function collectQueries() {
+    var timer = stats.timer;
+    if (!timer || !stats.pending.length) return;
+    if (timer.disjoint()) {
+      // Timings since the last check are unreliable (e.g. the GPU clocked down)
+      dropPendingQueries();
+      return;
+    }
+    while (stats.pending.length) {
+      var segments = stats.pending[0];
+      var ready = segments.every(function(segment) { return timer.available(segment.query); });
+      if (!ready) break;
+      stats.pending.shift();
+      var report = stats.report;
+      segments.forEach(function(segment) {
+        report.gpu[segment.label] = (report.gpu[segment.label] || 0) + timer.result(segment.query) / 1e6;
+        if (report.labels.indexOf(segment.label) === -1) report.labels.push(segment.label);
+        timer.remove(segment.query);
+      });
+      report.gpuFrames++;
+    }
+  }
+
+  function beginFrameStats(gl) {
+    if (!stats.enabled || !gl) return;
+    if (!stats.timer || stats.timer.gl !== gl) {
+      stats.pending = [];
+      stats.timer = createTimer(gl);
+    }
+    if (!stats.report) stats.report = newReport(performance.now());
+    stats.frame = [];
+    statsSegment('Image');
+  }
+
+  function endFrameStats(cpuTime) {
+    if (!stats.frame) return;
+    if (stats.timer && stats.frame.length) {
+      stats.timer.end();
+      stats.pending.push(stats.frame);
+    }
+    stats.frame = null;
+    stats.label = 'Image';
+
+    var report = stats.report;
+    report.frames++;
+    report.frameTimes.push(cpuTime);
+    collectQueries();
+
+    var now = performance.now();
+    if (now - report.start < STATS_INTERVAL_MS) return;
+    var frames = report.frames;
+    // Buffer passes first, in order, then the Image pass
+    report.labels.sort();
+    post({
+      type: 'stats',
+      stats: {
+        fps: frames * 1000 / (now - report.start),
+        frameTimes: report.frameTimes,
+        gpuTimer: !!stats.timer,
+        gpuTime: report.gpuFrames ? report.labels.reduce(function(sum, label) { return sum + (report.gpu[label] || 0); }, 0) / report.gpuFrames : null,
+        passes: report.labels.map(function(label) {
+          return {
+            label: label,
+            drawCalls: (report.draws[label] || 0) / frames,
+            gpuTime: report.gpuFrames ? (report.gpu[label] || 0) / report.gpuFrames : null
+          };
+        }),
+        drawCalls: report.labels.reduce(function(sum, label) { return sum + (report.draws[label] || 0); }, 0) / frames,
+        width: canvas.width,
+        height: canvas.height,
+        pixelRatio: canvas.clientWidth ? canvas.width / canvas.clientWidth : 1,
+        devicePixelRatio: window.devicePixelRatio || 1
+      }
+    });
+    stats.report = newReport(now);
+  }
+
+  function setStatsEnabled(enabled) {
+    stats.enabled = enabled;
+    stats.report = null;
+    if (!enabled && stats.timer) dropPendingQueries();
+  }
+
+  // The canvas fills the page, so its CSS size is the window's
+  function resolution() {
+    var cssWidth = window.innerWidth;
+    var cssHeight = window.innerHeight;
+    if (display.size) {
+      return { width: display.size.width, height: display.size.height, pixelRatio: cssWidth ? display.size.width / cssWidth : 1 };
+    }
+    var ratio = display.scale * (display.devicePixelRatio ? window.devicePixelRatio || 1 : 1);
+    return {
+      width: Math.max(1, Math.round(cssWidth * ratio)),
+      height: Math.max(1, Math.round(cssHeight * ratio)),
+      pixelRatio: ratio
+    };
+  }
+
+  function setDisplay(settings) {
+    display = settings;
+    window.dispatchEvent(new Event('resize'));
+  }
+
+  // Transport changes from the editor
+  function setTransport(state) {
+    transport = state;
+    redraw = true;
+  }
+
+  function seek(time) {
+    clock.time = Math.max(0, time);
+    clock.delta = 0;
+    redraw = true;
+  }
+
+  function step(frames) {
+    pendingSteps += frames;
+  }
+
+  function pauseLoop() {
+    if (loopHandle === null) return false;
+    cancelAnimationFrame(loopHandle);
+    loopHandle = null;
+    return true;
+  }
+
+  function resumeLoop() {
+    if (!loop || loopHandle !== null || stopped) return;
+    // Carry on from the time it paused at
+    loop.last = null;
+    redraw = true;
+    loopHandle = requestAnimationFrame(tick);
+  }
+
+  // Links ES module sources (keyed by path) into blob URLs, pointing each
+  // relative import at its dependency's URL. Returns the URL of `entry`.
+  function linkModules(sources, entry) {
+    var urls = {};
+
+    function resolvePath(from, specifier) {
+      var parts = from.split('/').slice(0, -1);
+      specifier.split('/').forEach(function(part) {
+        if (part === '..') parts.pop();
+        else if (part !== '.') parts.push(part);
+      });
+      return parts.join('/');
+    }
+
+    function link(path, importers) {
+      if (urls[path]) return urls[path];
+      if (!Object.prototype.hasOwnProperty.call(sources, path)) throw new Error('Module not found: ' + path);
+      if (importers.indexOf(path) !== -1) throw new Error('Circular import: ' + importers.concat(path).join(' -> '));
+
+      var code = sources[path].replace(/(\bfrom\s*|\bimport\s*)(['"])(\.{1,2}\/[^'"]+)\2/g, function(match, keyword, quote, specifier) {
+        return keyword + quote + link(resolvePath(path, specifier), importers.concat(path)) + quote;
+      });
+      urls[path] = URL.createObjectURL(new Blob([code], { type: 'text/javascript' }));
+      return urls[path];
+    }
+
+    return link(entry, []);
+  }
+
+  function runSketch(code) {
+    var script = document.createElement('script');
+    script.textContent = code + '\n//# sourceURL=' + SKETCH_URL;
+    document.body.appendChild(script);
+    post({ type: 'started' });
+  }
+
+  function start(sketch) {
+    if (started) return;
+    started = true;
+
+    setShaders(sketch.shaders);
+    setAssets(sketch.assets);
+    window.runtime.uniforms = sketch.uniforms;
+    window.runtime.geometry = sketch.geometry;
+
+    if (!sketch.ogl) {
+      runSketch(sketch.code);
+      return;
+    }
+
+    // Sketches that use OGL get it as a global, like a <script> include
+    var entry;
+    try {
+      entry = linkModules(sketch.ogl, 'index.js');
+    } catch (e) {
+      reportError(e);
+      return;
+    }
+    import(entry).then(function(OGL) {
+      window.OGL = OGL;
+      if (!stopped) runSketch(sketch.code);
+    }, function(e) {
+      reportError(e);
+    });
+  }
+
+  function setShaders(shaders) {
+    window.runtime.shaders = shaders;
+    passes.buffers = shaders.buffers || [];
+    passes.channels = shaders.channels || [];
+    // Templates reference these as `${vertexShader}` / `${fragmentShader}`
+    window.vertexShader = shaders.vertex;
+    window.fragmentShader = shaders.fragment;
+  }
+
+  function updateShaders(shaders) {
+    if (!started) return;
+    if (!shaderListeners.length) {
+      if (!reportedUnsupported) post({ type: 'shaderUpdate', status: 'unsupported' });
+      reportedUnsupported = true;
+      return;
+    }
+
+    var accepted = shaderListeners.every(function(callback) {
+      try {
+        return callback(shaders) !== false;
+      } catch (e) {
+        reportError(e);
+        return false;
+      }
+    });
+    if (accepted) {
+      setShaders(shaders);
+      redraw = true;
+    }
+    post({ type: 'shaderUpdate', status: accepted ? 'applied' : 'rejected' });
+  }
+
+  function captureThumbnail(request) {
+    var url = null;
+    try {
+      var thumbnail = document.createElement('canvas');
+      thumbnail.width = request.width;
+      thumbnail.height = request.height;
+      // Scale to cover the thumbnail, cropping the longer side
+      var scale = Math.max(request.width / canvas.width, request.height / canvas.height);
+      var width = canvas.width * scale;
+      var height = canvas.height * scale;
+      thumbnail.getContext('2d').drawImage(canvas, (request.width - width) / 2, (request.height - height) / 2, width, height);
+      url = thumbnail.toDataURL('image/jpeg', 0.8);
+    } catch (e) {
+      // An empty or unreadable canvas just has no thumbnail
+    }
+    post({ type: 'thumbnail', requestId: request.requestId, url: url });
+  }
+
+  function captureThumbnails() {
+    thumbnailRequests.splice(0).forEach(captureThumbnail);
+  }
+
+  function requestThumbnail(request) {
+    thumbnailRequests.push(request);
+    // Sketches without runtime.loop are captured on the next frame instead;
+    // during a recording, the loop takes them once it resumes
+    if (loopHandle === null && !recording) requestAnimationFrame(captureThumbnails);
+    redraw = true;
+  }
+
+  // Largest tile rendered at once; bigger stills are stitched from tiles
+  var CAPTURE_TILE_SIZE = 2048;
+  // Bound by the 2D canvas the tiles are stitched on
+  var CAPTURE_MAX_SIZE = 16384;
+
+  function sketchContext() {
+    // The sketch's own context; a sketch running a loop has made one
+    return canvas.getContext('webgl2') || canvas.getContext('webgl');
+  }
+
+  // Renders a still at request.width x request.height with the clock frozen
+  // at request.time, calling the loop's render once per tile
+  function captureStill(request) {
+    var width = request.width;
+    var height = request.height;
+    var gl = loop && sketchContext();
+    if (!gl) throw new Error('Only sketches that draw with runtime.loop can be captured');
+
+    var viewportLimit = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+    var maxSize = Math.min(viewportLimit[0], viewportLimit[1], CAPTURE_MAX_SIZE);
+    if (width > maxSize || height > maxSize) {
+      throw new Error('Captures can be at most ' + maxSize + ' pixels wide and high on this device');
+    }
+    var tileSize = Math.min(CAPTURE_TILE_SIZE, gl.getParameter(gl.MAX_RENDERBUFFER_SIZE));
+
+    var output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    var context = output.getContext('2d');
+    if (!context) throw new Error('Could not allocate a ' + width + 'x' + height + ' image');
+
+    var saved = { width: canvas.width, height: canvas.height, time: clock.time, delta: clock.delta };
+    clock.time = request.time;
+    clock.delta = 0;
+    try {
+      // The 2D canvas is top-down; tiles are placed from the top left
+      for (var top = 0; top < height; top += tileSize) {
+        for (var left = 0; left < width; left += tileSize) {
+          var tileWidth = Math.min(tileSize, width - left);
+          var tileHeight = Math.min(tileSize, height - top);
+          canvas.width = tileWidth;
+          canvas.height = tileHeight;
+          window.runtime.capture = {
+            width: width,
+            height: height,
+            x: left,
+            y: height - top - tileHeight,
+            tileWidth: tileWidth,
+            tileHeight: tileHeight,
+            sourceWidth: saved.width || width,
+            still: true
+          };
+          builtinCache.values = null;
+          loop.render(clock);
+          if (gl.drawingBufferWidth !== tileWidth || gl.drawingBufferHeight !== tileHeight) {
+            throw new Error('The GPU could not render a ' + tileWidth + 'x' + tileHeight + ' tile');
+          }
+          // Same task as the draw, so the drawing buffer is still intact
+          context.drawImage(canvas, left, top);
+        }
+      }
+    } finally {
+      window.runtime.capture = null;
+      builtinCache.values = null;
+      clock.time = saved.time;
+      clock.delta = saved.delta;
+      canvas.width = saved.width;
+      canvas.height = saved.height;
+      // Sketches size themselves on resize, which restores their own state
+      window.dispatchEvent(new Event('resize'));
+    }
+    return output;
+  }
+
+  function capture(request) {
+    var output;
+    try {
+      output = captureStill(request);
+    } catch (e) {
+      post({ type: 'capture', requestId: request.requestId, image: null, error: String(e && e.message || e) });
+      return;
+    }
+    output.toBlob(function(image) {
+      post({
+        type: 'capture',
+        requestId: request.requestId,
+        image: image,
+        error: image ? undefined : 'Could not encode the PNG'
+      });
+    }, 'image/png');
+  }
+
+  // Offline recordings: the editor steps the clock itself, one frame per
+  // request, while the animation loop is paused
+  var recording = null;
+  var recordingCanvas = null;
+
+  function beginRecording(request) {
+    if (recording) return;
+    recording = {
+      width: canvas.width,
+      height: canvas.height,
+      clock: { time: clock.time, delta: clock.delta, frame: clock.frame },
+      resume: pauseLoop()
+    };
+    canvas.width = request.width;
+    canvas.height = request.height;
+    window.runtime.capture = {
+      width: request.width,
+      height: request.height,
+      x: 0,
+      y: 0,
+      tileWidth: request.width,
+      tileHeight: request.height,
+      sourceWidth: recording.width || request.width,
+      still: false
+    };
+    // Buffers start empty, so the same settings give the same recording
+    clearPassTargets();
+    recordingCanvas = document.createElement('canvas');
+    recordingCanvas.width = request.width;
+    recordingCanvas.height = request.height;
+  }
+
+  function renderRecordingFrame(request) {
+    var gl = loop && sketchContext();
+    if (!recording || !gl) throw new Error('Only sketches that draw with runtime.loop can be recorded');
+
+    clock.time = request.time;
+    clock.delta = request.delta;
+    clock.frame = request.frame;
+    builtinCache.values = null;
+    loop.render(clock);
+    if (gl.drawingBufferWidth !== canvas.width || gl.drawingBufferHeight !== canvas.height) {
+      throw new Error('The GPU could not render a ' + canvas.width + 'x' + canvas.height + ' frame');
+    }
+    // Copied in the same task as the draw, while the drawing buffer is intact
+    var context = recordingCanvas.getContext('2d');
+    context.clearRect(0, 0, recordingCanvas.width, recordingCanvas.height);
+    context.drawImage(canvas, 0, 0);
+    return createImageBitmap(recordingCanvas);
+  }
+
+  function recordFrame(request) {
+    var image;
+    try {
+      image = renderRecordingFrame(request);
+    } catch (e) {
+      image = Promise.reject(e);
+    }
+    image.then(function(bitmap) {
+      post({ type: 'recordFrame', requestId: request.requestId, image: bitmap }, [bitmap]);
+    }, function(e) {
+      post({ type: 'recordFrame', requestId: request.requestId, image: null, error: String(e && e.message || e) });
+    });
+  }
+
+  function endRecording() {
+    if (!recording) return;
+    var saved = recording;
+    recording = null;
+    recordingCanvas = null;
+    window.runtime.capture = null;
+    builtinCache.values = null;
+    clock.time = saved.clock.time;
+    clock.delta = saved.clock.delta;
+    clock.frame = saved.clock.frame;
+    canvas.width = saved.width;
+    canvas.height = saved.height;
+    clearPassTargets();
+    window.dispatchEvent(new Event('resize'));
+    if (saved.resume) resumeLoop();
+  }
+
+  function setGeometry(geometry) {
+    window.runtime.geometry = geometry;
+    redraw = true;
+    if (!started) return;
+    geometryListeners.forEach(function(callback) {
+      try {
+        callback(geometry);
+      } catch (e) {
+        reportError(e);
+      }
+    });
+  }
+
+  function stop() {
+    stopped = true;
+    if (loopHandle !== null) {
+      cancelAnimationFrame(loopHandle);
+      loopHandle = null;
+    }
+    if (typeof window.cleanupShader === 'function') {
+      cleanups.push(window.cleanupShader);
+    }
+    cleanups.splice(0).forEach(function(callback) {
+      try {
+        callback();
+      } catch (e) {
+        reportError(e);
+      }
+    });
+    Object.keys(assets.entries).forEach(disposeAsset);
+    post({ type: 'stopped' });
+  }
+
+  window.addEventListener('message', function(event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.channel !== CHANNEL) return;
+
+    switch (data.type) {
+      case 'start':
+        start(data.sketch);
+        break;
+      case 'shaders':
+        updateShaders(data.shaders);
+        break;
+      case 'uniforms':
+        window.runtime.uniforms = data.values;
+        redraw = true;
+        break;
+      case 'assets':
+        updateAssets(data.ids, data.changed);
+        break;
+      case 'assetFrame':
+        receiveAssetFrame(data.id, data.frame);
+        break;
+      case 'geometry':
+        setGeometry(data.geometry);
+        break;
+      case 'thumbnail':
+        requestThumbnail(data);
+        break;
+      case 'capture':
+        capture(data);
+        break;
+      case 'recordStart':
+        beginRecording(data);
+        break;
+      case 'recordFrame':
+        recordFrame(data);
+        break;
+      case 'recordEnd':
+        endRecording();
+        break;
+      case 'transport':
+        setTransport(data.transport);
+        break;
+      case 'stats':
+        setStatsEnabled(data.enabled);
+        break;
+      case 'display':
+        setDisplay(data.display);
+        break;
+      case 'seek':
+        seek(data.time);
+        break;
+      case 'step':
+        step(data.frames);
+        break;
+      case 'stop':
+        stop();
+        break;
+    }
+  });
+
+  post({ type: 'ready' });
+})();
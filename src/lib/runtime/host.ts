@@ -0,0 +1,354 @@
+import frameSource from "./frame.js?raw"
+import { RUNTIME_CHANNEL, isFrameMessage, type Asset, type CaptureOptions, type DisplaySettings, type FrameMessage, type GeometrySource, type HostMessage, type RecordingFrame, type RecordingOptions, type ShaderSources, type TransportState, type Sketch, type UniformValues } from "./protocol"
+
+export interface PreviewRuntime {
+  /**
+   * Starts a sketch in a fresh frame. Calling it while a sketch is running
+   * stops that one first, which is how the preview reloads.
+   */
+  start(sketch: Sketch): void
+  /** Hands edited shaders to the running sketch without restarting it. */
+  updateShaders(shaders: ShaderSources): void
+  /** Pushes uniform values into the running sketch. */
+  setUniforms(values: UniformValues): void
+  /** Replaces the sketch's texture inputs. */
+  setAssets(assets: Asset[]): void
+  /** Swaps the geometry the sketch draws on. */
+  setGeometry(geometry: GeometrySource): void
+  /**
+   * Resolves to a JPEG data URL of the canvas scaled to cover
+   * `width` x `height`, or null when no sketch is drawing.
+   */
+  captureThumbnail(width: number, height: number): Promise<string | null>
+  /** Renders a PNG still of the running sketch; rejects with the frame's reason if it can't. */
+  captureStill(options: CaptureOptions): Promise<Blob>
+  /**
+   * Pauses the sketch's animation loop and resizes its canvas for an
+   * offline recording; frames are then rendered one at a time.
+   */
+  beginRecording(options: RecordingOptions): void
+  /** Renders one recording frame at the given clock values; the bitmap is the caller's to close. */
+  recordFrame(frame: RecordingFrame): Promise<ImageBitmap>
+  /** Restores the canvas and resumes the animation loop. */
+  endRecording(): void
+  /** Sets playback (play/pause, speed, loop range); kept for sketches started later. */
+  setTransport(transport: TransportState): void
+  /** Moves the sketch's clock to `time` seconds. */
+  seek(time: number): void
+  /** Steps the clock by whole frames; negative steps go back. */
+  step(frames: number): void
+  /** Sets how the sketch sizes its canvas (render scale, pixel ratio, fixed size). */
+  setDisplay(display: DisplaySettings): void
+  /** Turns the frame's performance stats (FPS, GPU time, draw calls) on or off. */
+  setStatsEnabled(enabled: boolean): void
+  /** Hands a streamed (webcam) frame to the sketch; the bitmap is transferred. */
+  sendAssetFrame(id: string, frame: ImageBitmap): void
+  /** Lets the sketch clean up, then removes its frame. */
+  stop(): void
+  /** Stops everything and detaches the runtime from the window. */
+  dispose(): void
+}
+
+// How long a stopping frame gets to run its cleanup before it is removed anyway
+const STOP_TIMEOUT_MS = 250
+
+// A sketch that stopped drawing never answers a thumbnail request
+const THUMBNAIL_TIMEOUT_MS = 1000
+
+// Large tiled stills take a while to render and encode
+const CAPTURE_TIMEOUT_MS = 60_000
+
+// A single recording frame; generous for heavy shaders at large sizes
+const RECORD_FRAME_TIMEOUT_MS = 10_000
+
+const frameStyles = `
+html, body { margin: 0; width: 100%; height: 100%; overflow: hidden; background: #000; }
+canvas { display: block; width: 100%; height: 100%; }
+`
+
+// Scripts are inlined, so a literal "</script" inside one would end the tag early
+function inlineScript(source: string) {
+  return `<script>${source.replace(/<\/script/gi, "<\\/script")}</script>`
+}
+
+/**
+ * The preview page: a canvas and the runtime bootstrap, followed by
+ * `scripts` (used by standalone exports to start the sketch themselves).
+ */
+export function frameDocument(title = "", scripts: string[] = []) {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title.replace(/[<&]/g, (char) => (char === "<" ? "&lt;" : "&amp;"))}</title>
+<style>${frameStyles}</style>
+</head>
+<body>
+<canvas id="glCanvas"></canvas>
+${[frameSource, ...scripts].map(inlineScript).join("\n")}
+</body>
+</html>`
+}
+
+/**
+ * Runs sketches inside a sandboxed iframe mounted in `container`. The frame
+ * has an opaque origin (`allow-scripts` only), so user code cannot reach the
+ * editor's globals or DOM; everything goes through the message protocol.
+ */
+export function createPreviewRuntime(container: HTMLElement, onMessage: (message: FrameMessage) => void): PreviewRuntime {
+  // The frame talks to the window it is mounted in, which is a pop-out
+  // window's rather than the editor's when the preview is popped out
+  const host = container.ownerDocument.defaultView ?? window
+  let frame: HTMLIFrameElement | null = null
+  let pendingStart: Extract<HostMessage, { type: "start" }> | null = null
+  const stopping = new Map<Window, { frame: HTMLIFrameElement; timeout: ReturnType<typeof setTimeout> }>()
+  const thumbnails = new Map<number, (url: string | null) => void>()
+  const captures = new Map<number, (image: Blob | null, error?: string) => void>()
+  const recordedFrames = new Map<number, (image: ImageBitmap | null, error?: string) => void>()
+  let nextRequestId = 1
+  let transport: TransportState = { playing: true, speed: 1, loop: null }
+  let statsEnabled = false
+  let display: DisplaySettings = { scale: 1, devicePixelRatio: true, size: null }
+  // The assets the frame has, so only new and changed ones are posted again
+  let sentAssets = new Map<string, Asset>()
+
+  function post(target: HTMLIFrameElement, message: HostMessage, transfer: Transferable[] = []) {
+    // The sandboxed frame's origin is "null", so "*" is the only usable target origin
+    target.contentWindow?.postMessage({ ...message, channel: RUNTIME_CHANNEL }, "*", transfer)
+  }
+
+  function removeStopped(source: Window) {
+    const entry = stopping.get(source)
+    if (!entry) return
+    clearTimeout(entry.timeout)
+    entry.frame.remove()
+    stopping.delete(source)
+  }
+
+  function handleMessage(event: MessageEvent) {
+    if (!isFrameMessage(event.data) || !event.source) return
+    const source = event.source as Window
+
+    if (stopping.has(source)) {
+      if (event.data.type === "stopped") removeStopped(source)
+      else onMessage(event.data)
+      return
+    }
+
+    if (!frame || source !== frame.contentWindow) return
+
+    if (event.data.type === "thumbnail") {
+      thumbnails.get(event.data.requestId)?.(event.data.url)
+      return
+    }
+    if (event.data.type === "capture") {
+      captures.get(event.data.requestId)?.(event.data.image, event.data.error)
+      return
+    }
+    if (event.data.type === "recordFrame") {
+      const finish = recordedFrames.get(event.data.requestId)
+      if (finish) finish(event.data.image, event.data.error)
+      else event.data.image?.close()
+      return
+    }
+
+    if (event.data.type === "ready" && pendingStart) {
+      sentAssets = new Map(pendingStart.sketch.assets.map((asset) => [asset.id, asset]))
+      post(frame, { type: "display", display })
+      post(frame, pendingStart)
+      post(frame, { type: "transport", transport })
+      if (statsEnabled) post(frame, { type: "stats", enabled: true })
+      pendingStart = null
+    }
+    onMessage(event.data)
+  }
+
+  function stop() {
+    pendingStart = null
+    // Requests to the stopping frame won't be answered here
+    thumbnails.forEach((finish) => finish(null))
+    captures.forEach((finish) => finish(null, "The sketch was stopped"))
+    recordedFrames.forEach((finish) => finish(null, "The sketch was stopped"))
+    if (!frame) return
+
+    const current = frame
+    frame = null
+    const source = current.contentWindow
+    if (!source) {
+      current.remove()
+      return
+    }
+
+    current.style.visibility = "hidden"
+    stopping.set(source, { frame: current, timeout: setTimeout(() => removeStopped(source), STOP_TIMEOUT_MS) })
+    post(current, { type: "stop" })
+  }
+
+  function start(sketch: Sketch) {
+    stop()
+
+    frame = container.ownerDocument.createElement("iframe")
+    frame.setAttribute("sandbox", "allow-scripts")
+    frame.title = "Shader preview"
+    // Inline styles, since a pop-out window doesn't have the editor's stylesheet
+    frame.style.cssText = "position: absolute; inset: 0; width: 100%; height: 100%; border: 0"
+    frame.srcdoc = frameDocument()
+    pendingStart = { type: "start", sketch }
+    container.appendChild(frame)
+  }
+
+  function updateShaders(shaders: ShaderSources) {
+    if (pendingStart) {
+      // Not started yet: start with the new shaders instead
+      pendingStart = { ...pendingStart, sketch: { ...pendingStart.sketch, shaders } }
+    } else if (frame) {
+      post(frame, { type: "shaders", shaders })
+    }
+  }
+
+  function setUniforms(values: UniformValues) {
+    if (pendingStart) {
+      pendingStart = { ...pendingStart, sketch: { ...pendingStart.sketch, uniforms: values } }
+    } else if (frame) {
+      post(frame, { type: "uniforms", values })
+    }
+  }
+
+  function setAssets(assets: Asset[]) {
+    if (pendingStart) {
+      pendingStart = { ...pendingStart, sketch: { ...pendingStart.sketch, assets } }
+    } else if (frame) {
+      const changed = assets.filter((asset) => sentAssets.get(asset.id) !== asset)
+      sentAssets = new Map(assets.map((asset) => [asset.id, asset]))
+      post(frame, { type: "assets", ids: assets.map((asset) => asset.id), changed })
+    }
+  }
+
+  function setGeometry(geometry: GeometrySource) {
+    if (pendingStart) {
+      pendingStart = { ...pendingStart, sketch: { ...pendingStart.sketch, geometry } }
+    } else if (frame) {
+      post(frame, { type: "geometry", geometry })
+    }
+  }
+
+  function captureThumbnail(width: number, height: number) {
+    if (!frame || pendingStart) return Promise.resolve(null)
+
+    const requestId = nextRequestId++
+    post(frame, { type: "thumbnail", requestId, width, height })
+    return new Promise<string | null>((resolve) => {
+      const timeout = setTimeout(() => finish(null), THUMBNAIL_TIMEOUT_MS)
+      function finish(url: string | null) {
+        clearTimeout(timeout)
+        thumbnails.delete(requestId)
+        resolve(url)
+      }
+      thumbnails.set(requestId, finish)
+    })
+  }
+
+  function captureStill(options: CaptureOptions) {
+    if (!frame || pendingStart) return Promise.reject(new Error("Run the sketch to capture it"))
+
+    const requestId = nextRequestId++
+    post(frame, { type: "capture", requestId, ...options })
+    return new Promise<Blob>((resolve, reject) => {
+      const timeout = setTimeout(() => finish(null, "The sketch did not respond"), CAPTURE_TIMEOUT_MS)
+      function finish(image: Blob | null, error?: string) {
+        clearTimeout(timeout)
+        captures.delete(requestId)
+        if (image) resolve(image)
+        else reject(new Error(error ?? "The capture failed"))
+      }
+      captures.set(requestId, finish)
+    })
+  }
+
+  function setTransport(state: TransportState) {
+    transport = state
+    if (frame && !pendingStart) post(frame, { type: "transport", transport })
+  }
+
+  function seek(time: number) {
+    if (frame && !pendingStart) post(frame, { type: "seek", time })
+  }
+
+  function step(frames: number) {
+    if (frame && !pendingStart) post(frame, { type: "step", frames })
+  }
+
+  function setDisplay(settings: DisplaySettings) {
+    display = settings
+    if (frame && !pendingStart) post(frame, { type: "display", display })
+  }
+
+  function setStatsEnabled(enabled: boolean) {
+    statsEnabled = enabled
+    if (frame && !pendingStart) post(frame, { type: "stats", enabled })
+  }
+
+  function beginRecording(options: RecordingOptions) {
+    if (frame && !pendingStart) post(frame, { type: "recordStart", ...options })
+  }
+
+  function recordFrame(clock: RecordingFrame) {
+    if (!frame || pendingStart) return Promise.reject(new Error("Run the sketch to record it"))
+
+    const requestId = nextRequestId++
+    post(frame, { type: "recordFrame", requestId, ...clock })
+    return new Promise<ImageBitmap>((resolve, reject) => {
+      const timeout = setTimeout(() => finish(null, "The sketch did not respond"), RECORD_FRAME_TIMEOUT_MS)
+      function finish(image: ImageBitmap | null, error?: string) {
+        clearTimeout(timeout)
+        recordedFrames.delete(requestId)
+        if (image) resolve(image)
+        else reject(new Error(error ?? "The frame could not be rendered"))
+      }
+      recordedFrames.set(requestId, finish)
+    })
+  }
+
+  function endRecording() {
+    if (frame && !pendingStart) post(frame, { type: "recordEnd" })
+  }
+
+  function sendAssetFrame(id: string, assetFrame: ImageBitmap) {
+    // Frames are only useful live; drop them until the sketch is running
+    if (frame && !pendingStart) post(frame, { type: "assetFrame", id, frame: assetFrame }, [assetFrame])
+    else assetFrame.close()
+  }
+
+  function dispose() {
+    stop()
+    thumbnails.forEach((finish) => finish(null))
+    captures.forEach((finish) => finish(null, "The preview was closed"))
+    recordedFrames.forEach((finish) => finish(null, "The preview was closed"))
+    stopping.forEach((_, source) => removeStopped(source))
+    host.removeEventListener("message", handleMessage)
+  }
+
+  host.addEventListener("message", handleMessage)
+
+  return {
+    start,
+    updateShaders,
+    setUniforms,
+    setAssets,
+    setGeometry,
+    captureThumbnail,
+    captureStill,
+    beginRecording,
+    recordFrame,
+    endRecording,
+    setTransport,
+    seek,
+    step,
+    setDisplay,
+    setStatsEnabled,
+    sendAssetFrame,
+    stop,
+    dispose,
+  }
+}
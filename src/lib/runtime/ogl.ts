@@ -0,0 +1,25 @@
+import type { ModuleSources } from "./protocol"
+
+// OGL ships as unbundled ES modules. The frame cannot fetch them (its
+// origin is opaque), so their sources are sent along and linked there.
+const moduleLoaders = import.meta.glob<string>("/node_modules/ogl/src/**/*.js", { query: "?raw", import: "default" })
+
+const ROOT = "/node_modules/ogl/src/"
+
+let loading: Promise<ModuleSources> | null = null
+
+/** Sources of every OGL module, keyed by path below `src/` ("core/Mesh.js"). */
+export function loadOGLSources(): Promise<ModuleSources> {
+  loading ??= Promise.all(
+    Object.entries(moduleLoaders).map(async ([path, load]) => [path.slice(ROOT.length), await load()] as const)
+  ).then(Object.fromEntries, (error) => {
+    loading = null
+    throw error
+  })
+  return loading
+}
+
+/** Whether a sketch uses the `OGL` global, and so needs the library loaded first. */
+export function usesOGL(code: string) {
+  return /\bOGL\b/.test(code)
+}
@@ -0,0 +1,213 @@
+/**
+ * Message protocol between the editor (host) and the sandboxed preview
+ * frame. Every message carries `channel` so both sides can ignore unrelated
+ * `postMessage` traffic; the host additionally checks `event.source`.
+ */
+export const RUNTIME_CHANNEL = "ogl-editor-runtime"
+
+/** Script URL the sketch is evaluated under, as it appears in stack traces. */
+export const SKETCH_URL = "sketch.js"
+
+export type BufferId = "A" | "B" | "C" | "D"
+
+/** What a pass samples through one of its `iChannel0`-`iChannel3` inputs. */
+export type ChannelInput =
+  | { type: "none" }
+  | { type: "buffer"; buffer: BufferId }
+  | { type: "asset"; asset: string }
+
+/** An offscreen pass; its output is sampled by passes that list it as a channel. */
+export interface BufferSource {
+  id: BufferId
+  fragment: string
+  channels: ChannelInput[]
+}
+
+export interface ShaderSources {
+  vertex: string
+  /** Fragment shader of the Image pass, which draws to the canvas. */
+  fragment: string
+  /** Channel inputs of the Image pass. */
+  channels: ChannelInput[]
+  /** Buffer passes, rendered in order before the Image pass. */
+  buffers: BufferSource[]
+}
+
+export type AssetKind = "image" | "video" | "webcam" | "cubemap"
+
+export interface TextureSettings {
+  wrap: "repeat" | "clamp" | "mirror"
+  filter: "linear" | "nearest"
+  mipmap: boolean
+  flipY: boolean
+}
+
+/** A texture input, bound to the sampler uniform named `uniform`. */
+export interface Asset {
+  id: string
+  name: string
+  kind: AssetKind
+  uniform: string
+  settings: TextureSettings
+  /**
+   * Data URLs of the file, or of the six cube faces in +X, -X, +Y, -Y, +Z, -Z
+   * order. Empty for the webcam, whose frames are streamed in by the host.
+   */
+  urls: string[]
+}
+
+export type PrimitiveType = "plane" | "cube" | "sphere" | "torus"
+
+/** Vertex data of an imported model, centered and scaled to fit a unit sphere. */
+export interface MeshAttributes {
+  position: number[]
+  normal: number[]
+  uv: number[]
+  index: number[]
+}
+
+/** What the preview draws the shaders on: a built-in primitive or an imported model. */
+export type GeometrySource =
+  | { type: PrimitiveType }
+  | { type: "model"; name: string; attributes: MeshAttributes }
+
+export type UniformValue = number | boolean | number[]
+
+export type UniformValues = Record<string, UniformValue>
+
+/** ES module sources keyed by path relative to the package root, e.g. "core/Mesh.js". */
+export type ModuleSources = Record<string, string>
+
+/** Everything a frame needs to start a sketch. */
+export interface Sketch {
+  code: string
+  shaders: ShaderSources
+  uniforms: UniformValues
+  assets: Asset[]
+  geometry: GeometrySource
+  /** OGL's modules, when the sketch uses it; linked and exposed as `window.OGL` before the code runs. */
+  ogl?: ModuleSources
+}
+
+export interface RuntimeError {
+  message: string
+  stack?: string
+  /** Location inside the sketch, when the error can be traced back to it. */
+  line?: number
+  column?: number
+}
+
+export type ConsoleLevel = "log" | "warn" | "error"
+
+/**
+ * Outcome of a live shader update: swapped in, rejected by the sketch (the
+ * last good program keeps running), or the sketch has no update handler.
+ */
+export type ShaderUpdateStatus = "applied" | "rejected" | "unsupported"
+
+/** A still rendered at its own resolution, tiled when larger than the GPU draws at once. */
+export interface CaptureOptions {
+  width: number
+  height: number
+  /** Value of `time` (and iTime) the frame is rendered at. */
+  time: number
+}
+
+/** Size of an offline recording's frames; the canvas is resized for it. */
+export interface RecordingOptions {
+  width: number
+  height: number
+}
+
+/** One step of an offline recording: the clock values the frame renders with. */
+export interface RecordingFrame {
+  frame: number
+  time: number
+  delta: number
+}
+
+/**
+ * Playback state the editor's transport bar hands the sketch's clock: time
+ * advances at `speed` while playing, wrapping around `loop` when set.
+ */
+export interface TransportState {
+  playing: boolean
+  speed: number
+  loop: { start: number; end: number } | null
+}
+
+/** Per-pass figures in `FrameStats`: buffer passes by name, then "Image". */
+export interface PassStats {
+  label: string
+  /** Average per frame. */
+  drawCalls: number
+  /** Average GPU milliseconds per frame, or null without timer queries. */
+  gpuTime: number | null
+}
+
+/** Performance figures the frame reports a few times a second while the HUD shows. */
+export interface FrameStats {
+  fps: number
+  /** CPU milliseconds spent in the sketch's render of each frame since the last report. */
+  frameTimes: number[]
+  /** Whether the GPU supports EXT_disjoint_timer_query. */
+  gpuTimer: boolean
+  gpuTime: number | null
+  drawCalls: number
+  passes: PassStats[]
+  /** Canvas size in pixels. */
+  width: number
+  height: number
+  /** Canvas pixels per CSS pixel. */
+  pixelRatio: number
+  devicePixelRatio: number
+}
+
+/**
+ * How the preview sizes its canvas: CSS size times `scale` (and the device
+ * pixel ratio, if followed), or exactly `size` pixels when set.
+ */
+export interface DisplaySettings {
+  scale: number
+  devicePixelRatio: boolean
+  size: { width: number; height: number } | null
+}
+
+/** Messages the host sends to the frame. */
+export type HostMessage =
+  | { type: "start"; sketch: Sketch }
+  | { type: "shaders"; shaders: ShaderSources }
+  | { type: "uniforms"; values: UniformValues }
+  // The sketch's assets in order; unchanged ones are only named, since their data URLs can be large
+  | { type: "assets"; ids: string[]; changed: Asset[] }
+  | { type: "assetFrame"; id: string; frame: ImageBitmap }
+  | { type: "geometry"; geometry: GeometrySource }
+  | { type: "thumbnail"; requestId: number; width: number; height: number }
+  | ({ type: "capture"; requestId: number } & CaptureOptions)
+  | ({ type: "recordStart" } & RecordingOptions)
+  | ({ type: "recordFrame"; requestId: number } & RecordingFrame)
+  | { type: "recordEnd" }
+  | { type: "transport"; transport: TransportState }
+  | { type: "seek"; time: number }
+  | { type: "step"; frames: number }
+  | { type: "stats"; enabled: boolean }
+  | { type: "display"; display: DisplaySettings }
+  | { type: "stop" }
+
+/** Messages the frame sends back to the host. */
+export type FrameMessage =
+  | { type: "ready" }
+  | { type: "started" }
+  | { type: "stopped" }
+  | { type: "error"; error: RuntimeError; rejection?: boolean }
+  | { type: "console"; level: ConsoleLevel; text: string; line?: number; column?: number }
+  | { type: "shaderUpdate"; status: ShaderUpdateStatus }
+  | { type: "thumbnail"; requestId: number; url: string | null }
+  | { type: "capture"; requestId: number; image: Blob | null; error?: string }
+  | { type: "recordFrame"; requestId: number; image: ImageBitmap | null; error?: string }
+  | { type: "time"; time: number; frame: number }
+  | { type: "stats"; stats: FrameStats }
+
+export function isFrameMessage(data: unknown): data is FrameMessage {
+  return typeof data === "object" && data !== null && (data as { channel?: unknown }).channel === RUNTIME_CHANNEL
+}
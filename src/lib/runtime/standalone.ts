@@ -0,0 +1,65 @@
+import { frameDocument } from "./host"
+import { RUNTIME_CHANNEL, type Sketch } from "./protocol"
+
+// Plays the host's part inside the page itself: starts the sketch, and
+// streams the webcam (which the sandboxed preview gets from the editor).
+// The frame accepts messages from `parent`, which is the window itself at
+// the top level.
+const bootstrap = `(function() {
+  'use strict';
+
+  var CHANNEL = __CHANNEL__;
+  var sketch = __SKETCH__;
+
+  function send(message, transfer) {
+    message.channel = CHANNEL;
+    window.postMessage(message, '*', transfer || []);
+  }
+
+  send({ type: 'start', sketch: sketch });
+
+  var webcam = sketch.assets.filter(function(asset) { return asset.kind === 'webcam'; })[0];
+  if (!webcam || !navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) return;
+
+  var video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+
+  function grab() {
+    if (video.readyState < 2) {
+      requestAnimationFrame(grab);
+      return;
+    }
+    createImageBitmap(video, { imageOrientation: webcam.settings.flipY ? 'flipY' : 'from-image' }).then(function(frame) {
+      send({ type: 'assetFrame', id: webcam.id, frame: frame }, [frame]);
+      requestAnimationFrame(grab);
+    }, function() {
+      requestAnimationFrame(grab);
+    });
+  }
+
+  navigator.mediaDevices.getUserMedia({ video: true }).then(function(stream) {
+    video.srcObject = stream;
+    video.play().catch(function() {});
+    grab();
+  }, function(error) {
+    console.warn('Webcam unavailable: ' + error.message);
+  });
+})();`
+
+// JSON is valid JavaScript; escaping "<" keeps "</script>" and "<!--" out of the page
+function scriptLiteral(value: unknown) {
+  return JSON.stringify(value).replace(/</g, "\\u003c")
+}
+
+/**
+ * A self-contained HTML page that runs `sketch` with the same runtime as
+ * the preview pane. Shaders, uniform values, textures, geometry and OGL
+ * (when used) are all inlined, so the file works offline.
+ */
+export function standaloneDocument(sketch: Sketch, title: string) {
+  const script = bootstrap
+    .replace("__CHANNEL__", () => scriptLiteral(RUNTIME_CHANNEL))
+    .replace("__SKETCH__", () => scriptLiteral(sketch))
+  return frameDocument(title, [script])
+}